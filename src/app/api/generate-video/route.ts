@@ -1,43 +1,128 @@
 /**
  * Video generation API proxy route
  * POST /api/generate-video - Create video generation task
+ * GET /api/generate-video - List recent tasks (page_num, page_size, filter.status, filter.task_ids, filter.model)
  *
  * This is a Next.js API route that proxies requests to the Seedance API
  * to avoid exposing API keys in the client
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import type { VideoGenerationRequest, VideoGenerationResponse, VideoError } from '@/types/video-api';
+import type {
+  VideoGenerationRequest,
+  VideoGenerationResponse,
+  VideoTaskListResponse,
+  VideoError,
+} from '@/types/video-api';
+import { arkFetch } from '@/lib/ark-api';
+import { getSessionApiKey, missingSessionResponse } from '@/lib/api-key-session';
+import { acquireSlot, rateLimitedResponse, upstreamRetryAfter } from '@/lib/rate-limiter';
+import { validateVideoRequest, validationErrorBody } from '@/lib/request-validation';
+import { getCallbackConfig, type CallbackConfig } from '@/lib/video-task-store';
 
-const SEEDANCE_API_URL = process.env.NEXT_PUBLIC_SEEDREAM_API_URL || 'https://ark.ap-southeast.bytepluses.com/api/v3';
+// Queue wait must fit in maxDuration; active tasks are re-counted on Ark every few seconds
+const QUEUE_MAX_WAIT_MS = 20000;
+const QUEUE_POLL_INTERVAL_MS = 3000;
 
 export async function POST(request: NextRequest) {
   try {
+    // Get API key from the session cookie
+    const apiKey = await getSessionApiKey(request);
+    if (!apiKey) {
+      return missingSessionResponse();
+    }
+
     // Parse request body
-    const body = await request.json();
-    const { apiKey, ...videoRequest } = body as VideoGenerationRequest & { apiKey: string };
+    const videoRequest = (await request.json()) as VideoGenerationRequest;
 
-    // Validate API key
-    if (!apiKey || apiKey.trim().length === 0) {
-      return NextResponse.json(
-        {
-          error: {
-            code: 'invalid_api_key',
-            message: 'API key is required',
-            type: 'authentication_error',
-          },
-        } as VideoError,
-        { status: 401 }
-      );
+    // Validate request (same rules as SeedanceClient; mode is inferred from the images)
+    const validationErrors = validateVideoRequest(videoRequest);
+    if (validationErrors.length > 0) {
+      return NextResponse.json(validationErrorBody(validationErrors) as VideoError, { status: 400 });
     }
 
-    // Validate request
-    if (!videoRequest.model || !videoRequest.content || videoRequest.content.length === 0) {
+    // Route status updates to /api/video-callback when configured (URL and secret)
+    const callbackConfig = videoRequest.callback_url ? null : getCallbackConfig();
+    const callbackEnabled = callbackConfig !== null;
+    if (callbackConfig) {
+      videoRequest.callback_url = buildCallbackUrl(callbackConfig);
+    }
+
+    // Per-key, per-model rate limit; online tasks also count against the concurrency limit
+    // while they are queued or running on Ark (flex tasks run from a separate offline pool)
+    const slotResult = await acquireSlot(apiKey, videoRequest.model, {
+      maxWaitMs: QUEUE_MAX_WAIT_MS,
+      pollIntervalMs: QUEUE_POLL_INTERVAL_MS,
+      countActive: videoRequest.service_tier === 'flex' ? undefined : () => countActiveOnlineTasks(apiKey),
+    });
+    if (!slotResult.granted) {
+      return rateLimitedResponse(slotResult);
+    }
+
+    // Forward request to Seedance API
+    const response = await arkFetch('/contents/generations/tasks', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify(videoRequest),
+    }).finally(slotResult.slot.release);
+
+    // Handle non-200 responses
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({
+        error: {
+          code: 'api_error',
+          message: `API request failed with status ${response.status}`,
+          type: 'api_error',
+        },
+      }));
+
+      return NextResponse.json(errorData, {
+        status: response.status,
+        headers: response.status === 429 ? { 'Retry-After': upstreamRetryAfter(response) } : undefined,
+      });
+    }
+
+    // Return successful response
+    const data: VideoGenerationResponse = await response.json();
+    return NextResponse.json({ ...data, callback_enabled: callbackEnabled } as VideoGenerationResponse);
+  } catch (error) {
+    console.error('Video generation error:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: 'internal_error',
+          message: error instanceof Error ? error.message : 'Internal server error',
+          type: 'internal_error',
+        },
+      } as VideoError,
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Get API key from the session cookie
+    const apiKey = await getSessionApiKey(request);
+    if (!apiKey) {
+      return missingSessionResponse();
+    }
+
+    // Validate pagination (Ark accepts 1-500 for both)
+    const searchParams = request.nextUrl.searchParams;
+    const pageNum = Number(searchParams.get('page_num') ?? 1);
+    const pageSize = Number(searchParams.get('page_size') ?? 10);
+
+    if (!isValidPageValue(pageNum) || !isValidPageValue(pageSize)) {
       return NextResponse.json(
         {
           error: {
             code: 'invalid_request',
-            message: 'Model and content are required',
+            message: 'page_num and page_size must be integers between 1 and 500',
             type: 'invalid_request_error',
           },
         } as VideoError,
@@ -45,14 +130,36 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Pass through supported filters only
+    const query = new URLSearchParams({
+      page_num: String(pageNum),
+      page_size: String(pageSize),
+    });
+
+    const status = searchParams.get('filter.status');
+    if (status) {
+      query.set('filter.status', status);
+    }
+
+    const model = searchParams.get('filter.model');
+    if (model) {
+      query.set('filter.model', model);
+    }
+
+    // Task IDs may be repeated or comma-separated
+    searchParams
+      .getAll('filter.task_ids')
+      .flatMap(value => value.split(','))
+      .map(id => id.trim())
+      .filter(Boolean)
+      .forEach(id => query.append('filter.task_ids', id));
+
     // Forward request to Seedance API
-    const response = await fetch(`${SEEDANCE_API_URL}/contents/generations/tasks`, {
-      method: 'POST',
+    const response = await arkFetch(`/contents/generations/tasks?${query.toString()}`, {
+      method: 'GET',
       headers: {
-        'Content-Type': 'application/json',
         'Authorization': `Bearer ${apiKey}`,
       },
-      body: JSON.stringify(videoRequest),
     });
 
     // Handle non-200 responses
@@ -69,10 +176,13 @@ export async function POST(request: NextRequest) {
     }
 
     // Return successful response
-    const data: VideoGenerationResponse = await response.json();
-    return NextResponse.json(data);
+    const data: VideoTaskListResponse = await response.json();
+    return NextResponse.json({
+      items: data.items ?? [],
+      total: data.total ?? 0,
+    } as VideoTaskListResponse);
   } catch (error) {
-    console.error('Video generation error:', error);
+    console.error('Video task list error:', error);
 
     return NextResponse.json(
       {
@@ -87,5 +197,44 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Append the shared secret checked by /api/video-callback
+ */
+function buildCallbackUrl(config: CallbackConfig): string {
+  const url = new URL(config.url);
+  url.searchParams.set('token', config.secret);
+  return url.toString();
+}
+
+/**
+ * Count queued + running online tasks on Ark
+ * Returns 0 when the list is unavailable so generation is never blocked by it
+ */
+async function countActiveOnlineTasks(apiKey: string): Promise<number> {
+  const counts = await Promise.all(
+    (['queued', 'running'] as const).map(async status => {
+      const query = new URLSearchParams({ page_num: '1', page_size: '100', 'filter.status': status });
+      const response = await arkFetch(`/contents/generations/tasks?${query.toString()}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+        },
+      }).catch(() => null);
+
+      if (!response?.ok) return 0;
+      const data: VideoTaskListResponse = await response.json();
+      return (data.items ?? []).filter(task => task.service_tier !== 'flex').length;
+    })
+  );
+  return counts[0] + counts[1];
+}
+
+/**
+ * Ark pagination bounds: integer in [1, 500]
+ */
+function isValidPageValue(value: number): boolean {
+  return Number.isInteger(value) && value >= 1 && value <= 500;
+}
+
 export const runtime = 'edge';
-export const maxDuration = 30; // 30 seconds max for task creation
+export const maxDuration = 30; // 30 seconds max for task creation / listing
@@ -1,42 +1,126 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { arkFetch } from '@/lib/ark-api';
+import { getSessionApiKey, missingSessionResponse } from '@/lib/api-key-session';
+import { acquireSlot, rateLimitedResponse, upstreamRetryAfter } from '@/lib/rate-limiter';
+import { validateSeedreamRequest, validationErrorBody } from '@/lib/request-validation';
+import type { SeedreamRequest, SeedreamError } from '@/types/api';
+
+// How long a request may wait in the queue for a free slot before getting a 429
+const QUEUE_MAX_WAIT_MS = 30000;
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { apiKey, ...seedreamRequest } = body;
-
+    // API key comes from the encrypted session cookie, never the request body
+    const apiKey = await getSessionApiKey(request);
     if (!apiKey) {
-      return NextResponse.json(
-        { error: { message: 'API key is required' } },
-        { status: 401 }
-      );
+      return missingSessionResponse();
     }
 
-    // Make request to Seedream API from server-side (no CORS issues)
-    const response = await fetch(
-      'https://ark.ap-southeast.bytepluses.com/api/v3/images/generations',
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify(seedreamRequest),
-      }
-    );
+    const seedreamRequest: SeedreamRequest = await request.json();
+
+    // Same rules as SeedreamClient, so nothing invalid is forwarded to Ark
+    const validationErrors = validateSeedreamRequest(seedreamRequest);
+    if (validationErrors.length > 0) {
+      return NextResponse.json(validationErrorBody(validationErrors), { status: 400 });
+    }
 
-    if (!response.ok) {
-      const error = await response.json();
-      return NextResponse.json(error, { status: response.status });
+    // Per-key, per-model rate limit and concurrency queue
+    const slotResult = await acquireSlot(apiKey, seedreamRequest.model, {
+      maxWaitMs: QUEUE_MAX_WAIT_MS,
+    });
+    if (!slotResult.granted) {
+      return rateLimitedResponse(slotResult);
     }
+    const { slot } = slotResult;
+    let releaseOnReturn = true;
 
-    const data = await response.json();
-    return NextResponse.json(data);
+    try {
+      // Make request to Seedream API from server-side (no CORS issues)
+      const response = await arkFetch(
+        '/images/generations',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify(seedreamRequest),
+        }
+      );
+
+      if (!response.ok) {
+        // Forward Ark's { error: { code, message, type } } so clients can classify it
+        const error = await response.json().catch(() => ({
+          error: {
+            code: 'api_error',
+            message: `API request failed with status ${response.status}`,
+            type: 'api_error',
+          },
+        }));
+        return NextResponse.json(error, {
+          status: response.status,
+          headers: response.status === 429 ? { 'Retry-After': upstreamRetryAfter(response) } : undefined,
+        });
+      }
+
+      // Streaming: relay Ark's SSE events untouched so each image reaches the browser as it lands
+      if (seedreamRequest.stream && response.body) {
+        releaseOnReturn = false; // The slot is held until the relay finishes
+        return new Response(releaseWhenDone(response.body, slot.release), {
+          headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+          },
+        });
+      }
+
+      const data = await response.json();
+      return NextResponse.json(data);
+    } finally {
+      if (releaseOnReturn) {
+        slot.release();
+      }
+    }
   } catch (error) {
     console.error('API route error:', error);
     return NextResponse.json(
-      { error: { message: 'Internal server error' } },
+      {
+        error: {
+          code: 'internal_error',
+          message: error instanceof Error ? error.message : 'Internal server error',
+          type: 'internal_error',
+        },
+      } as SeedreamError,
       { status: 500 }
     );
   }
 }
+
+/**
+ * Pass a stream through, calling release when it ends, errors or is cancelled
+ */
+function releaseWhenDone(body: ReadableStream<Uint8Array>, release: () => void): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+}
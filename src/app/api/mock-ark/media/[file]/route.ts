@@ -0,0 +1,65 @@
+/**
+ * Mock Ark media route
+ * GET /api/mock-ark/media/[taskId].mp4 - Placeholder video for a mock task
+ * GET /api/mock-ark/media/[taskId].png - Placeholder last frame
+ *
+ * Only available when NEXT_PUBLIC_ARK_MOCK=true
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { VideoError } from '@/types/video-api';
+import { isMockArkEnabled } from '@/lib/ark-api';
+import { decodeMockTaskId, mockTaskLastFrame, mockTaskVideo } from '@/lib/mock-ark';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ file: string }> }
+) {
+  const { file } = await params;
+  const match = file.match(/^(mock-[\w-]+)\.(mp4|png)$/);
+  const spec = match ? decodeMockTaskId(match[1]) : null;
+
+  if (!isMockArkEnabled() || !match || !spec) {
+    return NextResponse.json(
+      {
+        error: {
+          code: 'not_found',
+          message: 'Mock media not found',
+          type: 'invalid_request_error',
+        },
+      } as VideoError,
+      { status: 404 }
+    );
+  }
+
+  const isVideo = match[2] === 'mp4';
+  const bytes = isVideo ? mockTaskVideo(spec) : mockTaskLastFrame(spec);
+  const headers = {
+    'Content-Type': isVideo ? 'video/mp4' : 'image/png',
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'public, max-age=31536000, immutable', // Deterministic per task ID
+  };
+
+  // Safari only plays video served with byte-range support
+  const range = request.headers.get('Range')?.match(/^bytes=(\d*)-(\d*)$/);
+  if (range && (range[1] || range[2])) {
+    const start = range[1] ? Number(range[1]) : Math.max(0, bytes.length - Number(range[2]));
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), bytes.length - 1) : bytes.length - 1;
+    const chunk = bytes.subarray(start, end + 1);
+
+    return new Response(chunk as BodyInit, {
+      status: 206,
+      headers: {
+        ...headers,
+        'Content-Length': String(chunk.length),
+        'Content-Range': `bytes ${start}-${end}/${bytes.length}`,
+      },
+    });
+  }
+
+  return new Response(bytes as BodyInit, {
+    headers: { ...headers, 'Content-Length': String(bytes.length) },
+  });
+}
+
+export const runtime = 'edge';
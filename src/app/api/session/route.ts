@@ -0,0 +1,74 @@
+/**
+ * API key session route
+ * GET /api/session - Session status ({ authenticated, keyHint })
+ * POST /api/session - Exchange an API key for an encrypted httpOnly cookie
+ *
+ * Sign out with POST /api/session/sign-out
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { SessionStatus } from '@/types/api';
+import type { VideoError } from '@/types/video-api';
+import {
+  SESSION_COOKIE_NAME,
+  encryptApiKey,
+  decryptApiKey,
+  maskApiKey,
+  sessionCookieOptions,
+} from '@/lib/api-key-session';
+import { isMockArkEnabled } from '@/lib/ark-api';
+
+export async function GET(request: NextRequest) {
+  const cookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const apiKey = cookie ? await decryptApiKey(cookie) : null;
+
+  return NextResponse.json({
+    authenticated: apiKey !== null,
+    keyHint: apiKey ? maskApiKey(apiKey) : null,
+    mock: isMockArkEnabled(),
+  } as SessionStatus);
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { apiKey } = (await request.json()) as { apiKey?: string };
+
+    // Validate API key
+    if (!apiKey || apiKey.trim().length === 0) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'invalid_api_key',
+            message: 'API key is required',
+            type: 'authentication_error',
+          },
+        } as VideoError,
+        { status: 400 }
+      );
+    }
+
+    const trimmedKey = apiKey.trim();
+    const response = NextResponse.json({
+      authenticated: true,
+      keyHint: maskApiKey(trimmedKey),
+      mock: isMockArkEnabled(),
+    } as SessionStatus);
+    response.cookies.set(SESSION_COOKIE_NAME, await encryptApiKey(trimmedKey), sessionCookieOptions());
+    return response;
+  } catch (error) {
+    console.error('Session error:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: 'internal_error',
+          message: error instanceof Error ? error.message : 'Internal server error',
+          type: 'internal_error',
+        },
+      } as VideoError,
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'edge';
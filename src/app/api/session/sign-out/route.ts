@@ -0,0 +1,21 @@
+/**
+ * Sign-out route
+ * POST /api/session/sign-out - Clear the API key session cookie
+ */
+
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE_NAME, sessionCookieOptions } from '@/lib/api-key-session';
+import type { SessionStatus } from '@/types/api';
+import { isMockArkEnabled } from '@/lib/ark-api';
+
+export async function POST() {
+  const response = NextResponse.json({
+    authenticated: false,
+    keyHint: null,
+    mock: isMockArkEnabled(),
+  } as SessionStatus);
+  response.cookies.set(SESSION_COOKIE_NAME, '', sessionCookieOptions(0));
+  return response;
+}
+
+export const runtime = 'edge';
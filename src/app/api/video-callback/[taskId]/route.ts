@@ -0,0 +1,108 @@
+/**
+ * Video task subscription route
+ * GET /api/video-callback/[taskId] - Server-Sent Events stream of callback updates
+ *
+ * Sends the latest known task status immediately (if any), then every update
+ * Ark posts to /api/video-callback, and closes once the task is terminal.
+ * Only the status is pushed, never the results: a task ID is not proof of
+ * ownership, so clients fetch finished tasks with their own key instead.
+ * EventSource reconnects automatically if the stream is cut short.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { VideoTaskResponse, VideoTaskStatusUpdate, VideoError } from '@/types/video-api';
+import { isTerminalStatus } from '@/types/video-api';
+import { getStoredTask, subscribeToTask } from '@/lib/video-task-store';
+import { getSessionApiKey, missingSessionResponse } from '@/lib/api-key-session';
+
+const HEARTBEAT_INTERVAL_MS = 15000; // Keeps proxies from closing idle connections
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  // Only browsers with an API key session may follow task updates
+  const apiKey = await getSessionApiKey(request);
+  if (!apiKey) {
+    return missingSessionResponse();
+  }
+
+  const { taskId } = await params;
+
+  // Validate task ID
+  if (!taskId || taskId.trim().length === 0) {
+    return NextResponse.json(
+      {
+        error: {
+          code: 'invalid_request',
+          message: 'Task ID is required',
+          type: 'invalid_request_error',
+        },
+      } as VideoError,
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Stream already cancelled by the client
+        }
+      };
+
+      const send = (task: VideoTaskResponse) => {
+        if (closed) return;
+        const update: VideoTaskStatusUpdate = { id: task.id, status: task.status, updated_at: task.updated_at };
+        controller.enqueue(encoder.encode(`event: status\ndata: ${JSON.stringify(update)}\n\n`));
+        if (isTerminalStatus(task.status)) {
+          close();
+        }
+      };
+
+      const unsubscribe = subscribeToTask(taskId, send);
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+
+      // Browser went away
+      request.signal.addEventListener('abort', close, { once: true });
+
+      // Replay the latest known state
+      const latest = getStoredTask(taskId);
+      if (latest) {
+        send(latest);
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+// Node runtime: the task store lives in process memory shared with the callback route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,72 @@
+/**
+ * Seedance callback receiver
+ * POST /api/video-callback - Ark posts task status changes here (callback_url)
+ *
+ * Payload has the same shape as GET /contents/generations/tasks/{id}.
+ * Updates are recorded in the server-side task store and pushed to
+ * browsers subscribed via GET /api/video-callback/[taskId]. Requires
+ * SEEDANCE_CALLBACK_SECRET; browsers re-fetch terminal states from Ark
+ * rather than trusting the pushed body.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { VideoTaskResponse, VideoError } from '@/types/video-api';
+import { getCallbackConfig, isValidCallbackToken, recordTaskUpdate } from '@/lib/video-task-store';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Shared secret appended to callback_url by /api/generate-video
+    // Callbacks are refused outright unless both the URL and the secret are configured
+    const config = getCallbackConfig();
+    if (!config || !isValidCallbackToken(request.nextUrl.searchParams.get('token'), config.secret)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'invalid_token',
+            message: config ? 'Callback token is missing or invalid' : 'Video callbacks are not configured',
+            type: 'authentication_error',
+          },
+        } as VideoError,
+        { status: config ? 401 : 403 }
+      );
+    }
+
+    const task = (await request.json()) as VideoTaskResponse;
+
+    // Validate payload
+    if (!task || typeof task.id !== 'string' || typeof task.status !== 'string') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'invalid_request',
+            message: 'Callback payload must include task id and status',
+            type: 'invalid_request_error',
+          },
+        } as VideoError,
+        { status: 400 }
+      );
+    }
+
+    recordTaskUpdate(task);
+
+    // Ark only needs a 200 to stop retrying
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error('Video callback error:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: 'internal_error',
+          message: error instanceof Error ? error.message : 'Internal server error',
+          type: 'internal_error',
+        },
+      } as VideoError,
+      { status: 500 }
+    );
+  }
+}
+
+// Node runtime: the task store lives in process memory shared with the SSE route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
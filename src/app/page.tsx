@@ -5,29 +5,57 @@ import { motion } from 'framer-motion';
 import { Header } from '@/components/layout/header';
 import { ModeTabs, mapModeOnModelSwitch } from '@/components/studio/mode-tabs';
 import { ApiKeySetup } from '@/components/studio/api-key-setup';
-import { LoadingState } from '@/components/studio/loading-snake';
 import { PromptInput } from '@/components/studio/prompt-input';
 import { SizeSelector } from '@/components/studio/size-selector';
 import { QualityToggle } from '@/components/studio/quality-toggle';
 import { BatchModeToggle } from '@/components/studio/batch-mode-toggle';
+import { StreamToggle } from '@/components/studio/stream-toggle';
+import { SweepPanel } from '@/components/studio/sweep-panel';
+import { KeyframePipelinePanel } from '@/components/studio/keyframe-pipeline-panel';
+import { KeyframePipelineView } from '@/components/studio/keyframe-pipeline-view';
+import { FieldError } from '@/components/studio/field-error';
 import { ApiPreviewPanel } from '@/components/studio/api-preview-panel';
-import { GenerationOutput } from '@/components/studio/generation-output';
-import { ImageUploadZone, filesToBase64, type ImageFile } from '@/components/studio/image-upload-zone';
+import { JobList } from '@/components/studio/job-list';
+import { JobOutput } from '@/components/studio/job-output';
+import { JobGroupGrid } from '@/components/studio/job-group-grid';
+import { LineageTree } from '@/components/studio/lineage-tree';
+import { GalleryPanel } from '@/components/studio/gallery-panel';
+import { GenerationHistoryPanel } from '@/components/studio/generation-history-panel';
+import { PresetManager } from '@/components/studio/preset-manager';
+import { ImageUploadZone, filesToBase64, imageFileFromBase64, type ImageFile } from '@/components/studio/image-upload-zone';
 import { useApiKey } from '@/hooks/use-api-key';
-import { useGeneration } from '@/hooks/use-generation';
-import { useVideoGeneration } from '@/hooks/use-video-generation';
+import { useJobQueue } from '@/hooks/use-job-queue';
 import { useModelSelection } from '@/hooks/use-model';
-import type { GenerationMode, Quality, UnifiedMode } from '@/types/api';
+import { useWildcardLists } from '@/hooks/use-wildcard-lists';
+import { useStoryboard } from '@/hooks/use-storyboard';
+import { useKeyframePipeline } from '@/hooks/use-keyframe-pipeline';
+import { useGallery } from '@/hooks/use-gallery';
+import { modelFromVersion } from '@/hooks/use-generation-history';
+import { usePresets } from '@/hooks/use-presets';
+import { expandPromptMatrix, hasMatrixSyntax, MAX_MATRIX_PROMPTS } from '@/lib/prompt-matrix';
+import { countSweepCombinations, expandSweep, MAX_SWEEP_COMBINATIONS, type SweepSelection } from '@/lib/parameter-sweep';
+import { describeAppliedCommands, extractPromptCommands, type PromptCommandNote } from '@/lib/prompt-commands';
+import { IMAGE_PRICE_USD } from '@/constants/parameters';
+import { buildTextCommands, VIDEO_DEFAULTS } from '@/constants/video-parameters';
+import type { GenerationMode, Quality, SeaDreamModel, SeedreamModel, UnifiedMode } from '@/types/api';
 import type { VideoDuration, VideoResolution, VideoRatio, VideoServiceTier, VideoMode, MediaType } from '@/types/video-api';
+import type { ImageJob, VideoJob } from '@/types/jobs';
+import type { Generation, Preset } from '@/types/database';
 import { getMediaType, isVideoModel, isVideoMode } from '@/types/api';
+import { isValidDuration, isValidRatio, isValidResolution, isValidServiceTier } from '@/types/video-api';
 
 // Video components
 import { VideoSizeSelector } from '@/components/studio/video/video-size-selector';
 import { DurationSelector } from '@/components/studio/video/duration-selector';
 import { AudioToggle } from '@/components/studio/video/audio-toggle';
 import { AdvancedOptions } from '@/components/studio/video/advanced-options';
-import { VideoUploadZone, type VideoImageFile } from '@/components/studio/video/video-upload-zone';
-import { VideoOutput } from '@/components/studio/video/video-output';
+import { VideoUploadZone, videoImageFromSource, type VideoImageFile } from '@/components/studio/video/video-upload-zone';
+import { RemoteTasksPanel } from '@/components/studio/video/remote-tasks-panel';
+import { VideoHistoryPanel } from '@/components/studio/video/video-history-panel';
+import { VideoChain } from '@/components/studio/video/video-chain';
+import { StoryboardEditor } from '@/components/studio/video/storyboard-editor';
+import { StoryboardTimeline } from '@/components/studio/video/storyboard-timeline';
+import { PromptCommandsBar } from '@/components/studio/video/prompt-commands-bar';
 
 const containerVariants = {
   hidden: { opacity: 0 },
@@ -49,6 +77,9 @@ const itemVariants = {
 };
 
 // Size options for stats display (image)
+// Models a saved preset can switch to
+const PRESET_MODELS: SeaDreamModel[] = ['seedream-4-0', 'seedream-4-5', 'seedance-1-5-pro'];
+
 const SIZE_OPTIONS = [
   { dimensions: '2048×2048', ratio: 'Square' },
   { dimensions: '2560×1440', ratio: 'Wide' },
@@ -62,28 +93,49 @@ const SIZE_OPTIONS = [
 
 export default function Home() {
   // Use custom hooks
-  const { apiKey, setApiKey, hasApiKey } = useApiKey();
+  const { setApiKey, clearApiKey, hasApiKey, isConnected, keyHint, error: apiKeyError } = useApiKey();
   const { selectedModel, setSelectedModel } = useModelSelection();
 
-  // Image generation hooks
-  const {
-    generate: generateImage,
-    isGenerating: isGeneratingImage,
-    error: imageError,
-    result: imageResult,
-    clearResult: clearImageResult
-  } = useGeneration();
-
-  // Video generation hooks
+  // Generation job queue - submissions run in the background, the form stays editable
   const {
-    generate: generateVideo,
-    isGenerating: isGeneratingVideo,
-    taskStatus: videoTaskStatus,
-    progress: videoProgress,
-    error: videoError,
-    result: videoResult,
-    clearResult: clearVideoResult,
-  } = useVideoGeneration();
+    jobs,
+    groups,
+    concurrency,
+    setConcurrency,
+    fieldErrors,
+    runningCount,
+    queuedCount,
+    enqueueImage,
+    enqueueImageGroup,
+    enqueueVideo,
+    validateParams,
+    addVideoResult,
+    cancelJob,
+    retryJob,
+    retryJobSlot,
+    removeJob,
+    deleteVideoJob,
+    cancelGroup,
+    removeGroup,
+    clearFinished,
+  } = useJobQueue();
+  const [selectedJobId, setSelectedJobId] = React.useState<string | null>(null);
+  const [selectedGroupId, setSelectedGroupId] = React.useState<string | null>(null);
+  const selectedJob = jobs.find(job => job.id === selectedJobId) ?? null;
+  const selectedGroup = groups.find(group => group.id === selectedGroupId) ?? null;
+
+  // Multi-shot storyboard, run through the same queue
+  const storyboard = useStoryboard({ jobs, enqueueVideo });
+
+  // Seedream keyframes handed to Seedance as first/last frames
+  const keyframes = useKeyframePipeline({ jobs, enqueueImage, enqueueVideo, validateParams });
+
+  // Every finished output is copied into the local gallery (IndexedDB)
+  const gallery = useGallery(jobs);
+  const presets = usePresets();
+
+  // Saved __listname__ wildcards for prompt matrices
+  const { lists: wildcardLists, saveList, deleteList } = useWildcardLists();
 
   // Determine media type from selected model
   const mediaType: MediaType = getMediaType(selectedModel);
@@ -98,7 +150,16 @@ export default function Home() {
   const [quality, setQuality] = React.useState<Quality>('standard');
   const [batchMode, setBatchMode] = React.useState(false);
   const [maxImages, setMaxImages] = React.useState(15);
+  const [streamOutput, setStreamOutput] = React.useState(false);
   const [referenceImages, setReferenceImages] = React.useState<ImageFile[]>([]);
+  const carryReferencesRef = React.useRef(false); // Keep references through the next mode change
+  const carryBatchRef = React.useRef<{ batchMode: boolean; maxImages: number } | null>(null); // Batch settings for the next mode change
+  const [sweepEnabled, setSweepEnabled] = React.useState(false);
+  const [sweepSelection, setSweepSelection] = React.useState<SweepSelection>({
+    models: ['seedream-4-0', 'seedream-4-5'],
+    qualities: ['standard'],
+    sizes: ['2048×2048'],
+  });
 
   // Video generation parameters
   const [videoDuration, setVideoDuration] = React.useState<VideoDuration>(-1); // Auto
@@ -106,15 +167,45 @@ export default function Home() {
   const [videoRatio, setVideoRatio] = React.useState<VideoRatio>('adaptive');
   const [audioEnabled, setAudioEnabled] = React.useState(true);
   const [serviceTier, setServiceTier] = React.useState<VideoServiceTier>('default');
+  const [expiresAfter, setExpiresAfter] = React.useState<number>(VIDEO_DEFAULTS.expiresAfter); // Seconds (flex only)
+  const flexExpiresAfter = serviceTier === 'flex' ? expiresAfter : undefined; // Default tier keeps the API default
   const [returnLastFrame, setReturnLastFrame] = React.useState(false);
   const [videoImages, setVideoImages] = React.useState<VideoImageFile[]>([]);
+  const carryVideoImagesRef = React.useRef(false); // Keep video frames through the next mode change
   const [videoModelId, setVideoModelId] = React.useState<string | undefined>(undefined); // Optional custom model ID
+  const [videoSeed, setVideoSeed] = React.useState<number | null>(null); // null = random
+  const [cameraFixed, setCameraFixed] = React.useState(false);
+  const [commandNotes, setCommandNotes] = React.useState<PromptCommandNote[]>([]); // Typed --commands moved into the controls
+
+  // Keyframe pipeline - the prompt makes the first frame, Seedance animates to the last
+  const [pipelineEnabled, setPipelineEnabled] = React.useState(false);
+  const [pipelineLastPrompt, setPipelineLastPrompt] = React.useState('');
+  const [pipelineVideoPrompt, setPipelineVideoPrompt] = React.useState('');
+
+  // Prompt matrix - {a|b} and __list__ tokens expand into one job per combination
+  const promptExpansion = React.useMemo(
+    () => (!isVideo && hasMatrixSyntax(prompt) ? expandPromptMatrix(prompt, wildcardLists) : null),
+    [isVideo, prompt, wildcardLists]
+  );
+  const isMatrixBlocked = promptExpansion !== null &&
+    (promptExpansion.unknownLists.length > 0 || promptExpansion.total > MAX_MATRIX_PROMPTS);
+  const imagesPerPrompt = mode === 'multi-batch' || batchMode ? maxImages : 1;
+
+  // Parameter sweep - the same prompt across the selected models, qualities and sizes
+  const isSweep = !isVideo && sweepEnabled;
+  const sweepTotal = countSweepCombinations(sweepSelection);
+  const isSweepBlocked = isSweep &&
+    (sweepTotal === 0 || sweepTotal > MAX_SWEEP_COMBINATIONS || promptExpansion !== null);
+
+  const isPipeline = !isVideo && pipelineEnabled && (mode === 'text' || mode === 'image');
+  const isPipelineBlocked = isPipeline &&
+    (!pipelineLastPrompt.trim() || !pipelineVideoPrompt.trim() || isSweep || promptExpansion !== null);
 
   // Calculate reference image count for batch constraints
   const referenceImageCount = referenceImages.filter(img => img.validation.valid).length;
   const videoImageCount = videoImages.filter(img => img.validationStatus === 'valid').length;
 
-  // Handle model switch - map mode and clear state
+  // Handle model switch - map mode (queued jobs keep their own settings)
   React.useEffect(() => {
     const newMediaType = getMediaType(selectedModel);
     const newMode = mapModeOnModelSwitch(mode, newMediaType);
@@ -122,27 +213,38 @@ export default function Home() {
     if (newMode !== mode) {
       setMode(newMode);
     }
-
-    // Clear results when switching models
-    clearImageResult();
-    clearVideoResult();
   }, [selectedModel]);
 
   // Clear uploaded images and reset batch settings when switching modes
   React.useEffect(() => {
-    if (isVideo) {
+    if (isVideo && carryVideoImagesRef.current) {
+      // Frames were just set from a generated image
+      carryVideoImagesRef.current = false;
+    } else if (isVideo) {
       // Cleanup video image URLs
       videoImages.forEach(img => URL.revokeObjectURL(img.previewUrl));
       setVideoImages([]);
+    } else if (carryReferencesRef.current) {
+      // References were just set from a generated image
+      carryReferencesRef.current = false;
     } else {
       // Cleanup image URLs
       referenceImages.forEach(img => URL.revokeObjectURL(img.preview));
       setReferenceImages([]);
+    }
+
+    if (!isVideo) {
+      // Batch settings applied from a preset replace the mode defaults
+      const carriedBatch = carryBatchRef.current;
+      carryBatchRef.current = null;
 
       // For multi-batch mode, batch is always enabled
       if (mode === 'multi-batch') {
         setBatchMode(true);
-        setMaxImages(3);
+        setMaxImages(carriedBatch?.maxImages ?? 3);
+      } else if (carriedBatch) {
+        setBatchMode(carriedBatch.batchMode);
+        setMaxImages(carriedBatch.maxImages);
       } else {
         setBatchMode(false);
       }
@@ -162,24 +264,120 @@ export default function Home() {
     }
 
     const apiSize = size.replace('×', 'x');
-
-    await generateImage({
-      apiKey,
+    const params = {
+      parentId: validImages.find(img => img.sourceResultId)?.sourceResultId,
       prompt,
       mode: mode as GenerationMode,
-      model: selectedModel as any,
+      model: selectedModel as SeedreamModel,
       images,
       size: apiSize,
       quality,
       batchMode,
       maxImages: batchMode ? maxImages : undefined,
-    });
+      stream: streamOutput,
+    };
+
+    // Two keyframes, then a first/last frame video built from them
+    if (isPipeline) {
+      keyframes.runPipeline({
+        imageParams: params,
+        firstPrompt: prompt,
+        lastPrompt: pipelineLastPrompt,
+        videoPrompt: pipelineVideoPrompt,
+        videoSettings: {
+          duration: videoDuration,
+          resolution: videoResolution,
+          ratio: videoRatio,
+          generateAudio: audioEnabled,
+          serviceTier,
+          expiresAfter: flexExpiresAfter,
+          returnLastFrame,
+          modelId: videoModelId,
+        },
+      });
+      return;
+    }
+
+    // One job per model × quality × size, shown together as a grid
+    if (isSweep) {
+      const sweep = expandSweep(sweepSelection);
+      const groupId = enqueueImageGroup(
+        { kind: 'sweep', label: prompt, dimensions: sweep.dimensions },
+        sweep.combinations.map(combination => ({
+          params: {
+            ...params,
+            model: combination.model,
+            quality: combination.quality,
+            size: combination.size.replace('×', 'x'),
+            stream: false,
+          },
+          coordinates: combination.coordinates,
+        }))
+      );
+      if (groupId) {
+        setSelectedGroupId(groupId);
+        setSelectedJobId(null);
+      }
+      return;
+    }
+
+    // One job per prompt combination, shown together as a grid
+    if (promptExpansion) {
+      const groupId = enqueueImageGroup(
+        {
+          kind: 'matrix',
+          label: prompt,
+          dimensions: promptExpansion.dimensions.map(dimension => ({ label: dimension.token, values: dimension.values })),
+        },
+        promptExpansion.prompts.map(item => ({
+          params: { ...params, prompt: item.prompt, stream: false }, // Grid cells only show finished images
+          coordinates: item.coordinates,
+        }))
+      );
+      if (groupId) {
+        setSelectedGroupId(groupId);
+        setSelectedJobId(null);
+      }
+      return;
+    }
+
+    const jobId = enqueueImage(params);
+    if (jobId) setSelectedJobId(jobId);
+  };
+
+  // Move --commands typed into the prompt into the video controls
+  const applyPromptCommands = () => {
+    const extracted = extractPromptCommands(prompt);
+    const { settings } = extracted;
+    if (Object.keys(settings).length === 0 && extracted.notes.length === 0) return extracted;
+
+    if (settings.ratio) setVideoRatio(settings.ratio);
+    if (settings.duration !== undefined) setVideoDuration(settings.duration);
+    if (settings.resolution) setVideoResolution(settings.resolution);
+    if (settings.cameraFixed !== undefined) setCameraFixed(settings.cameraFixed);
+    if (settings.seed !== undefined) setVideoSeed(settings.seed);
+    setPrompt(extracted.prompt);
+    setCommandNotes([
+      ...describeAppliedCommands(settings, {
+        ratio: videoRatio,
+        duration: videoDuration,
+        resolution: videoResolution,
+        cameraFixed,
+        seed: videoSeed,
+      }),
+      ...extracted.notes,
+    ]);
+    return extracted;
   };
 
   // Handle video generation
   const handleVideoGenerate = async () => {
     if (!prompt || !hasApiKey) return;
 
+    // State updates land after this call, so read the typed values directly
+    const { prompt: cleanPrompt, settings } = applyPromptCommands();
+    if (!cleanPrompt) return;
+
     // Convert video images to base64
     const validImages = videoImages.filter(img => img.validationStatus === 'valid');
     const videoImageInputs = await Promise.all(
@@ -197,26 +395,245 @@ export default function Home() {
       })
     );
 
-    await generateVideo({
-      apiKey,
-      prompt,
+    const jobId = enqueueVideo({
+      prompt: cleanPrompt,
       mode: mode as VideoMode,
       images: videoImageInputs.length > 0 ? videoImageInputs : undefined,
-      duration: videoDuration,
-      resolution: videoResolution,
-      ratio: videoRatio,
+      duration: settings.duration ?? videoDuration,
+      resolution: settings.resolution ?? videoResolution,
+      ratio: settings.ratio ?? videoRatio,
+      cameraFixed: settings.cameraFixed ?? cameraFixed,
       generateAudio: audioEnabled,
       serviceTier,
+      expiresAfter: flexExpiresAfter,
       returnLastFrame,
       modelId: videoModelId,
+      seed: settings.seed ?? videoSeed ?? undefined,
     });
+    if (jobId) setSelectedJobId(jobId);
   };
 
   const handleGenerate = isVideo ? handleVideoGenerate : handleImageGenerate;
-  const isGenerating = isVideo ? isGeneratingVideo : isGeneratingImage;
-  const error = isVideo ? videoError : imageError;
-  const result = isVideo ? videoResult : imageResult;
-  const clearResult = isVideo ? clearVideoResult : clearImageResult;
+
+  // Feed a generated image back into the form as a reference (lineage)
+  const handleReuseOutput = async (job: ImageJob, base64: string, replace: boolean) => {
+    if (!job.result) return;
+
+    const model = isVideo ? job.params.model : (selectedModel as SeedreamModel);
+    const image = await imageFileFromBase64(base64, model, job.result.id);
+
+    if (replace) {
+      referenceImages.forEach(img => URL.revokeObjectURL(img.preview));
+    }
+    const nextImages = replace || isVideo ? [image] : [...referenceImages, image];
+    const nextMode: UnifiedMode = !isVideo && mode === 'multi-batch' && !replace
+      ? 'multi-batch'
+      : nextImages.length > 1 ? 'multi-image' : 'image';
+
+    if (nextMode !== mode || isVideo) {
+      carryReferencesRef.current = true;
+      setMode(nextMode);
+    }
+    if (isVideo) {
+      setSelectedModel(job.params.model);
+    }
+    setReferenceImages(nextImages);
+    if (!prompt) setPrompt(job.params.prompt);
+  };
+
+  // Hand a generated image to Seedance as a first or last frame, keeping the other frame
+  const handleUseAsVideoFrame = async (base64: string, role: 'first_frame' | 'last_frame') => {
+    const frame = await videoImageFromSource(base64, role);
+    const other = videoImages.find(img => img.role === (role === 'first_frame' ? 'last_frame' : 'first_frame'));
+
+    videoImages.filter(img => img !== other).forEach(img => URL.revokeObjectURL(img.previewUrl));
+    const nextImages = !other ? [frame] : role === 'first_frame' ? [frame, other] : [other, frame];
+    const nextMode: UnifiedMode = nextImages.length === 1 && role === 'first_frame'
+      ? 'image-to-video-first'
+      : 'image-to-video-frames';
+
+    if (nextMode !== mode || !isVideo) {
+      carryVideoImagesRef.current = true;
+      setMode(nextMode);
+    }
+    if (!isVideo) {
+      setSelectedModel('seedance-1-5-pro');
+    }
+    setVideoImages(nextImages);
+  };
+
+  // Load a finished video's prompt, frames and settings into the form
+  // With lockSeed the next video uses the same seed, so only the prompt edit changes the output
+  const handleRemixVideo = async (job: VideoJob, lockSeed: boolean) => {
+    if (!job.result) return;
+    const { params } = job;
+
+    const restored = await Promise.all((params.images ?? []).map(
+      img => videoImageFromSource(img.url, img.role ?? 'first_frame').catch(() => null) // Expired or cross-origin URLs are skipped
+    ));
+    videoImages.forEach(img => URL.revokeObjectURL(img.previewUrl));
+
+    if (params.mode !== mode || !isVideo) {
+      carryVideoImagesRef.current = true;
+      setMode(params.mode);
+    }
+    if (!isVideo) {
+      setSelectedModel('seedance-1-5-pro');
+    }
+    setVideoImages(restored.filter((img): img is VideoImageFile => img !== null));
+    setPrompt(params.prompt);
+    setVideoDuration(params.duration ?? -1);
+    setVideoResolution(params.resolution ?? '720p');
+    setVideoRatio(params.ratio ?? 'adaptive');
+    setCameraFixed(params.cameraFixed ?? false);
+    setAudioEnabled(params.generateAudio ?? true);
+    setServiceTier(params.serviceTier ?? 'default');
+    setExpiresAfter(params.expiresAfter ?? VIDEO_DEFAULTS.expiresAfter);
+    setReturnLastFrame(params.returnLastFrame ?? false);
+    setVideoModelId(params.modelId);
+    setVideoSeed(lockSeed ? job.result.seed : null);
+  };
+
+  // Fill the image form from a saved generation row (reference images are not stored, so they are re-uploaded)
+  const handleRerunGeneration = (row: Generation) => {
+    const rowMode = row.mode as GenerationMode;
+    const knownMode = ['text', 'image', 'multi-image', 'multi-batch'].includes(rowMode);
+    const nextModel = modelFromVersion(row.model_version) ?? (isVideo ? 'seedream-4-5' : selectedModel);
+    if (nextModel !== selectedModel) {
+      setSelectedModel(nextModel);
+    }
+    if (knownMode && rowMode !== mode) {
+      setMode(rowMode);
+    }
+    setPrompt(row.prompt);
+    setSize(row.size.replace('x', '×'));
+    if (row.quality === 'standard' || row.quality === 'fast') {
+      setQuality(row.quality);
+    }
+  };
+
+  // Save the current form as a preset (uploaded images are not stored)
+  const handleSavePreset = (name: string, description: string) => presets.createPreset({
+    name,
+    description,
+    mode,
+    model: selectedModel,
+    prompt,
+    size: size.replace('×', 'x'),
+    quality,
+    batchMode: !isVideo && batchMode,
+    maxImages: batchMode ? maxImages : undefined,
+    video: isVideo
+      ? {
+          duration: videoDuration,
+          resolution: videoResolution,
+          ratio: videoRatio,
+          generateAudio: audioEnabled,
+          serviceTier,
+        }
+      : undefined,
+  });
+
+  // Save a finished image job's settings as a preset named after its prompt (rename it in the manager)
+  const handleSaveJobAsPreset = (job: ImageJob) => {
+    const { params } = job;
+    void presets.createPreset({
+      name: params.prompt.length > 40 ? `${params.prompt.slice(0, 40).trim()}…` : params.prompt,
+      mode: params.mode,
+      model: params.model,
+      prompt: params.prompt,
+      size: params.size || '2048x2048',
+      quality: params.quality || 'standard',
+      batchMode: params.batchMode || false,
+      maxImages: params.maxImages,
+    });
+  };
+
+  // Fill the form from a preset; presets without a model keep the current image model
+  const handleApplyPreset = (preset: Preset) => {
+    const presetMode = preset.mode as UnifiedMode;
+    const videoPreset = isVideoMode(presetMode);
+    const presetModel = PRESET_MODELS.find(model => model === preset.model);
+    const nextModel: SeaDreamModel = presetModel && isVideoModel(presetModel) === videoPreset
+      ? presetModel
+      : videoPreset ? 'seedance-1-5-pro' : isVideo ? 'seedream-4-5' : selectedModel;
+
+    if (nextModel !== selectedModel) {
+      setSelectedModel(nextModel);
+    }
+    if (presetMode !== mode) {
+      setMode(presetMode);
+    }
+    setPrompt(preset.prompt);
+
+    if (videoPreset) {
+      if (preset.duration !== null && isValidDuration(preset.duration)) setVideoDuration(preset.duration);
+      if (preset.resolution && isValidResolution(preset.resolution)) setVideoResolution(preset.resolution);
+      if (preset.ratio && isValidRatio(preset.ratio)) setVideoRatio(preset.ratio);
+      if (preset.generate_audio !== null) setAudioEnabled(preset.generate_audio);
+      if (preset.service_tier && isValidServiceTier(preset.service_tier)) setServiceTier(preset.service_tier);
+      return;
+    }
+
+    setSize(preset.size.replace('x', '×'));
+    if (preset.quality === 'standard' || preset.quality === 'fast') {
+      setQuality(preset.quality);
+    }
+    const batch = { batchMode: preset.batch_mode, maxImages: preset.max_images ?? 15 };
+    if (presetMode !== mode || isVideo) {
+      carryBatchRef.current = batch; // The mode change resets batch settings
+    } else {
+      setBatchMode(batch.batchMode);
+      setMaxImages(batch.maxImages);
+    }
+  };
+
+  // Continue a finished video from its last frame as a new image-to-video task
+  const handleExtendVideo = (job: VideoJob, extendPrompt: string) => {
+    if (!job.result?.lastFrameUrl) return;
+
+    const jobId = enqueueVideo({
+      ...job.params,
+      prompt: extendPrompt,
+      mode: 'image-to-video-first',
+      images: [{ url: new URL(job.result.lastFrameUrl, window.location.origin).href, role: 'first_frame' }],
+      returnLastFrame: true, // So the extension can be extended again
+      parentTaskId: job.result.taskId,
+    });
+    if (jobId) handleSelectJob(jobId);
+  };
+
+  const handleSelectJob = (id: string) => {
+    setSelectedJobId(id);
+    setSelectedGroupId(null);
+  };
+
+  const handleSelectGroup = (id: string) => {
+    setSelectedGroupId(id);
+    setSelectedJobId(null);
+  };
+
+  const handleRetryJob = (id: string) => {
+    const jobId = retryJob(id);
+    if (jobId) handleSelectJob(jobId);
+  };
+
+  // Shots share the resolution, audio, tier and model of the video form
+  const handleRunStoryboard = () => {
+    if (!hasApiKey) return;
+    storyboard.runStoryboard({
+      resolution: videoResolution,
+      generateAudio: audioEnabled,
+      serviceTier,
+      expiresAfter: flexExpiresAfter,
+      modelId: videoModelId,
+    });
+  };
+
+  const handleRegenerateShot = (runId: string, index: number) => {
+    const jobId = storyboard.regenerateShot(runId, index);
+    if (jobId) handleSelectJob(jobId);
+  };
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -236,6 +653,7 @@ export default function Home() {
             : referenceImages.filter(img => img.validation.valid).map(() => '[base64 image data]')
         }
         model={selectedModel}
+        stream={streamOutput}
       />
 
       <main className="flex-1 w-full px-4 sm:px-6 lg:px-8 py-8">
@@ -259,14 +677,19 @@ export default function Home() {
             </p>
           </motion.div>
 
-          {/* API Key Setup */}
+          {/* API Key Setup (also holds the custom video model ID) */}
           <motion.div variants={itemVariants}>
-            <ApiKeySetup
-              apiKey={apiKey}
-              onApiKeyChange={setApiKey}
-              model={selectedModel}
-              onVideoModelIdChange={setVideoModelId}
-            />
+            <FieldError errors={fieldErrors} fields={['model']}>
+              <ApiKeySetup
+                isConnected={isConnected}
+                keyHint={keyHint}
+                error={apiKeyError}
+                onApiKeyChange={setApiKey}
+                onSignOut={clearApiKey}
+                model={selectedModel}
+                onVideoModelIdChange={setVideoModelId}
+              />
+            </FieldError>
           </motion.div>
 
           {/* Mode Tabs */}
@@ -286,49 +709,21 @@ export default function Home() {
               exit={{ opacity: 0, x: 20 }}
               transition={{ duration: 0.3, ease: [0.4, 0, 0.2, 1] }}
             >
-              {isGenerating ? (
-                <LoadingState />
-              ) : result ? (
-                <div className="space-y-8">
-                  {isVideo && videoResult ? (
-                    <VideoOutput result={videoResult} onGenerateAnother={clearResult} />
-                  ) : imageResult ? (
-                    <>
-                      <GenerationOutput
-                        images={imageResult.images}
-                        generationTimeMs={0}
-                        prompt={imageResult.prompt}
-                        mode={imageResult.mode}
-                        model={imageResult.model}
-                        size={imageResult.parameters.size}
-                        quality={imageResult.parameters.quality}
-                        batchMode={imageResult.parameters.batchMode}
-                        maxImages={imageResult.parameters.maxImages}
-                        referenceImageUrls={imageResult.referenceImageUrls}
-                      />
-                      <motion.button
-                        onClick={clearResult}
-                        whileHover={{ scale: 1.02 }}
-                        whileTap={{ scale: 0.98 }}
-                        className="w-full rounded-xl border-2 border-ocean-500/30 bg-gradient-to-r from-ocean-500/10 to-dream-500/10 px-8 py-4 text-base font-semibold hover:border-ocean-500/50 transition-all"
-                      >
-                        Generate Another
-                      </motion.button>
-                    </>
-                  ) : null}
-                </div>
-              ) : (
-                <div className="space-y-8">
-                  {/* Upload zones - conditional based on media type */}
-                  {isVideo && isVideoMode(mode) ? (
+              {/* The form stays editable while jobs run */}
+              <div className="space-y-8">
+                {/* Upload zones - conditional based on media type */}
+                {isVideo && isVideoMode(mode) ? (
+                  <FieldError errors={fieldErrors} fields={['images']}>
                     <VideoUploadZone
                       mode={mode}
                       images={videoImages}
                       onImagesChange={setVideoImages}
                     />
-                  ) : (
-                    <>
-                      {(mode === 'image' || mode === 'multi-image' || mode === 'multi-batch') && (
+                  </FieldError>
+                ) : (
+                  <>
+                    {(mode === 'image' || mode === 'multi-image' || mode === 'multi-batch') && (
+                      <FieldError errors={fieldErrors} fields={['images']}>
                         <ImageUploadZone
                           images={referenceImages}
                           onChange={setReferenceImages}
@@ -336,30 +731,32 @@ export default function Home() {
                           mode={mode === 'image' ? 'single' : 'multi'}
                           model={selectedModel as any}
                         />
-                      )}
-
-                      {mode === 'multi-batch' && (
-                        <div className="rounded-xl border border-purple-500/30 bg-gradient-to-br from-purple-500/10 to-purple-500/5 p-4">
-                          <div className="flex items-start gap-3">
-                            <div className="p-2 rounded-lg bg-purple-500/10">
-                              <svg className="w-5 h-5 text-purple-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-                              </svg>
-                            </div>
-                            <div>
-                              <h4 className="text-sm font-semibold text-purple-600 dark:text-purple-400">Multi-Image to Batch Generation</h4>
-                              <p className="text-xs text-muted-foreground mt-1">
-                                Upload 2-14 reference images, then describe what variations to generate.
-                              </p>
-                            </div>
+                      </FieldError>
+                    )}
+
+                    {mode === 'multi-batch' && (
+                      <div className="rounded-xl border border-purple-500/30 bg-gradient-to-br from-purple-500/10 to-purple-500/5 p-4">
+                        <div className="flex items-start gap-3">
+                          <div className="p-2 rounded-lg bg-purple-500/10">
+                            <svg className="w-5 h-5 text-purple-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                            </svg>
+                          </div>
+                          <div>
+                            <h4 className="text-sm font-semibold text-purple-600 dark:text-purple-400">Multi-Image to Batch Generation</h4>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Upload 2-14 reference images, then describe what variations to generate.
+                            </p>
                           </div>
                         </div>
-                      )}
-                    </>
-                  )}
+                      </div>
+                    )}
+                  </>
+                )}
 
-                  {/* Batch Mode Toggle - only for image generation */}
-                  {!isVideo && mode !== 'multi-batch' && (
+                {/* Batch Mode Toggle - only for image generation */}
+                {!isVideo && mode !== 'multi-batch' && (
+                  <FieldError errors={fieldErrors} fields={['maxImages']}>
                     <BatchModeToggle
                       mode={mode as GenerationMode}
                       referenceImageCount={referenceImageCount}
@@ -368,117 +765,385 @@ export default function Home() {
                       onBatchEnabledChange={setBatchMode}
                       onMaxImagesChange={setMaxImages}
                     />
-                  )}
+                  </FieldError>
+                )}
 
-                  {/* Prompt Input */}
-                  <PromptInput value={prompt} onChange={setPrompt} mode={mode} model={selectedModel} />
+                {/* Prompt Input */}
+                <FieldError errors={fieldErrors} fields={['prompt']}>
+                  <PromptInput
+                    value={prompt}
+                    onChange={setPrompt}
+                    mode={mode}
+                    model={selectedModel}
+                    onBlur={isVideo ? applyPromptCommands : undefined}
+                    matrix={isVideo ? undefined : {
+                      expansion: promptExpansion,
+                      lists: wildcardLists,
+                      onSaveList: saveList,
+                      onDeleteList: deleteList,
+                      imagesPerPrompt,
+                      costPerImage: IMAGE_PRICE_USD[selectedModel as SeedreamModel],
+                    }}
+                  />
+                </FieldError>
+                {isVideo && (
+                  <PromptCommandsBar
+                    commands={buildTextCommands({
+                      ratio: videoRatio,
+                      duration: videoDuration,
+                      resolution: videoResolution,
+                      cameraFixed,
+                    })}
+                    notes={commandNotes}
+                    onDismissNotes={() => setCommandNotes([])}
+                    className="-mt-4"
+                  />
+                )}
 
-                  {/* Parameters - conditional based on media type */}
-                  {isVideo ? (
-                    <div className="space-y-8">
-                      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {/* Parameters - conditional based on media type */}
+                {isVideo ? (
+                  <div className="space-y-8">
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                      <FieldError errors={fieldErrors} fields={['resolution', 'ratio']}>
                         <VideoSizeSelector
                           resolution={videoResolution}
                           ratio={videoRatio}
                           onResolutionChange={setVideoResolution}
                           onRatioChange={setVideoRatio}
                         />
+                      </FieldError>
+                      <FieldError errors={fieldErrors} fields={['duration']}>
                         <DurationSelector value={videoDuration} onChange={setVideoDuration} />
-                      </div>
-                      <AudioToggle enabled={audioEnabled} onChange={setAudioEnabled} />
+                      </FieldError>
+                    </div>
+                    <AudioToggle enabled={audioEnabled} onChange={setAudioEnabled} />
+                    <FieldError errors={fieldErrors} fields={['serviceTier', 'expiresAfter', 'seed']}>
                       <AdvancedOptions
                         serviceTier={serviceTier}
                         returnLastFrame={returnLastFrame}
+                        seed={videoSeed}
+                        cameraFixed={cameraFixed}
+                        expiresAfter={expiresAfter}
                         onServiceTierChange={setServiceTier}
                         onReturnLastFrameChange={setReturnLastFrame}
+                        onSeedChange={setVideoSeed}
+                        onCameraFixedChange={setCameraFixed}
+                        onExpiresAfterChange={setExpiresAfter}
                       />
-                    </div>
-                  ) : (
+                    </FieldError>
+                  </div>
+                ) : (
+                  <div className="space-y-8">
                     <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-                      <SizeSelector value={size} onChange={setSize} model={selectedModel as any} />
+                      <FieldError errors={fieldErrors} fields={['size']}>
+                        <SizeSelector value={size} onChange={setSize} model={selectedModel as any} />
+                      </FieldError>
                       <div className="space-y-8">
-                        <QualityToggle value={quality} onChange={setQuality} />
+                        <FieldError errors={fieldErrors} fields={['quality']}>
+                          <QualityToggle value={quality} onChange={setQuality} />
+                        </FieldError>
+                        <StreamToggle enabled={streamOutput} onChange={setStreamOutput} />
                       </div>
                     </div>
-                  )}
+                    <SweepPanel
+                      enabled={sweepEnabled}
+                      onEnabledChange={setSweepEnabled}
+                      selection={sweepSelection}
+                      onSelectionChange={setSweepSelection}
+                      imagesPerCombination={imagesPerPrompt}
+                    />
+                    {(mode === 'text' || mode === 'image') && (
+                      <KeyframePipelinePanel
+                        enabled={pipelineEnabled}
+                        onEnabledChange={setPipelineEnabled}
+                        lastPrompt={pipelineLastPrompt}
+                        onLastPromptChange={setPipelineLastPrompt}
+                        videoPrompt={pipelineVideoPrompt}
+                        onVideoPromptChange={setPipelineVideoPrompt}
+                        duration={videoDuration}
+                        onDurationChange={setVideoDuration}
+                        resolution={videoResolution}
+                        onResolutionChange={setVideoResolution}
+                      />
+                    )}
+                  </div>
+                )}
+
+                {/* Generate Button */}
+                <div className="pt-4 space-y-3">
+                  {(() => {
+                    const needsImages = !isVideo && (
+                      (mode === 'multi-batch' && referenceImageCount < 2) ||
+                      ((mode === 'image' || mode === 'multi-image') && referenceImageCount < (mode === 'image' ? 1 : 2))
+                    );
+
+                    const needsVideoImages = isVideo && (
+                      (mode === 'image-to-video-first' && videoImageCount < 1) ||
+                      (mode === 'image-to-video-frames' && videoImageCount < 2) ||
+                      (mode === 'image-to-video-ref' && videoImageCount < 1)
+                    );
 
-                  {/* Generate Button */}
-                  <div className="pt-4 space-y-3">
-                    {(() => {
-                      const needsImages = !isVideo && (
-                        (mode === 'multi-batch' && referenceImageCount < 2) ||
-                        ((mode === 'image' || mode === 'multi-image') && referenceImageCount < (mode === 'image' ? 1 : 2))
-                      );
-
-                      const needsVideoImages = isVideo && (
-                        (mode === 'image-to-video-first' && videoImageCount < 1) ||
-                        (mode === 'image-to-video-frames' && videoImageCount < 2) ||
-                        (mode === 'image-to-video-ref' && videoImageCount < 1)
-                      );
-
-                      const isDisabled = !prompt || !hasApiKey || needsImages || needsVideoImages;
-
-                      return (
-                        <>
-                          <motion.button
-                            onClick={handleGenerate}
-                            disabled={isDisabled}
-                            whileHover={{ scale: 1.02 }}
-                            whileTap={{ scale: 0.98 }}
-                            className={`w-full rounded-xl bg-gradient-to-r ${isVideo ? 'from-green-500 to-teal-500' : 'from-ocean-500 to-dream-500'} px-8 py-4 text-base font-semibold text-white shadow-lg hover:shadow-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 relative overflow-hidden group`}
-                          >
-                            <div className="absolute inset-0 translate-x-[-100%] group-hover:translate-x-[100%] transition-transform duration-1000 bg-gradient-to-r from-transparent via-white/20 to-transparent" />
-                            <span className="relative flex items-center justify-center gap-2">
-                              <span>
-                                {isVideo ? 'Generate Video' : mode === 'multi-batch' || batchMode ? `Generate ${maxImages} Image${maxImages > 1 ? 's' : ''}` : 'Generate Image'}
-                              </span>
-                              {prompt && hasApiKey && !isDisabled && (
-                                <motion.span
-                                  initial={{ rotate: 0 }}
-                                  animate={{ rotate: 360 }}
-                                  transition={{ duration: 2, repeat: Infinity, ease: 'linear' }}
-                                  className="inline-block"
-                                >
-                                  ✨
-                                </motion.span>
-                              )}
+                    const isDisabled = !prompt || !hasApiKey || needsImages || needsVideoImages || isMatrixBlocked || isSweepBlocked || isPipelineBlocked;
+
+                    return (
+                      <>
+                        <motion.button
+                          onClick={handleGenerate}
+                          disabled={isDisabled}
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                          className={`w-full rounded-xl bg-gradient-to-r ${isVideo ? 'from-green-500 to-teal-500' : 'from-ocean-500 to-dream-500'} px-8 py-4 text-base font-semibold text-white shadow-lg hover:shadow-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 relative overflow-hidden group`}
+                        >
+                          <div className="absolute inset-0 translate-x-[-100%] group-hover:translate-x-[100%] transition-transform duration-1000 bg-gradient-to-r from-transparent via-white/20 to-transparent" />
+                          <span className="relative flex items-center justify-center gap-2">
+                            <span>
+                              {isVideo
+                                ? 'Generate Video'
+                                : isPipeline
+                                ? 'Run Keyframe Pipeline'
+                                : isSweep
+                                ? `Run ${sweepTotal} Combination${sweepTotal === 1 ? '' : 's'}`
+                                : promptExpansion
+                                ? `Generate ${promptExpansion.total} Prompt${promptExpansion.total === 1 ? '' : 's'}`
+                                : mode === 'multi-batch' || batchMode ? `Generate ${maxImages} Image${maxImages > 1 ? 's' : ''}` : 'Generate Image'}
                             </span>
-                          </motion.button>
-
-                          {error && (
-                            <motion.div
-                              initial={{ opacity: 0, y: -5 }}
-                              animate={{ opacity: 1, y: 0 }}
-                              className="p-4 rounded-xl bg-red-500/10 border border-red-500/20"
-                            >
-                              <p className="text-sm text-red-600 dark:text-red-400 text-center">
-                                {error}
-                              </p>
-                            </motion.div>
-                          )}
-
-                          {!error && (
-                            <motion.p
-                              initial={{ opacity: 0, y: -5 }}
-                              animate={{ opacity: 1, y: 0 }}
-                              className="text-xs text-center text-muted-foreground"
-                            >
-                              {!hasApiKey
-                                ? 'Enter your API key above to get started'
-                                : needsImages || needsVideoImages
-                                  ? 'Upload required images for this mode'
-                                  : !prompt
-                                    ? 'Write a prompt to begin'
-                                    : null}
-                            </motion.p>
-                          )}
-                        </>
-                      );
-                    })()}
-                  </div>
+                            {prompt && hasApiKey && !isDisabled && (
+                              <motion.span
+                                initial={{ rotate: 0 }}
+                                animate={{ rotate: 360 }}
+                                transition={{ duration: 2, repeat: Infinity, ease: 'linear' }}
+                                className="inline-block"
+                              >
+                                ✨
+                              </motion.span>
+                            )}
+                          </span>
+                        </motion.button>
+
+                        <motion.p
+                          initial={{ opacity: 0, y: -5 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          className="text-xs text-center text-muted-foreground"
+                        >
+                          {!hasApiKey
+                            ? 'Enter your API key above to get started'
+                            : needsImages || needsVideoImages
+                              ? 'Upload required images for this mode'
+                              : isPipelineBlocked
+                              ? isSweep || promptExpansion
+                                ? 'Keyframes to Video runs one prompt. Turn off the sweep and remove matrix tokens.'
+                                : 'Add a last frame prompt and a motion prompt'
+                              : isSweep && promptExpansion
+                              ? 'A sweep runs one prompt. Remove the {a|b} and __list__ tokens or turn the sweep off.'
+                              : isMatrixBlocked || isSweepBlocked
+                              ? `Fix the ${isSweepBlocked ? 'sweep selection' : 'prompt matrix'} to continue`
+                              : !prompt
+                                ? 'Write a prompt to begin'
+                                : runningCount + queuedCount > 0
+                                  ? `${runningCount} running · ${queuedCount} queued. Keep editing to line up the next job.`
+                                  : null}
+                        </motion.p>
+                      </>
+                    );
+                  })()}
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+
+          {/* Job queue and the selected job's output */}
+          {jobs.length > 0 && (
+            <motion.div variants={itemVariants} className="space-y-4">
+              <JobList
+                jobs={jobs}
+                selectedJobId={selectedJobId}
+                onSelect={handleSelectJob}
+                concurrency={concurrency}
+                onConcurrencyChange={setConcurrency}
+                onCancel={cancelJob}
+                onRetry={handleRetryJob}
+                onRemove={removeJob}
+                onClearFinished={clearFinished}
+                groups={groups}
+                selectedGroupId={selectedGroupId}
+                onSelectGroup={handleSelectGroup}
+                onCancelGroup={cancelGroup}
+                onRemoveGroup={(id) => {
+                  removeGroup(id);
+                  if (id === selectedGroupId) setSelectedGroupId(null);
+                }}
+              />
+
+              {selectedJob ? (
+                <div className="rounded-xl border border-border bg-card p-6 sm:p-8 space-y-4">
+                  {selectedGroup && (
+                    <button
+                      onClick={() => handleSelectGroup(selectedGroup.id)}
+                      className="text-xs text-muted-foreground hover:text-ocean-500 transition-colors"
+                    >
+                      ← Back to grid
+                    </button>
+                  )}
+                  <JobOutput
+                    key={selectedJob.id}
+                    job={selectedJob}
+                    onCancel={() => cancelJob(selectedJob.id)}
+                    onRetry={() => handleRetryJob(selectedJob.id)}
+                    onRetrySlot={(index) => retryJobSlot(selectedJob.id, index)}
+                    onDeleteVideo={() => deleteVideoJob(selectedJob.id)}
+                    onClose={() => setSelectedJobId(null)}
+                    onSwitchModel={setSelectedModel}
+                    onChangeKey={clearApiKey}
+                    onUseAsReference={selectedJob.kind === 'image'
+                      ? (base64) => handleReuseOutput(selectedJob, base64, true)
+                      : undefined}
+                    onAddToReferences={selectedJob.kind === 'image'
+                      ? (base64) => handleReuseOutput(selectedJob, base64, false)
+                      : undefined}
+                    onUseAsVideoFrame={selectedJob.kind === 'image' ? handleUseAsVideoFrame : undefined}
+                    onExtendVideo={selectedJob.kind === 'video'
+                      ? (extendPrompt) => handleExtendVideo(selectedJob, extendPrompt)
+                      : undefined}
+                    onRemixVideo={selectedJob.kind === 'video'
+                      ? (lockSeed) => handleRemixVideo(selectedJob, lockSeed)
+                      : undefined}
+                    onSaveAsPreset={selectedJob.kind === 'image'
+                      ? () => handleSaveJobAsPreset(selectedJob)
+                      : undefined}
+                  />
+                  <VideoChain
+                    key={`chain-${selectedJob.id}`}
+                    jobs={jobs}
+                    selectedJobId={selectedJob.id}
+                    onSelectJob={setSelectedJobId}
+                    className="border-t border-border pt-4"
+                  />
+                  <LineageTree
+                    jobs={jobs}
+                    selectedJobId={selectedJob.id}
+                    onSelectJob={setSelectedJobId}
+                    className="border-t border-border pt-4"
+                  />
+                </div>
+              ) : selectedGroup && (
+                <div className="rounded-xl border border-border bg-card p-6 sm:p-8">
+                  <JobGroupGrid
+                    group={selectedGroup}
+                    jobs={jobs.filter((job): job is ImageJob => job.kind === 'image' && job.group?.id === selectedGroup.id)}
+                    onSelectJob={setSelectedJobId}
+                    onCancelQueued={() => cancelGroup(selectedGroup.id)}
+                  />
                 </div>
               )}
             </motion.div>
+          )}
+
+          {/* Keyframe pipelines - Seedream keyframes and the Seedance video built from them */}
+          {keyframes.pipelines.length > 0 && (
+            <motion.div variants={itemVariants} className="rounded-xl border border-border bg-card p-6 sm:p-8 space-y-4">
+              <div className="text-sm font-semibold">Keyframes to Video</div>
+              {keyframes.pipelines.map((pipeline, index) => (
+                <KeyframePipelineView
+                  key={pipeline.id}
+                  pipeline={pipeline}
+                  jobs={jobs}
+                  keyframeStatus={keyframes.keyframeStatus}
+                  videoStatus={keyframes.videoStatus}
+                  onRegenerateKeyframe={keyframes.regenerateKeyframe}
+                  onRegenerateVideo={keyframes.regenerateVideo}
+                  onSelectJob={handleSelectJob}
+                  onRemove={keyframes.removePipeline}
+                  className={index > 0 ? 'border-t border-border pt-4' : ''}
+                />
+              ))}
+            </motion.div>
+          )}
+
+          {/* Storyboard - several shots rendered as one sequence */}
+          {isVideo && (
+            <motion.div variants={itemVariants} className="rounded-xl border border-border bg-card p-6 sm:p-8 space-y-6">
+              <StoryboardEditor
+                shots={storyboard.shots}
+                chainFrames={storyboard.chainFrames}
+                onChainFramesChange={storyboard.setChainFrames}
+                onAddShot={storyboard.addShot}
+                onUpdateShot={storyboard.updateShot}
+                onRemoveShot={storyboard.removeShot}
+                onMoveShot={storyboard.moveShot}
+                onRun={handleRunStoryboard}
+                canRun={hasApiKey}
+              />
+              {storyboard.runs.map(run => (
+                <StoryboardTimeline
+                  key={run.id}
+                  run={run}
+                  jobs={jobs}
+                  shotStatus={storyboard.shotStatus}
+                  onRegenerateShot={handleRegenerateShot}
+                  onSelectJob={handleSelectJob}
+                  onRemove={storyboard.removeRun}
+                  className="border-t border-border pt-4"
+                />
+              ))}
+            </motion.div>
+          )}
+
+          {/* Remote tasks - reopen finished videos after a refresh */}
+          {isVideo && hasApiKey && (
+            <motion.div variants={itemVariants}>
+              <RemoteTasksPanel
+                modelId={videoModelId}
+                onOpen={(remoteResult) => {
+                  setSelectedJobId(addVideoResult(remoteResult, videoModelId));
+                }}
+              />
+            </motion.div>
+          )}
+
+          {/* Presets - saved prompts and settings for both image and video models */}
+          <motion.div variants={itemVariants}>
+            <PresetManager
+              presets={presets.presets}
+              isLoading={presets.isLoading}
+              error={presets.error}
+              canSave={prompt.trim().length > 0}
+              onSave={handleSavePreset}
+              onApply={handleApplyPreset}
+              onRename={presets.renamePreset}
+              onDelete={presets.deletePreset}
+              onRefresh={presets.fetchPresets}
+              onDismissError={presets.clearError}
+            />
+          </motion.div>
+
+          {/* Video history - opt-in metadata saved to Supabase */}
+          {isVideo && (
+            <motion.div variants={itemVariants}>
+              <VideoHistoryPanel
+                onOpen={(savedResult) => {
+                  setSelectedJobId(addVideoResult(savedResult, videoModelId));
+                }}
+              />
+            </motion.div>
+          )}
+
+          {/* Generation history - saved prompts and settings from Supabase */}
+          {!isVideo && (
+            <motion.div variants={itemVariants}>
+              <GenerationHistoryPanel onRerun={handleRerunGeneration} />
+            </motion.div>
+          )}
+
+          {/* Local gallery - outputs kept in this browser across reloads */}
+          <motion.div variants={itemVariants}>
+            <GalleryPanel
+              entries={gallery.entries}
+              storage={gallery.storage}
+              error={gallery.error}
+              onDelete={gallery.removeItem}
+              onClear={gallery.clearAll}
+              onDismissError={gallery.clearError}
+            />
           </motion.div>
 
           {/* Stats/Info Section */}
@@ -5,10 +5,14 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Key, CheckCircle, AlertCircle, Eye, EyeOff } from 'lucide-react';
 
 import type { SeaDreamModel } from '@/types/api';
+import { isMockArkEnabled } from '@/lib/ark-api';
 
 interface ApiKeySetupProps {
-  apiKey: string; // Passed from parent for controlled component
-  onApiKeyChange: (key: string) => void; // Callback to parent
+  isConnected: boolean; // Session cookie holds a key
+  keyHint: string | null; // Masked key from the session
+  error?: string | null; // Session exchange error
+  onApiKeyChange: (key: string) => Promise<boolean> | void; // Exchanges the key for a session
+  onSignOut: () => void; // Clears the session cookie
   model?: SeaDreamModel;
   onVideoModelIdChange?: (modelId: string) => void; // Optional callback for custom video model ID
   className?: string;
@@ -23,6 +27,11 @@ function validateApiKeyFormat(key: string): { isValid: boolean; message?: string
     return { isValid: false };
   }
 
+  // Mock backend accepts anything
+  if (isMockArkEnabled()) {
+    return { isValid: true };
+  }
+
   // Basic format check - should be alphanumeric with possible dashes/underscores
   // Typical API keys are at least 20 characters
   if (key.length < 20) {
@@ -38,22 +47,21 @@ function validateApiKeyFormat(key: string): { isValid: boolean; message?: string
 }
 
 export function ApiKeySetup({
-  apiKey,
+  isConnected,
+  keyHint,
+  error,
   onApiKeyChange,
+  onSignOut,
   model = 'seedream-4-5',
   onVideoModelIdChange,
   className = ''
 }: ApiKeySetupProps) {
-  const [localKey, setLocalKey] = React.useState(apiKey);
+  const [localKey, setLocalKey] = React.useState('');
   const [isVisible, setIsVisible] = React.useState(false);
   const [isFocused, setIsFocused] = React.useState(false);
+  const [isSaving, setIsSaving] = React.useState(false);
   const [localVideoModelId, setLocalVideoModelId] = React.useState(''); // Custom video model ID
 
-  // Sync local state with prop when it changes (e.g., loaded from localStorage)
-  React.useEffect(() => {
-    setLocalKey(apiKey);
-  }, [apiKey]);
-
   const validation = validateApiKeyFormat(localKey);
 
   const handleKeyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -61,11 +69,16 @@ export function ApiKeySetup({
     setLocalKey(newKey);
   };
 
-  const handleBlur = () => {
+  const handleBlur = async () => {
     setIsFocused(false);
-    // Save to parent (which handles localStorage via hook)
-    if (validation.isValid) {
-      onApiKeyChange(localKey);
+    // Exchange for a session cookie; the raw key is dropped from state once saved
+    if (validation.isValid && !isSaving) {
+      setIsSaving(true);
+      const saved = await onApiKeyChange(localKey.trim());
+      setIsSaving(false);
+      if (saved !== false) {
+        setLocalKey('');
+      }
     }
   };
 
@@ -75,8 +88,9 @@ export function ApiKeySetup({
     }
   };
 
-  // Show setup card if no valid API key from parent
-  const showSetupCard = !validateApiKeyFormat(apiKey).isValid;
+  // Show setup card until a session exists (the mock backend needs none)
+  const mockBackend = isMockArkEnabled();
+  const showSetupCard = !isConnected && !mockBackend;
 
   return (
     <div className={className}>
@@ -179,6 +193,16 @@ export function ApiKeySetup({
                         {validation.message}
                       </motion.p>
                     )}
+                    {error && !isSaving && (
+                      <motion.p
+                        initial={{ opacity: 0, y: -5 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -5 }}
+                        className="text-xs text-red-600 dark:text-red-400"
+                      >
+                        {error}
+                      </motion.p>
+                    )}
                   </AnimatePresence>
 
                   {/* Optional: Custom video model ID */}
@@ -210,7 +234,7 @@ export function ApiKeySetup({
                   )}
 
                   <p className="text-xs text-muted-foreground">
-                    Your API key is stored locally and never sent anywhere except BytePlus servers
+                    Your API key is sent once to the studio server and kept in an encrypted httpOnly cookie. It is only forwarded to BytePlus servers
                   </p>
                 </div>
               </div>
@@ -228,19 +252,21 @@ export function ApiKeySetup({
           >
             <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0" />
             <div className="flex-1 min-w-0">
-              <p className="text-sm font-medium">API Key Connected</p>
+              <p className="text-sm font-medium">
+                {isConnected ? 'API Key Connected' : 'Mock Backend'}
+              </p>
               <p className="text-xs text-muted-foreground truncate font-mono">
-                {localKey.slice(0, 8)}...{localKey.slice(-8)}
+                {isConnected ? keyHint : 'No API key needed'}
               </p>
             </div>
-            <button
-              onClick={() => {
-                onApiKeyChange(''); // Hook will handle localStorage
-              }}
-              className="text-xs text-muted-foreground hover:text-foreground transition-colors"
-            >
-              Change
-            </button>
+            {isConnected && (
+              <button
+                onClick={onSignOut} // Clears the session cookie
+                className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                Sign out
+              </button>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
@@ -14,6 +14,7 @@ interface ApiPreviewPanelProps {
   maxImages: number;
   referenceImageUrls?: string[];
   model: SeaDreamModel;
+  stream?: boolean;
 }
 
 export function ApiPreviewPanel({
@@ -25,6 +26,7 @@ export function ApiPreviewPanel({
   maxImages,
   referenceImageUrls = [],
   model,
+  stream = false,
 }: ApiPreviewPanelProps) {
   const [isOpen, setIsOpen] = React.useState(false);
   const [copied, setCopied] = React.useState(false);
@@ -37,7 +39,7 @@ export function ApiPreviewPanel({
       prompt: prompt || '',
       sequential_image_generation: batchMode ? 'auto' : 'disabled',
       response_format: 'b64_json',
-      stream: false,
+      stream,
       watermark: false,
     };
 
@@ -72,7 +74,7 @@ export function ApiPreviewPanel({
     }
 
     return request;
-  }, [mode, prompt, size, quality, batchMode, maxImages, referenceImageUrls, model]);
+  }, [mode, prompt, size, quality, batchMode, maxImages, referenceImageUrls, model, stream]);
 
   // Format JSON with custom syntax highlighting
   const formattedJson = React.useMemo(() => {
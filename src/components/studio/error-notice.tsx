@@ -0,0 +1,177 @@
+'use client';
+
+import * as React from 'react';
+import { motion } from 'framer-motion';
+import { AlertCircle, KeyRound, RefreshCw, Repeat } from 'lucide-react';
+
+import type { SeaDreamModel } from '@/types/api';
+import type { StudioError, StudioErrorCode } from '@/lib/studio-error';
+import { RequestValidationError } from '@/lib/request-validation';
+
+type RecoveryAction = 'switch-model' | 'change-key' | 'retry' | 'retry-later' | 'edit-request' | 'none';
+
+interface ErrorGuidance {
+  title: string;
+  message: string;
+  action: RecoveryAction;
+}
+
+const MODEL_NAMES: Record<SeaDreamModel, string> = {
+  'seedream-4-0': 'Seedream 4.0',
+  'seedream-4-5': 'Seedream 4.5',
+  'seedance-1-5-pro': 'Seedance 1.5 Pro',
+};
+
+// Image models can stand in for each other; video has no alternative
+const ALTERNATIVE_MODEL: Partial<Record<SeaDreamModel, SeaDreamModel>> = {
+  'seedream-4-0': 'seedream-4-5',
+  'seedream-4-5': 'seedream-4-0',
+};
+
+/**
+ * Message and recovery action for each error code
+ */
+function describeError(error: StudioError, model: SeaDreamModel): ErrorGuidance {
+  const modelName = MODEL_NAMES[model];
+  const guidance: Record<StudioErrorCode, ErrorGuidance> = {
+    invalid_api_key: {
+      title: 'API key rejected',
+      message: `Your API key is not valid for ${modelName}. Check the key and connect again.`,
+      action: 'change-key',
+    },
+    model_unavailable: {
+      title: `${modelName} is not available`,
+      message: `This API key has no access to ${modelName}. Enable the model in the Ark console${ALTERNATIVE_MODEL[model] ? ' or switch models' : ''}.`,
+      action: ALTERNATIVE_MODEL[model] ? 'switch-model' : 'change-key',
+    },
+    content_filtered: model === 'seedream-4-0'
+      ? {
+          title: 'Blocked by safety filters',
+          message: 'Seedream 4.5 filters content less strictly. Switch models or reword the prompt.',
+          action: 'switch-model',
+        }
+      : {
+          title: 'Blocked by safety filters',
+          message: 'Try rewording the prompt or using different reference images.',
+          action: 'edit-request',
+        },
+    rate_limited: {
+      title: 'Rate limited',
+      message: `${error.message} Automatic retries were used up.`,
+      action: 'retry-later',
+    },
+    quota_exceeded: {
+      title: 'Quota exceeded',
+      message: 'The account behind this API key has reached its quota or spending limit. Check your account limits.',
+      action: 'change-key',
+    },
+    invalid_request: {
+      title: 'Invalid request',
+      message: error instanceof RequestValidationError ? 'Please fix the highlighted fields.' : error.message,
+      action: 'edit-request',
+    },
+    not_found: {
+      title: 'Not found',
+      message: error.message,
+      action: 'none',
+    },
+    server_error: {
+      title: 'Service error',
+      message: 'The generation service had a problem. Wait a moment and try again.',
+      action: 'retry-later',
+    },
+    timeout: {
+      title: 'Timed out',
+      message: model === 'seedance-1-5-pro'
+        ? 'Video generation timed out. Try the flex service tier for complex videos.'
+        : 'Generation timed out. Please try again.',
+      action: 'retry',
+    },
+    network: {
+      title: 'Network error',
+      message: 'Please check your connection and try again.',
+      action: 'retry',
+    },
+    task_failed: {
+      title: 'Video generation failed',
+      message: error.message,
+      action: 'retry',
+    },
+    task_expired: {
+      title: 'Task expired',
+      message: 'The video task expired before it finished. Try again, or allow a longer expiry for flex tasks.',
+      action: 'retry',
+    },
+    cancelled: {
+      title: 'Cancelled',
+      message: error.message,
+      action: 'none',
+    },
+    unknown: {
+      title: 'Generation failed',
+      message: error.message,
+      action: 'retry',
+    },
+  };
+
+  return guidance[error.code];
+}
+
+interface ErrorNoticeProps {
+  error: StudioError;
+  model: SeaDreamModel;
+  onSwitchModel?: (model: SeaDreamModel) => void;
+  onChangeKey?: () => void;
+  onRetry?: () => void;
+  className?: string;
+}
+
+/**
+ * Generation error with a code-specific message and recovery action
+ * (switch model, change API key, retry)
+ */
+export function ErrorNotice({ error, model, onSwitchModel, onChangeKey, onRetry, className = '' }: ErrorNoticeProps) {
+  const { title, message, action } = describeError(error, model);
+  const alternative = ALTERNATIVE_MODEL[model];
+
+  const buttonClass = 'inline-flex items-center gap-1.5 rounded-lg border border-red-500/30 bg-background px-3 py-1.5 text-xs font-medium transition-colors hover:border-red-500/60 hover:text-red-500';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -5 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`space-y-3 p-4 rounded-xl bg-red-500/10 border border-red-500/20 text-center ${className}`}
+      role="alert"
+    >
+      <div className="space-y-1">
+        <p className="flex items-center justify-center gap-1.5 text-sm font-semibold text-red-600 dark:text-red-400">
+          <AlertCircle className="h-4 w-4" />
+          {title}
+          {error.upstreamCode && (
+            <span className="font-mono text-xs font-normal opacity-70">{error.upstreamCode}</span>
+          )}
+        </p>
+        <p className="text-sm text-red-600 dark:text-red-400">{message}</p>
+      </div>
+
+      {action === 'switch-model' && alternative && onSwitchModel && (
+        <button onClick={() => onSwitchModel(alternative)} className={buttonClass}>
+          <Repeat className="h-3.5 w-3.5" />
+          Switch to {MODEL_NAMES[alternative]}
+        </button>
+      )}
+      {action === 'change-key' && onChangeKey && (
+        <button onClick={onChangeKey} className={buttonClass}>
+          <KeyRound className="h-3.5 w-3.5" />
+          Change API key
+        </button>
+      )}
+      {(action === 'retry' || action === 'retry-later') && onRetry && (
+        <button onClick={onRetry} className={buttonClass}>
+          <RefreshCw className="h-3.5 w-3.5" />
+          Try again
+        </button>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import * as React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertCircle } from 'lucide-react';
+
+import type { RequestField, RequestFieldError } from '@/types/api';
+import { messagesForFields } from '@/lib/request-validation';
+
+interface FieldErrorProps {
+  errors: RequestFieldError[];
+  fields: RequestField[]; // Fields rendered by the wrapped control
+  children: React.ReactNode;
+  className?: string;
+}
+
+/**
+ * Highlights a form control with validation errors for its fields
+ * and lists the messages underneath
+ */
+export function FieldError({ errors, fields, children, className = '' }: FieldErrorProps) {
+  const messages = messagesForFields(errors, ...fields);
+  const hasError = messages.length > 0;
+
+  return (
+    <div
+      className={`rounded-xl transition-shadow ${hasError ? 'ring-2 ring-red-500/50 ring-offset-4 ring-offset-background' : ''} ${className}`}
+      aria-invalid={hasError || undefined}
+    >
+      {children}
+
+      <AnimatePresence>
+        {hasError && (
+          <motion.ul
+            initial={{ opacity: 0, y: -5 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -5 }}
+            className="mt-2 space-y-1"
+            role="alert"
+          >
+            {messages.map(message => (
+              <li key={message} className="flex items-start gap-1.5 text-xs text-red-600 dark:text-red-400">
+                <AlertCircle className="h-3.5 w-3.5 mt-px flex-shrink-0" />
+                {message}
+              </li>
+            ))}
+          </motion.ul>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,354 @@
+'use client';
+
+import * as React from 'react';
+import Image from 'next/image';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  Library,
+  ChevronDown,
+  Search,
+  Trash2,
+  Download,
+  Film,
+  ImageIcon,
+  HardDrive,
+  AlertCircle,
+  X,
+} from 'lucide-react';
+import { filterGalleryItems } from '@/lib/gallery-store';
+import { formatFileSize } from '@/lib/utils';
+import type { GalleryDateRange, GalleryEntry, GalleryFilters, GalleryItemKind, GalleryStorage } from '@/types/gallery';
+
+interface GalleryPanelProps {
+  entries: GalleryEntry[];
+  storage: GalleryStorage | null;
+  error: string | null;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onDismissError: () => void;
+  className?: string;
+}
+
+const KIND_FILTERS: { value: GalleryItemKind | 'all'; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'image', label: 'Images' },
+  { value: 'video', label: 'Videos' },
+];
+
+const DATE_RANGES: { value: GalleryDateRange; label: string }[] = [
+  { value: 'all', label: 'Any time' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'Last 7 days' },
+  { value: 'month', label: 'Last 30 days' },
+];
+
+const DEFAULT_FILTERS: GalleryFilters = { query: '', kind: 'all', model: 'all', mode: 'all', range: 'all' };
+
+// Grid pages; more load on demand so large galleries don't decode every image at once
+const PAGE_SIZE = 24;
+
+function distinct(values: string[]): string[] {
+  return [...new Set(values)].sort();
+}
+
+function fileName(entry: GalleryEntry): string {
+  const extension = entry.kind === 'video' ? 'mp4' : entry.blob?.type.split('/')[1] ?? 'png';
+  return `${entry.kind}-${new Date(entry.createdAt).toISOString().replace(/[:.]/g, '-')}.${extension}`;
+}
+
+/**
+ * Local gallery
+ * Browses the images and videos kept in this browser's IndexedDB
+ */
+export function GalleryPanel({ entries, storage, error, onDelete, onClear, onDismissError, className = '' }: GalleryPanelProps) {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [filters, setFilters] = React.useState<GalleryFilters>(DEFAULT_FILTERS);
+  const [visibleCount, setVisibleCount] = React.useState(PAGE_SIZE);
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+  const [confirmClear, setConfirmClear] = React.useState(false);
+
+  const models = React.useMemo(() => distinct(entries.map(entry => entry.model)), [entries]);
+  const modes = React.useMemo(() => distinct(entries.map(entry => entry.mode)), [entries]);
+  const filtered = React.useMemo(() => filterGalleryItems(entries, filters), [entries, filters]);
+  const selected = filtered.find(entry => entry.id === selectedId) ?? null;
+
+  const updateFilters = (patch: Partial<GalleryFilters>) => {
+    setFilters(prev => ({ ...prev, ...patch }));
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const handleDelete = (id: string) => {
+    if (id === selectedId) setSelectedId(null);
+    onDelete(id);
+  };
+
+  const handleClear = () => {
+    if (!confirmClear) {
+      setConfirmClear(true);
+      return;
+    }
+    setConfirmClear(false);
+    setSelectedId(null);
+    onClear();
+  };
+
+  const formatDate = (ms: number) =>
+    new Date(ms).toLocaleString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const usagePercent = storage?.usage !== undefined && storage.quota
+    ? Math.min(100, (storage.usage / storage.quota) * 100)
+    : null;
+
+  return (
+    <div className={`rounded-xl border border-border bg-card ${className}`}>
+      {/* Header */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex w-full items-center justify-between gap-3 p-4 text-left"
+        aria-expanded={isOpen}
+      >
+        <div className="flex items-center gap-2">
+          <Library className="h-4 w-4 text-dream-500" />
+          <span className="text-sm font-semibold">Gallery</span>
+          <span className="text-xs text-muted-foreground">
+            {entries.length} saved in this browser
+          </span>
+        </div>
+        <motion.div animate={{ rotate: isOpen ? 180 : 0 }} transition={{ duration: 0.2 }}>
+          <ChevronDown className="h-4 w-4 text-muted-foreground" />
+        </motion.div>
+      </button>
+
+      <AnimatePresence initial={false}>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="overflow-hidden"
+          >
+            <div className="space-y-4 border-t border-border p-4">
+              {error && (
+                <div className="flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/5 p-3 text-xs text-red-600 dark:text-red-400">
+                  <AlertCircle className="mt-0.5 h-3.5 w-3.5 flex-shrink-0" />
+                  <span className="flex-1">{error}</span>
+                  <button onClick={onDismissError} aria-label="Dismiss">
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              )}
+
+              {/* Storage */}
+              {storage && (
+                <div className="space-y-1.5">
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span className="inline-flex items-center gap-1.5">
+                      <HardDrive className="h-3.5 w-3.5" />
+                      Gallery uses {formatFileSize(storage.galleryBytes)}
+                    </span>
+                    {usagePercent !== null && storage.usage !== undefined && storage.quota !== undefined && (
+                      <span>
+                        {formatFileSize(storage.usage)} of {formatFileSize(storage.quota)} available to this site
+                      </span>
+                    )}
+                  </div>
+                  {usagePercent !== null && (
+                    <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+                      <div
+                        className={`h-full rounded-full ${usagePercent > 90 ? 'bg-red-500' : 'bg-gradient-to-r from-ocean-500 to-dream-500'}`}
+                        style={{ width: `${Math.max(usagePercent, 1)}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Filters */}
+              <div className="flex flex-wrap items-center gap-2">
+                {KIND_FILTERS.map(option => {
+                  const active = filters.kind === option.value;
+                  return (
+                    <button
+                      key={option.value}
+                      onClick={() => updateFilters({ kind: option.value })}
+                      className={`rounded-lg border px-3 py-1 text-xs font-medium transition-colors ${
+                        active
+                          ? 'border-dream-500 bg-dream-500/10 text-foreground'
+                          : 'border-border text-muted-foreground hover:border-dream-500/30'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  );
+                })}
+                <select
+                  value={filters.model}
+                  onChange={(e) => updateFilters({ model: e.target.value })}
+                  className="rounded-lg border border-border bg-background px-2 py-1 text-xs"
+                  aria-label="Model"
+                >
+                  <option value="all">All models</option>
+                  {models.map(model => <option key={model} value={model}>{model}</option>)}
+                </select>
+                <select
+                  value={filters.mode}
+                  onChange={(e) => updateFilters({ mode: e.target.value })}
+                  className="rounded-lg border border-border bg-background px-2 py-1 text-xs"
+                  aria-label="Mode"
+                >
+                  <option value="all">All modes</option>
+                  {modes.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+                </select>
+                <select
+                  value={filters.range}
+                  onChange={(e) => updateFilters({ range: e.target.value as GalleryDateRange })}
+                  className="rounded-lg border border-border bg-background px-2 py-1 text-xs"
+                  aria-label="Date"
+                >
+                  {DATE_RANGES.map(range => <option key={range.value} value={range.value}>{range.label}</option>)}
+                </select>
+              </div>
+
+              <div className="relative">
+                <Search className="pointer-events-none absolute left-3 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+                <input
+                  type="search"
+                  value={filters.query}
+                  onChange={(e) => updateFilters({ query: e.target.value })}
+                  placeholder="Search prompts"
+                  className="w-full rounded-lg border border-border bg-background py-2 pl-9 pr-3 text-xs outline-none focus:border-dream-500"
+                />
+              </div>
+
+              {/* Selected item */}
+              {selected && (
+                <div className="space-y-3 rounded-lg border border-border p-3">
+                  {selected.kind === 'video' ? (
+                    selected.url ? (
+                      <video src={selected.url} controls className="mx-auto max-h-96 rounded-lg" />
+                    ) : (
+                      <p className="text-xs text-muted-foreground">The video file was not saved and its link is gone.</p>
+                    )
+                  ) : (
+                    <Image
+                      src={selected.url}
+                      alt={selected.prompt}
+                      width={0}
+                      height={0}
+                      unoptimized
+                      className="mx-auto h-auto max-h-96 w-auto max-w-full rounded-lg object-contain"
+                    />
+                  )}
+                  <p className="text-xs">{selected.prompt}</p>
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-[11px] text-muted-foreground">
+                    <span>{selected.model}</span>
+                    <span>{selected.mode}</span>
+                    {selected.size && <span>{selected.size}</span>}
+                    {selected.duration !== undefined && <span>{selected.duration}s</span>}
+                    {selected.seed !== undefined && <span>Seed {selected.seed}</span>}
+                    <span>{formatDate(selected.createdAt)}</span>
+                    <span>{selected.blob ? formatFileSize(selected.bytes) : 'Link only (expires 24h after generation)'}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {selected.url && (
+                      <a
+                        href={selected.url}
+                        download={fileName(selected)}
+                        target={selected.blob ? undefined : '_blank'}
+                        rel="noreferrer"
+                        className="inline-flex items-center gap-1.5 rounded-lg border border-border px-3 py-1.5 text-xs font-medium transition-colors hover:border-dream-500/50"
+                      >
+                        <Download className="h-3.5 w-3.5" />
+                        Download
+                      </a>
+                    )}
+                    <button
+                      onClick={() => handleDelete(selected.id)}
+                      className="inline-flex items-center gap-1.5 rounded-lg border border-border px-3 py-1.5 text-xs font-medium transition-colors hover:border-red-500/50 hover:text-red-500"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Grid */}
+              {filtered.length === 0 ? (
+                <p className="py-6 text-center text-xs text-muted-foreground">
+                  {entries.length === 0
+                    ? 'Finished images and videos are saved here automatically.'
+                    : 'Nothing matches these filters.'}
+                </p>
+              ) : (
+                <div className="grid grid-cols-3 gap-2 sm:grid-cols-4 md:grid-cols-6">
+                  {filtered.slice(0, visibleCount).map(entry => (
+                    <div key={entry.id} className="group relative aspect-square overflow-hidden rounded-lg border border-border bg-muted">
+                      <button
+                        onClick={() => setSelectedId(entry.id === selectedId ? null : entry.id)}
+                        className={`relative h-full w-full ${entry.id === selectedId ? 'ring-2 ring-dream-500 ring-inset' : ''}`}
+                        title={entry.prompt}
+                        aria-pressed={entry.id === selectedId}
+                      >
+                        {entry.kind === 'image' ? (
+                          <Image src={entry.url} alt="" fill unoptimized className="object-cover" />
+                        ) : entry.blob ? (
+                          <video src={entry.url} muted preload="metadata" className="h-full w-full object-cover" />
+                        ) : (
+                          <Film className="mx-auto h-5 w-5 text-muted-foreground" />
+                        )}
+                      </button>
+                      <span className="pointer-events-none absolute bottom-1 left-1 rounded bg-black/60 p-0.5 text-white">
+                        {entry.kind === 'image' ? <ImageIcon className="h-3 w-3" /> : <Film className="h-3 w-3" />}
+                      </span>
+                      <button
+                        onClick={() => handleDelete(entry.id)}
+                        className="absolute right-1 top-1 rounded bg-black/60 p-1 text-white opacity-0 transition-opacity hover:bg-red-500 group-hover:opacity-100"
+                        aria-label="Delete from gallery"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Footer */}
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {filtered.length} of {entries.length} items
+                </span>
+                <div className="flex items-center gap-2">
+                  {filtered.length > visibleCount && (
+                    <button
+                      onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+                      className="rounded-lg border border-border px-3 py-1.5 text-xs font-medium transition-colors hover:border-dream-500/50"
+                    >
+                      Show more
+                    </button>
+                  )}
+                  {entries.length > 0 && (
+                    <button
+                      onClick={handleClear}
+                      onBlur={() => setConfirmClear(false)}
+                      className="inline-flex items-center gap-1.5 rounded-lg border border-border px-3 py-1.5 text-xs font-medium transition-colors hover:border-red-500/50 hover:text-red-500"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                      {confirmClear ? 'Click again to delete everything' : 'Clear gallery'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
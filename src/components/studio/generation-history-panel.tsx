@@ -0,0 +1,261 @@
+'use client';
+
+import * as React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  History,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw,
+  RotateCcw,
+  AlertCircle,
+} from 'lucide-react';
+import { useGenerationHistory, type GenerationHistoryFilters } from '@/hooks/use-generation-history';
+import { formatGenerationTime } from '@/lib/utils';
+import type { Generation } from '@/types/database';
+import type { GenerationMode } from '@/types/api';
+
+interface GenerationHistoryPanelProps {
+  onRerun: (row: Generation) => void;
+  className?: string;
+}
+
+const MODE_LABELS: Record<GenerationMode, string> = {
+  text: 'Text to image',
+  image: 'Image to image',
+  'multi-image': 'Multi-image',
+  'multi-batch': 'Multi-batch',
+};
+
+const BATCH_FILTERS: { value: string; label: string; batchMode?: boolean }[] = [
+  { value: 'all', label: 'Batch and single' },
+  { value: 'batch', label: 'Batch only', batchMode: true },
+  { value: 'single', label: 'Single only', batchMode: false },
+];
+
+/**
+ * Generation history panel
+ * Lists the image generation rows saved to Supabase and refills the form from one
+ */
+export function GenerationHistoryPanel({ onRerun, className = '' }: GenerationHistoryPanelProps) {
+  const {
+    rows,
+    total,
+    page,
+    pageCount,
+    filters,
+    options,
+    loading,
+    error,
+    loadPage,
+    applyFilters,
+    loadOptions,
+  } = useGenerationHistory();
+
+  const [isOpen, setIsOpen] = React.useState(false);
+
+  // Load first page when the panel is opened
+  const handleToggle = () => {
+    const next = !isOpen;
+    setIsOpen(next);
+    if (next && rows.length === 0 && !loading) {
+      loadPage(1);
+      loadOptions();
+    }
+  };
+
+  const updateFilters = (patch: Partial<GenerationHistoryFilters>) => {
+    applyFilters({ ...filters, ...patch });
+  };
+
+  const batchValue = filters.batchMode === undefined ? 'all' : filters.batchMode ? 'batch' : 'single';
+
+  const formatTime = (value: string | null) =>
+    value
+      ? new Date(value).toLocaleString(undefined, {
+          month: 'short',
+          day: 'numeric',
+          hour: '2-digit',
+          minute: '2-digit',
+        })
+      : 'Unknown date';
+
+  const selectClass = 'rounded-lg border border-border bg-background px-2 py-1 text-xs disabled:opacity-50';
+
+  return (
+    <div className={`rounded-xl border border-border bg-card ${className}`}>
+      {/* Header */}
+      <button
+        onClick={handleToggle}
+        className="flex w-full items-center justify-between gap-3 p-4 text-left"
+        aria-expanded={isOpen}
+      >
+        <div className="flex items-center gap-2">
+          <History className="h-4 w-4 text-ocean-500" />
+          <span className="text-sm font-semibold">Generation history</span>
+          <span className="text-xs text-muted-foreground">Prompts and settings saved to Supabase</span>
+        </div>
+        <motion.div animate={{ rotate: isOpen ? 180 : 0 }} transition={{ duration: 0.2 }}>
+          <ChevronDown className="h-4 w-4 text-muted-foreground" />
+        </motion.div>
+      </button>
+
+      <AnimatePresence initial={false}>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="overflow-hidden"
+          >
+            <div className="space-y-4 border-t border-border p-4">
+              {/* Filters */}
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={filters.mode ?? 'all'}
+                  onChange={(e) => updateFilters({ mode: e.target.value === 'all' ? undefined : e.target.value as GenerationMode })}
+                  disabled={loading}
+                  className={selectClass}
+                  aria-label="Mode"
+                >
+                  <option value="all">All modes</option>
+                  {(Object.keys(MODE_LABELS) as GenerationMode[]).map(mode => (
+                    <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+                <select
+                  value={filters.modelVersion ?? 'all'}
+                  onChange={(e) => updateFilters({ modelVersion: e.target.value === 'all' ? undefined : e.target.value })}
+                  disabled={loading}
+                  className={selectClass}
+                  aria-label="Model version"
+                >
+                  <option value="all">All model versions</option>
+                  {options.modelVersions.map(version => <option key={version} value={version}>{version}</option>)}
+                </select>
+                <select
+                  value={batchValue}
+                  onChange={(e) => updateFilters({ batchMode: BATCH_FILTERS.find(option => option.value === e.target.value)?.batchMode })}
+                  disabled={loading}
+                  className={selectClass}
+                  aria-label="Batch mode"
+                >
+                  {BATCH_FILTERS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+                <select
+                  value={filters.size ?? 'all'}
+                  onChange={(e) => updateFilters({ size: e.target.value === 'all' ? undefined : e.target.value })}
+                  disabled={loading}
+                  className={selectClass}
+                  aria-label="Size"
+                >
+                  <option value="all">All sizes</option>
+                  {options.sizes.map(size => <option key={size} value={size}>{size}</option>)}
+                </select>
+
+                <button
+                  onClick={() => loadPage(page)}
+                  disabled={loading}
+                  className="ml-auto inline-flex items-center gap-1.5 rounded-lg border border-border px-3 py-1 text-xs font-medium text-muted-foreground transition-colors hover:text-foreground disabled:opacity-50"
+                  aria-label="Refresh history"
+                >
+                  <RefreshCw className={`h-3.5 w-3.5 ${loading ? 'animate-spin' : ''}`} />
+                  Refresh
+                </button>
+              </div>
+
+              {/* Error */}
+              {error && (
+                <div className="flex items-center gap-2 rounded-lg bg-red-500/10 border border-red-500/20 p-3">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0 text-red-500" />
+                  <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+                </div>
+              )}
+
+              {/* Rows */}
+              {!error && rows.length === 0 && !loading && (
+                <p className="py-6 text-center text-xs text-muted-foreground">No generations found</p>
+              )}
+
+              {rows.length > 0 && (
+                <ul className="divide-y divide-border rounded-lg border border-border">
+                  {rows.map(row => {
+                    const perImage = row.generation_time_ms && row.images_generated > 0
+                      ? row.generation_time_ms / row.images_generated
+                      : null;
+                    return (
+                      <li key={row.id} className="flex items-center gap-3 p-3">
+                        <div className="min-w-0 flex-1 space-y-1">
+                          <p className="truncate text-xs font-medium" title={row.prompt}>
+                            {row.prompt}
+                          </p>
+                          <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-[11px] text-muted-foreground">
+                            <span>{formatTime(row.created_at)}</span>
+                            <span>{MODE_LABELS[row.mode as GenerationMode] ?? row.mode}</span>
+                            {row.model_version && <span>{row.model_version}</span>}
+                            <span>{row.size}</span>
+                            <span>{row.quality}</span>
+                          </div>
+                          <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-[11px] text-muted-foreground">
+                            <span>
+                              {row.images_generated}
+                              {row.batch_mode && row.max_images ? ` of ${row.max_images}` : ''} image{row.images_generated === 1 && !row.batch_mode ? '' : 's'}
+                              {row.batch_mode ? ' (batch)' : ''}
+                            </span>
+                            {row.generation_time_ms !== null && <span>{formatGenerationTime(row.generation_time_ms)}</span>}
+                            {perImage !== null && row.images_generated > 1 && <span>{formatGenerationTime(Math.round(perImage))} per image</span>}
+                            {row.reference_image_urls?.length ? (
+                              <span>{row.reference_image_urls.length} reference{row.reference_image_urls.length === 1 ? '' : 's'}</span>
+                            ) : null}
+                          </div>
+                        </div>
+
+                        <button
+                          onClick={() => onRerun(row)}
+                          className="inline-flex flex-shrink-0 items-center gap-1.5 rounded-lg bg-gradient-to-r from-ocean-500 to-dream-500 px-3 py-1.5 text-xs font-medium text-white shadow-sm transition-opacity hover:opacity-90"
+                          title="Fill the form with this prompt, size and quality"
+                        >
+                          <RotateCcw className="h-3.5 w-3.5" />
+                          Re-run
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+
+              {/* Pagination */}
+              {total > 0 && (
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>
+                    {total} generation{total === 1 ? '' : 's'} · Page {page} of {pageCount}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => loadPage(page - 1)}
+                      disabled={loading || page <= 1}
+                      className="rounded-lg border border-border p-1.5 transition-colors hover:text-foreground disabled:opacity-40"
+                      aria-label="Previous page"
+                    >
+                      <ChevronLeft className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      onClick={() => loadPage(page + 1)}
+                      disabled={loading || page >= pageCount}
+                      className="rounded-lg border border-border p-1.5 transition-colors hover:text-foreground disabled:opacity-40"
+                      aria-label="Next page"
+                    >
+                      <ChevronRight className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -1,20 +1,65 @@
 'use client';
 
 import { useState, useCallback, useMemo, useEffect } from 'react';
-import { Download, Copy, Clock, ImageIcon, ChevronLeft, ChevronRight, Grid3X3, Layers, Images } from 'lucide-react';
+import { Download, Copy, Clock, ImageIcon, ChevronLeft, ChevronRight, Grid3X3, Layers, Images, AlertCircle, RotateCcw, Wand2, ImagePlus, Film } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import useEmblaCarousel from 'embla-carousel-react';
 import { cn, downloadBase64Image, copyImageToClipboard, formatFileSize, formatGenerationTime, estimateBase64Size } from '@/lib/utils';
+import type { FailedImageSlot } from '@/types/api';
+
+interface OutputImage {
+  base64: string;
+  size: string;
+  index?: number;
+}
+
+/**
+ * One position in the output carousel
+ * Streaming fills pending slots as images arrive; failed slots keep their error
+ */
+type OutputSlot =
+  | { status: 'succeeded'; index: number; image: OutputImage }
+  | { status: 'pending'; index: number }
+  | { status: 'failed'; index: number; failure: FailedImageSlot };
+
+/**
+ * Merge images, failures and outstanding placeholders into index order
+ */
+function buildSlots(images: OutputImage[], failedImages: FailedImageSlot[], expectedImages = 0): OutputSlot[] {
+  const slots = new Map<number, OutputSlot>();
+
+  images.forEach((image, position) => {
+    const index = image.index ?? position;
+    slots.set(index, { status: 'succeeded', index, image });
+  });
+  failedImages.forEach((failure) => {
+    slots.set(failure.index, { status: 'failed', index: failure.index, failure });
+  });
+
+  const highestIndex = Math.max(-1, ...slots.keys());
+  const total = Math.max(expectedImages, highestIndex + 1);
+  for (let index = 0; index < total; index++) {
+    if (!slots.has(index)) {
+      slots.set(index, { status: 'pending', index });
+    }
+  }
+
+  return [...slots.values()].sort((a, b) => a.index - b.index);
+}
 
 interface GenerationOutputProps {
-  images: Array<{
-    base64: string;
-    size: string;
-  }>;
+  images: OutputImage[];
+  failedImages?: FailedImageSlot[]; // Per-image failures (content filter etc.)
+  expectedImages?: number; // Set while streaming to reserve placeholder slots
   generationTimeMs?: number;
   prompt?: string;
   className?: string;
   onSaveAsPreset?: () => void;
+  onRetrySlot?: (index: number) => void; // Regenerate one failed slot
+  retryingSlots?: number[]; // Slots with a retry in flight
+  onUseAsReference?: (base64: string) => void; // Replace the form's references with this image
+  onAddToReferences?: (base64: string) => void; // Append this image to the form's references
+  onUseAsVideoFrame?: (base64: string, role: 'first_frame' | 'last_frame') => void; // Hand this image to the video form
   // For cURL export
   mode?: string;
   model?: string;
@@ -25,6 +70,58 @@ interface GenerationOutputProps {
   referenceImageUrls?: string[];
 }
 
+/**
+ * "Use as reference" / "Add to references" / video frame buttons for one image
+ * Feeds the output straight back into the form without downloading it
+ */
+function ReferenceActions({
+  base64,
+  onUseAsReference,
+  onAddToReferences,
+  onUseAsVideoFrame,
+}: {
+  base64: string;
+  onUseAsReference?: (base64: string) => void;
+  onAddToReferences?: (base64: string) => void;
+  onUseAsVideoFrame?: (base64: string, role: 'first_frame' | 'last_frame') => void;
+}) {
+  return (
+    <>
+      {onUseAsReference && (
+        <button
+          onClick={() => onUseAsReference(base64)}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm border border-input hover:bg-accent transition-colors"
+          title="Replace the references with this image"
+        >
+          <Wand2 className="h-3.5 w-3.5" />
+          Use as reference
+        </button>
+      )}
+      {onAddToReferences && (
+        <button
+          onClick={() => onAddToReferences(base64)}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm border border-input hover:bg-accent transition-colors"
+          title="Add this image to the current references"
+        >
+          <ImagePlus className="h-3.5 w-3.5" />
+          Add to references
+        </button>
+      )}
+      {onUseAsVideoFrame && (['first_frame', 'last_frame'] as const).map(role => (
+        <button
+          key={role}
+          onClick={() => onUseAsVideoFrame(base64, role)}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm border border-input hover:bg-accent transition-colors"
+          title={`Switch to Seedance with this image as the ${role === 'first_frame' ? 'first' : 'last'} frame`}
+        >
+          <Film className="h-3.5 w-3.5" />
+          {role === 'first_frame' ? 'First frame' : 'Last frame'}
+        </button>
+      ))}
+    </>
+  );
+}
+
 /**
  * Displays generated images with slideshow for batch generations
  * Single image: Standard display with actions
@@ -32,10 +129,17 @@ interface GenerationOutputProps {
  */
 export function GenerationOutput({
   images,
+  failedImages = [],
+  expectedImages,
   generationTimeMs,
   prompt,
   className,
   onSaveAsPreset,
+  onRetrySlot,
+  retryingSlots = [],
+  onUseAsReference,
+  onAddToReferences,
+  onUseAsVideoFrame,
   mode,
   model,
   size,
@@ -51,7 +155,13 @@ export function GenerationOutput({
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [viewMode, setViewMode] = useState<'slideshow' | 'grid'>('slideshow');
 
-  const isBatch = images.length > 1;
+  const slots = useMemo(
+    () => buildSlots(images, failedImages, expectedImages),
+    [images, failedImages, expectedImages]
+  );
+  const isBatch = slots.length > 1;
+  const isStreaming = expectedImages !== undefined;
+  const selectedSlot = slots[Math.min(selectedIndex, slots.length - 1)];
 
   // Embla carousel for slideshow
   const [emblaRef, emblaApi] = useEmblaCarousel({
@@ -66,32 +176,37 @@ export function GenerationOutput({
 
   // Handle download
   const handleDownload = useCallback((index: number) => {
+    const slot = slots[index];
+    if (slot?.status !== 'succeeded') return;
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
     const filename = isBatch
       ? `seedream-${timestamp}-${index + 1}.png`
       : `seedream-${timestamp}.png`;
-    downloadBase64Image(images[index].base64, filename);
-  }, [images, isBatch]);
+    downloadBase64Image(slot.image.base64, filename);
+  }, [slots, isBatch]);
 
   // Handle download all (for batch)
   const handleDownloadAll = useCallback(async () => {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
     // Download each image with a small delay to avoid overwhelming the browser
-    for (let i = 0; i < images.length; i++) {
-      const filename = `seedream-${timestamp}-${i + 1}.png`;
-      downloadBase64Image(images[i].base64, filename);
+    for (const slot of slots) {
+      if (slot.status !== 'succeeded') continue;
+      const filename = `seedream-${timestamp}-${slot.index + 1}.png`;
+      downloadBase64Image(slot.image.base64, filename);
       // Small delay between downloads
       await new Promise(resolve => setTimeout(resolve, 200));
     }
-  }, [images]);
+  }, [slots]);
 
   // Handle copy
   const handleCopy = useCallback(async (index: number) => {
+    const slot = slots[index];
+    if (slot?.status !== 'succeeded') return;
     setCopyingIndex(index);
     setCopiedIndex(null);
 
     try {
-      await copyImageToClipboard(images[index].base64);
+      await copyImageToClipboard(slot.image.base64);
       setCopiedIndex(index);
       setTimeout(() => setCopiedIndex(null), 2000);
     } catch (error) {
@@ -99,7 +214,7 @@ export function GenerationOutput({
     } finally {
       setCopyingIndex(null);
     }
-  }, [images]);
+  }, [slots]);
 
   // Total estimated size
   const totalEstimatedSize = useMemo(() => {
@@ -196,11 +311,12 @@ export function GenerationOutput({
               </div>
               <div>
                 <h3 className="text-sm font-semibold text-purple-600 dark:text-purple-400">
-                  Batch Generation Complete
+                  {isStreaming ? 'Streaming Batch Generation…' : 'Batch Generation Complete'}
                 </h3>
                 <p className="text-xs text-muted-foreground">
-                  {images.length} image{images.length > 1 ? 's' : ''} generated
+                  {images.length} image{images.length !== 1 ? 's' : ''} {isStreaming ? 'received' : 'generated'}
                   {maxImages && ` (requested ${maxImages})`}
+                  {failedImages.length > 0 && ` • ${failedImages.length} failed`}
                 </p>
               </div>
             </div>
@@ -238,7 +354,8 @@ export function GenerationOutput({
               {/* Download All Button */}
               <button
                 onClick={handleDownloadAll}
-                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gradient-to-r from-ocean-500 to-dream-500 text-white text-xs font-medium hover:opacity-90 transition-all shadow-sm"
+                disabled={images.length === 0}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gradient-to-r from-ocean-500 to-dream-500 text-white text-xs font-medium hover:opacity-90 transition-all shadow-sm disabled:opacity-50 disabled:pointer-events-none"
               >
                 <Download className="w-3.5 h-3.5" />
                 <span>Download All</span>
@@ -263,30 +380,33 @@ export function GenerationOutput({
               <div className="relative group">
                 <div className="overflow-hidden rounded-lg border border-border" ref={emblaRef}>
                   <div className="flex">
-                    {images.map((image, index) => {
+                    {slots.map((slot, index) => {
                       const isLoaded = loadedImages.has(index);
-                      const imageDataUri = image.base64.startsWith('data:')
-                        ? image.base64
-                        : `data:image/png;base64,${image.base64}`;
 
                       return (
                         <div key={index} className="flex-[0_0_100%] min-w-0">
                           <div className="relative w-full bg-muted" style={{ aspectRatio: '16/9' }}>
-                            {!isLoaded && (
-                              <div className="absolute inset-0 animate-pulse bg-gradient-to-br from-muted via-muted-foreground/10 to-muted" />
+                            {slot.status === 'succeeded' ? (
+                              <>
+                                {!isLoaded && (
+                                  <div className="absolute inset-0 animate-pulse bg-gradient-to-br from-muted via-muted-foreground/10 to-muted" />
+                                )}
+                                <img
+                                  src={toDataUri(slot.image.base64)}
+                                  alt={`Generated image ${index + 1}`}
+                                  className={cn(
+                                    'w-full h-full object-contain transition-opacity duration-300',
+                                    isLoaded ? 'opacity-100' : 'opacity-0'
+                                  )}
+                                  onLoad={() => handleImageLoad(index)}
+                                  loading="lazy"
+                                />
+                              </>
+                            ) : (
+                              <SlotPlaceholder slot={slot} onRetry={onRetrySlot} isRetrying={retryingSlots.includes(slot.index)} />
                             )}
-                            <img
-                              src={imageDataUri}
-                              alt={`Generated image ${index + 1}`}
-                              className={cn(
-                                'w-full h-full object-contain transition-opacity duration-300',
-                                isLoaded ? 'opacity-100' : 'opacity-0'
-                              )}
-                              onLoad={() => handleImageLoad(index)}
-                              loading="lazy"
-                            />
                             <div className="absolute top-4 left-4 px-3 py-1.5 rounded-full bg-black/70 backdrop-blur-sm text-white text-sm font-medium">
-                              {index + 1} / {images.length}
+                              {index + 1} / {slots.length}
                             </div>
                           </div>
                         </div>
@@ -326,11 +446,7 @@ export function GenerationOutput({
 
               {/* Thumbnail strip */}
               <div className="grid grid-cols-5 sm:grid-cols-8 md:grid-cols-10 lg:grid-cols-12 gap-2">
-                {images.map((image, index) => {
-                  const imageDataUri = image.base64.startsWith('data:')
-                    ? image.base64
-                    : `data:image/png;base64,${image.base64}`;
-
+                {slots.map((slot, index) => {
                   return (
                     <button
                       key={index}
@@ -342,12 +458,16 @@ export function GenerationOutput({
                           : 'border-border hover:border-ocean-300'
                       )}
                     >
-                      <img
-                        src={imageDataUri}
-                        alt={`Thumbnail ${index + 1}`}
-                        className="w-full h-full object-cover"
-                        loading="lazy"
-                      />
+                      {slot.status === 'succeeded' ? (
+                        <img
+                          src={toDataUri(slot.image.base64)}
+                          alt={`Thumbnail ${index + 1}`}
+                          className="w-full h-full object-cover"
+                          loading="lazy"
+                        />
+                      ) : (
+                        <SlotPlaceholder slot={slot} compact isRetrying={retryingSlots.includes(slot.index)} />
+                      )}
                       <div className="absolute bottom-0 left-0 right-0 bg-black/70 text-white text-[10px] text-center py-0.5">
                         #{index + 1}
                       </div>
@@ -360,12 +480,24 @@ export function GenerationOutput({
               <div className="flex items-center justify-between p-3 rounded-lg border border-border bg-muted/30">
                 <div className="text-sm text-muted-foreground">
                   <span className="font-medium">Image #{selectedIndex + 1}:</span>{' '}
-                  {images[selectedIndex].size}
+                  {selectedSlot.status === 'succeeded'
+                    ? selectedSlot.image.size
+                    : selectedSlot.status === 'failed'
+                      ? `Failed (${selectedSlot.failure.code})`
+                      : 'Generating…'}
                 </div>
-                <div className="flex gap-2">
+                <div className="flex flex-wrap justify-end gap-2">
+                  {selectedSlot.status === 'succeeded' && (
+                    <ReferenceActions
+                      base64={selectedSlot.image.base64}
+                      onUseAsReference={onUseAsReference}
+                      onAddToReferences={onAddToReferences}
+                      onUseAsVideoFrame={onUseAsVideoFrame}
+                    />
+                  )}
                   <button
                     onClick={() => handleCopy(selectedIndex)}
-                    disabled={copyingIndex === selectedIndex}
+                    disabled={copyingIndex === selectedIndex || selectedSlot.status !== 'succeeded'}
                     className={cn(
                       'inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm',
                       'border border-input hover:bg-accent transition-colors',
@@ -377,7 +509,8 @@ export function GenerationOutput({
                   </button>
                   <button
                     onClick={() => handleDownload(selectedIndex)}
-                    className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm border border-input hover:bg-accent transition-colors"
+                    disabled={selectedSlot.status !== 'succeeded'}
+                    className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm border border-input hover:bg-accent transition-colors disabled:opacity-50 disabled:pointer-events-none"
                   >
                     <Download className="h-3.5 w-3.5" />
                     Download
@@ -394,11 +527,8 @@ export function GenerationOutput({
               exit={{ opacity: 0 }}
               className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4"
             >
-              {images.map((image, index) => {
+              {slots.map((slot, index) => {
                 const isLoaded = loadedImages.has(index);
-                const imageDataUri = image.base64.startsWith('data:')
-                  ? image.base64
-                  : `data:image/png;base64,${image.base64}`;
 
                 return (
                   <motion.div
@@ -409,20 +539,26 @@ export function GenerationOutput({
                     className="group relative"
                   >
                     <div className="relative aspect-square rounded-xl overflow-hidden border border-border bg-muted">
-                      {!isLoaded && (
-                        <div className="absolute inset-0 animate-pulse bg-gradient-to-br from-muted via-muted-foreground/10 to-muted" />
+                      {slot.status === 'succeeded' ? (
+                        <>
+                          {!isLoaded && (
+                            <div className="absolute inset-0 animate-pulse bg-gradient-to-br from-muted via-muted-foreground/10 to-muted" />
+                          )}
+                          <img
+                            src={toDataUri(slot.image.base64)}
+                            alt={`Generated image ${index + 1}`}
+                            className={cn(
+                              'w-full h-full object-cover transition-all duration-300',
+                              isLoaded ? 'opacity-100' : 'opacity-0',
+                              'group-hover:scale-105'
+                            )}
+                            onLoad={() => handleImageLoad(index)}
+                            loading="lazy"
+                          />
+                        </>
+                      ) : (
+                        <SlotPlaceholder slot={slot} onRetry={onRetrySlot} isRetrying={retryingSlots.includes(slot.index)} />
                       )}
-                      <img
-                        src={imageDataUri}
-                        alt={`Generated image ${index + 1}`}
-                        className={cn(
-                          'w-full h-full object-cover transition-all duration-300',
-                          isLoaded ? 'opacity-100' : 'opacity-0',
-                          'group-hover:scale-105'
-                        )}
-                        onLoad={() => handleImageLoad(index)}
-                        loading="lazy"
-                      />
 
                       {/* Index badge */}
                       <div className="absolute top-2 left-2 px-2 py-1 rounded-full bg-black/70 backdrop-blur-sm text-white text-xs font-medium">
@@ -430,8 +566,27 @@ export function GenerationOutput({
                       </div>
 
                       {/* Hover overlay with actions */}
+                      {slot.status === 'succeeded' && (
                       <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex items-end justify-center pb-4">
                         <div className="flex gap-2">
+                          {onUseAsReference && (
+                            <button
+                              onClick={() => onUseAsReference(slot.image.base64)}
+                              className="p-2 rounded-full bg-white/20 backdrop-blur-sm text-white hover:bg-white/30 transition-all"
+                              title="Use as reference"
+                            >
+                              <Wand2 className="w-4 h-4" />
+                            </button>
+                          )}
+                          {onAddToReferences && (
+                            <button
+                              onClick={() => onAddToReferences(slot.image.base64)}
+                              className="p-2 rounded-full bg-white/20 backdrop-blur-sm text-white hover:bg-white/30 transition-all"
+                              title="Add to references"
+                            >
+                              <ImagePlus className="w-4 h-4" />
+                            </button>
+                          )}
                           <button
                             onClick={() => handleCopy(index)}
                             disabled={copyingIndex === index}
@@ -452,11 +607,16 @@ export function GenerationOutput({
                           </button>
                         </div>
                       </div>
+                      )}
                     </div>
 
                     {/* Size label */}
                     <p className="mt-2 text-xs text-muted-foreground text-center">
-                      {image.size}
+                      {slot.status === 'succeeded'
+                        ? slot.image.size
+                        : slot.status === 'failed'
+                          ? slot.failure.code
+                          : 'Generating…'}
                     </p>
                   </motion.div>
                 );
@@ -468,11 +628,18 @@ export function GenerationOutput({
         /* Single image display */
         <div className="space-y-4">
           {(() => {
-            const image = images[0];
+            const slot = slots[0];
+            if (slot.status !== 'succeeded') {
+              return (
+                <div className="relative w-full overflow-hidden rounded-lg border border-border bg-muted" style={{ minHeight: '400px' }}>
+                  <SlotPlaceholder slot={slot} onRetry={onRetrySlot} isRetrying={retryingSlots.includes(slot.index)} />
+                </div>
+              );
+            }
+
+            const image = slot.image;
             const isLoaded = loadedImages.has(0);
-            const imageDataUri = image.base64.startsWith('data:')
-              ? image.base64
-              : `data:image/png;base64,${image.base64}`;
+            const imageDataUri = toDataUri(image.base64);
 
             const match = image.size.match(/^(\d+)x(\d+)$/);
             const width = match ? parseInt(match[1], 10) : 0;
@@ -504,9 +671,16 @@ export function GenerationOutput({
             );
           })()}
 
+          {selectedSlot.status === 'succeeded' && (
           <div className="flex items-center justify-between">
-            <span className="text-sm text-muted-foreground">{images[0].size}</span>
-            <div className="flex gap-2">
+            <span className="text-sm text-muted-foreground">{selectedSlot.image.size}</span>
+            <div className="flex flex-wrap justify-end gap-2">
+              <ReferenceActions
+                base64={selectedSlot.image.base64}
+                onUseAsReference={onUseAsReference}
+                onAddToReferences={onAddToReferences}
+                onUseAsVideoFrame={onUseAsVideoFrame}
+              />
               <button
                 onClick={() => handleCopy(0)}
                 disabled={copyingIndex === 0}
@@ -528,6 +702,7 @@ export function GenerationOutput({
               </button>
             </div>
           </div>
+          )}
         </div>
       )}
 
@@ -607,3 +782,62 @@ export function GenerationOutput({
     </div>
   );
 }
+
+function toDataUri(base64: string): string {
+  return base64.startsWith('data:') ? base64 : `data:image/png;base64,${base64}`;
+}
+
+/**
+ * Stand-in for a slot without a usable image
+ * Pending: still streaming. Failed: rejected by the API (shows error code)
+ */
+function SlotPlaceholder({
+  slot,
+  compact = false,
+  onRetry,
+  isRetrying = false,
+}: {
+  slot: Exclude<OutputSlot, { status: 'succeeded' }>;
+  compact?: boolean;
+  onRetry?: (index: number) => void;
+  isRetrying?: boolean;
+}) {
+  if (slot.status === 'pending' || isRetrying) {
+    return (
+      <div className="absolute inset-0 flex items-center justify-center animate-pulse bg-gradient-to-br from-muted via-muted-foreground/10 to-muted">
+        {!compact && (
+          <span className="text-sm text-muted-foreground">
+            {isRetrying ? 'Retrying' : 'Generating'} image #{slot.index + 1}…
+          </span>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-red-500/10 p-4 text-center">
+      <AlertCircle className={cn('text-red-500', compact ? 'h-4 w-4' : 'h-8 w-8')} />
+      {!compact && (
+        <>
+          <p className="text-sm font-semibold text-red-600 dark:text-red-400">
+            Image #{slot.index + 1} failed
+            <span className="ml-2 font-mono text-xs">{slot.failure.code}</span>
+          </p>
+          <p className="text-xs text-muted-foreground max-w-sm">{slot.failure.message}</p>
+          {onRetry && (
+            <button
+              onClick={(event) => {
+                event.stopPropagation();
+                onRetry(slot.index);
+              }}
+              className="mt-1 inline-flex items-center gap-1.5 rounded-lg border border-red-500/30 bg-background px-3 py-1.5 text-xs font-medium transition-colors hover:border-red-500/60 hover:text-red-500"
+            >
+              <RotateCcw className="h-3.5 w-3.5" />
+              Retry this slot
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ export interface ImageFile {
     valid: boolean;
     error?: string;
   };
+  sourceResultId?: string; // Set when the image is an earlier generation's output
 }
 
 interface ImageUploadZoneProps {
@@ -38,25 +39,7 @@ export function ImageUploadZone({
   const fileInputRef = React.useRef<HTMLInputElement>(null);
 
   // Validate image file
-  const validateImageFile = React.useCallback((file: File): { valid: boolean; error?: string } => {
-    const constraints = getModelConstraints(model).imageUrl;
-
-    // Check file size
-    if (file.size > constraints.maxSize) {
-      return { valid: false, error: `File too large (max ${Math.round(constraints.maxSize / 1024 / 1024)}MB)` };
-    }
-
-    // Check format
-    const ext = file.name.toLowerCase().split('.').pop();
-    if (!ext || !constraints.formats.includes(ext as any)) {
-      return {
-        valid: false,
-        error: `Invalid format (supported: ${constraints.formats.join(', ')})`,
-      };
-    }
-
-    return { valid: true };
-  }, []);
+  const validateImageFile = React.useCallback((file: File) => validateReferenceImage(file, model), [model]);
 
   // Process files
   const processFiles = React.useCallback(
@@ -303,6 +286,52 @@ export function ImageUploadZone({
   );
 }
 
+/**
+ * Check a reference image against the model's size and format limits
+ */
+export function validateReferenceImage(file: File, model: SeedreamModel): { valid: boolean; error?: string } {
+  const constraints = getModelConstraints(model).imageUrl;
+
+  // Check file size
+  if (file.size > constraints.maxSize) {
+    return { valid: false, error: `File too large (max ${Math.round(constraints.maxSize / 1024 / 1024)}MB)` };
+  }
+
+  // Check format
+  const ext = file.name.toLowerCase().split('.').pop();
+  if (!ext || !constraints.formats.includes(ext as any)) {
+    return {
+      valid: false,
+      error: `Invalid format (supported: ${constraints.formats.join(', ')})`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Turn a generated image (base64 or data URI) into a reference image
+ * so an output can be iterated on without downloading and re-uploading it
+ */
+export async function imageFileFromBase64(
+  base64: string,
+  model: SeedreamModel,
+  sourceResultId?: string
+): Promise<ImageFile> {
+  const dataUri = base64.startsWith('data:') ? base64 : `data:image/png;base64,${base64}`;
+  const blob = await (await fetch(dataUri)).blob();
+  const extension = blob.type === 'image/jpeg' ? 'jpg' : 'png';
+  const file = new File([blob], `generation-${Date.now()}.${extension}`, { type: blob.type || 'image/png' });
+
+  return {
+    file,
+    preview: URL.createObjectURL(file),
+    id: `${Date.now()}-${Math.random()}`,
+    validation: validateReferenceImage(file, model),
+    sourceResultId,
+  };
+}
+
 /**
  * Convert File to base64 data URI for Seedream API
  * Only called when generating, not on upload (for performance)
@@ -0,0 +1,161 @@
+'use client';
+
+import * as React from 'react';
+import Image from 'next/image';
+import { motion } from 'framer-motion';
+import { Grid3x3, Clock, Loader2, AlertCircle, StopCircle } from 'lucide-react';
+import type { ImageJob, JobGroup } from '@/types/jobs';
+import { isJobFinished } from '@/types/jobs';
+
+interface JobGroupGridProps {
+  group: JobGroup;
+  jobs: ImageJob[]; // The group's jobs
+  onSelectJob: (id: string) => void;
+  onCancelQueued: () => void;
+}
+
+/**
+ * Cartesian product of the given dimensions' value indexes, last varying fastest
+ */
+function combinations(sizes: number[]): number[][] {
+  return sizes.reduce<number[][]>(
+    (rows, size) => rows.flatMap(row => Array.from({ length: size }, (_, index) => [...row, index])),
+    [[]]
+  );
+}
+
+const GROUP_TITLES: Record<JobGroup['kind'], string> = {
+  matrix: 'Prompt matrix',
+  sweep: 'Parameter sweep',
+};
+
+/**
+ * Timing and token usage of a finished cell
+ */
+function describeCell(job: ImageJob): string | null {
+  if (!job.result || job.status !== 'succeeded') return null;
+  const seconds = `${(job.result.generationTimeMs / 1000).toFixed(1)}s`;
+  const tokens = job.result.usage?.total_tokens;
+  return tokens !== undefined ? `${seconds} · ${tokens.toLocaleString()} tokens` : seconds;
+}
+
+function GridCell({ job, onSelect }: { job?: ImageJob; onSelect: (id: string) => void }) {
+  if (!job) {
+    return <div className="aspect-square rounded-lg border border-dashed border-border bg-muted/30" />;
+  }
+
+  const image = job.result?.images[0]?.base64;
+  const caption = describeCell(job);
+
+  return (
+    <div className="space-y-1">
+      <motion.button
+        onClick={() => onSelect(job.id)}
+        whileHover={{ scale: 1.02 }}
+        className="relative flex aspect-square w-full items-center justify-center overflow-hidden rounded-lg border border-border bg-muted text-xs text-muted-foreground"
+        title={job.params.prompt}
+      >
+        {image ? (
+          <Image
+            src={image.startsWith('data:') ? image : `data:image/png;base64,${image}`}
+            alt={job.params.prompt}
+            fill
+            unoptimized
+            className="object-cover"
+          />
+        ) : job.status === 'running' ? (
+          <Loader2 className="h-5 w-5 animate-spin" />
+        ) : job.status === 'queued' ? (
+          <Clock className="h-5 w-5 text-amber-500" />
+        ) : job.status === 'failed' ? (
+          <span className="flex flex-col items-center gap-1 px-2 text-center text-red-500">
+            <AlertCircle className="h-5 w-5" />
+            <span className="line-clamp-2">{job.error?.message ?? 'Failed'}</span>
+          </span>
+        ) : (
+          <span>{job.status === 'cancelled' ? 'Cancelled' : 'No image'}</span>
+        )}
+      </motion.button>
+      {caption && <p className="text-center text-[10px] text-muted-foreground">{caption}</p>}
+    </div>
+  );
+}
+
+/**
+ * Labelled result grid for a job group
+ * Columns are the last dimension's values, rows every combination of the others;
+ * finished cells show their generation time and token usage
+ */
+export function JobGroupGrid({ group, jobs, onSelectJob, onCancelQueued }: JobGroupGridProps) {
+  const columnDimension = group.dimensions[group.dimensions.length - 1];
+  const rowDimensions = group.dimensions.slice(0, -1);
+  const rows = combinations(rowDimensions.map(dimension => dimension.values.length));
+
+  const findJob = (coordinates: number[]) =>
+    jobs.find(job => job.group?.coordinates.every((value, index) => value === coordinates[index]));
+
+  const finished = jobs.filter(isJobFinished).length;
+  const hasQueued = jobs.some(job => job.status === 'queued');
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0 space-y-1">
+          <div className="flex items-center gap-2 text-sm font-semibold">
+            <Grid3x3 className="h-4 w-4 text-ocean-500" />
+            {GROUP_TITLES[group.kind]} · {finished} of {jobs.length} done
+          </div>
+          <p className="truncate font-mono text-xs text-muted-foreground" title={group.label}>
+            {group.label}
+          </p>
+        </div>
+        {hasQueued && (
+          <button
+            onClick={onCancelQueued}
+            className="inline-flex items-center gap-1.5 rounded-lg border border-border px-3 py-1.5 text-xs font-medium transition-colors hover:border-red-500/50 hover:text-red-500"
+          >
+            <StopCircle className="h-3.5 w-3.5" />
+            Cancel queued
+          </button>
+        )}
+      </div>
+
+      {/* Grid */}
+      <div className="overflow-x-auto">
+        <table className="w-full border-separate border-spacing-2">
+          <thead>
+            <tr>
+              {rowDimensions.length > 0 && (
+                <th className="text-left text-[10px] font-medium uppercase text-muted-foreground">
+                  {rowDimensions.map(dimension => dimension.label).join(' · ')}
+                </th>
+              )}
+              {columnDimension.values.map((value, index) => (
+                <th key={index} className="min-w-[120px] text-xs font-medium" title={columnDimension.label}>
+                  {value || '(empty)'}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.join('-')}>
+                {rowDimensions.length > 0 && (
+                  <th className="max-w-[160px] text-left align-middle text-xs font-medium">
+                    {row.map((value, index) => rowDimensions[index].values[value] || '(empty)').join(' · ')}
+                  </th>
+                )}
+                {columnDimension.values.map((_, column) => (
+                  <td key={column}>
+                    <GridCell job={findJob([...row, column])} onSelect={onSelectJob} />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,381 @@
+'use client';
+
+import * as React from 'react';
+import Image from 'next/image';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ListChecks, ImageIcon, Film, Grid3x3, StopCircle, RotateCcw, X, Loader2 } from 'lucide-react';
+import type { GenerationJob, ImageJob, JobGroup, JobStatus } from '@/types/jobs';
+import { isJobFinished } from '@/types/jobs';
+import { MAX_JOB_CONCURRENCY } from '@/hooks/use-job-queue';
+import { formatTimeLeft } from '@/lib/utils';
+
+interface JobListProps {
+  jobs: GenerationJob[];
+  selectedJobId: string | null;
+  onSelect: (id: string) => void;
+  concurrency: number;
+  onConcurrencyChange: (value: number) => void;
+  onCancel: (id: string) => Promise<boolean>;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  groups?: JobGroup[];
+  selectedGroupId?: string | null;
+  onSelectGroup?: (id: string) => void;
+  onCancelGroup?: (id: string) => void;
+  onRemoveGroup?: (id: string) => void;
+  className?: string;
+}
+
+// Grouped jobs are listed once, as a summary row at the group's newest job
+type ListItem =
+  | { kind: 'job'; job: GenerationJob }
+  | { kind: 'group'; group: JobGroup; jobs: ImageJob[] };
+
+const STATUS_COLORS: Record<JobStatus, string> = {
+  queued: 'bg-amber-500/10 text-amber-600 dark:text-amber-400',
+  running: 'bg-teal-500/10 text-teal-600 dark:text-teal-400',
+  succeeded: 'bg-green-500/10 text-green-600 dark:text-green-400',
+  failed: 'bg-red-500/10 text-red-600 dark:text-red-400',
+  cancelled: 'bg-muted text-muted-foreground',
+};
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${pad(minutes % 60)}:${pad(seconds % 60)}`
+    : `${minutes}:${pad(seconds % 60)}`;
+}
+
+/**
+ * One-line summary of a job's progress or outcome
+ */
+function describeJob(job: GenerationJob): string {
+  if (job.waitingForSlot) return 'Waiting for slot';
+  if (job.status === 'failed') return job.error?.message ?? 'Failed';
+
+  if (job.kind === 'image') {
+    const done = job.result?.images.length ?? 0;
+    const failed = job.result?.failedImages?.length ?? 0;
+    const expected = job.result?.expectedImages ?? (job.params.batchMode ? job.params.maxImages : 1);
+    if (job.status === 'running') return `${done}${expected ? ` of ${expected}` : ''} image${expected === 1 ? '' : 's'}`;
+    if (job.status === 'succeeded') return `${done} image${done === 1 ? '' : 's'}${failed ? ` · ${failed} failed` : ''}`;
+    return job.params.mode;
+  }
+
+  if (job.status === 'running') return job.taskStatus ? `Task ${job.taskStatus}` : 'Creating task';
+  return `${job.params.resolution ?? '720p'} · ${job.params.mode}`;
+}
+
+/**
+ * Overall status of a group: running/queued while any job is, otherwise its outcome
+ */
+function groupStatus(jobs: ImageJob[]): JobStatus {
+  for (const status of ['running', 'queued', 'succeeded', 'failed'] as const) {
+    if (jobs.some(job => job.status === status)) return status;
+  }
+  return 'cancelled';
+}
+
+function describeGroup(group: JobGroup, jobs: ImageJob[]): string {
+  const finished = jobs.filter(isJobFinished).length;
+  const failed = jobs.filter(job => job.status === 'failed').length;
+  const unit = group.kind === 'sweep' ? 'combinations' : 'prompts';
+  return `${finished} of ${jobs.length} ${unit} done${failed ? ` · ${failed} failed` : ''}`;
+}
+
+/**
+ * Job queue list
+ * Shows every submitted generation with status, elapsed time and a result preview
+ */
+export function JobList({
+  jobs,
+  selectedJobId,
+  onSelect,
+  concurrency,
+  onConcurrencyChange,
+  onCancel,
+  onRetry,
+  onRemove,
+  onClearFinished,
+  groups = [],
+  selectedGroupId = null,
+  onSelectGroup,
+  onCancelGroup,
+  onRemoveGroup,
+  className = '',
+}: JobListProps) {
+  const [now, setNow] = React.useState(() => Date.now());
+  const [cancellingId, setCancellingId] = React.useState<string | null>(null);
+  const hasRunning = jobs.some(job => job.status === 'running');
+  const hasFinished = jobs.some(isJobFinished);
+
+  // Tick elapsed times while anything is running
+  React.useEffect(() => {
+    if (!hasRunning) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasRunning]);
+
+  const handleCancel = async (id: string) => {
+    setCancellingId(id);
+    try {
+      await onCancel(id);
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  if (jobs.length === 0) return null;
+
+  const items: ListItem[] = [];
+  for (const job of jobs) {
+    const group = job.kind === 'image' && job.group && groups.find(item => item.id === job.group?.id);
+    if (!group) {
+      items.push({ kind: 'job', job });
+    } else if (!items.some(item => item.kind === 'group' && item.group.id === group.id)) {
+      const groupJobs = jobs.filter((item): item is ImageJob => item.kind === 'image' && item.group?.id === group.id);
+      items.push({ kind: 'group', group, jobs: groupJobs });
+    }
+  }
+
+  return (
+    <div className={`rounded-xl border border-border bg-card ${className}`}>
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4">
+        <div className="flex items-center gap-2">
+          <ListChecks className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm font-semibold">Jobs</span>
+          <span className="text-xs text-muted-foreground">
+            {jobs.filter(job => job.status === 'running').length} running · {jobs.filter(job => job.status === 'queued').length} queued
+          </span>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <span>Parallel</span>
+            {Array.from({ length: MAX_JOB_CONCURRENCY }, (_, i) => i + 1).map(value => (
+              <button
+                key={value}
+                onClick={() => onConcurrencyChange(value)}
+                className={`h-6 w-6 rounded-md border text-xs font-medium transition-colors ${
+                  concurrency === value
+                    ? 'border-foreground/40 bg-muted text-foreground'
+                    : 'border-border hover:text-foreground'
+                }`}
+                aria-label={`Run ${value} job${value === 1 ? '' : 's'} at a time`}
+                aria-pressed={concurrency === value}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+
+          {hasFinished && (
+            <button
+              onClick={onClearFinished}
+              className="rounded-lg border border-border px-3 py-1 text-xs font-medium text-muted-foreground transition-colors hover:text-foreground"
+            >
+              Clear finished
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Jobs */}
+      <ul className="divide-y divide-border border-t border-border">
+        <AnimatePresence initial={false}>
+          {items.map(item => {
+            if (item.kind === 'group') {
+              const { group, jobs: groupJobs } = item;
+              const isSelected = group.id === selectedGroupId;
+              const status = groupStatus(groupJobs);
+              const startedAt = Math.min(...groupJobs.map(job => job.startedAt ?? Infinity));
+              const finishedAt = status === 'running' || status === 'queued'
+                ? now
+                : Math.max(...groupJobs.map(job => job.finishedAt ?? 0));
+              const thumbnail = groupJobs.find(job => job.result?.images[0])?.result?.images[0].base64;
+
+              return (
+                <motion.li
+                  key={group.id}
+                  layout
+                  initial={{ opacity: 0, height: 0 }}
+                  animate={{ opacity: 1, height: 'auto' }}
+                  exit={{ opacity: 0, height: 0 }}
+                  className={`flex items-center gap-3 p-3 transition-colors ${isSelected ? 'bg-muted/60' : 'hover:bg-muted/30'}`}
+                >
+                  <button
+                    onClick={() => onSelectGroup?.(group.id)}
+                    className="flex min-w-0 flex-1 items-center gap-3 text-left"
+                    aria-current={isSelected || undefined}
+                  >
+                    <div className="relative flex h-10 w-10 flex-shrink-0 items-center justify-center overflow-hidden rounded-lg border border-border bg-muted">
+                      {thumbnail ? (
+                        <Image
+                          src={thumbnail.startsWith('data:') ? thumbnail : `data:image/png;base64,${thumbnail}`}
+                          alt=""
+                          fill
+                          unoptimized
+                          className="object-cover"
+                        />
+                      ) : (
+                        <Grid3x3 className="h-4 w-4 text-muted-foreground" />
+                      )}
+                    </div>
+
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className={`rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase ${STATUS_COLORS[status]}`}>
+                          {status}
+                        </span>
+                        <span className="truncate text-xs font-medium" title={group.label}>
+                          {group.label}
+                        </span>
+                      </div>
+                      <div className="truncate text-xs text-muted-foreground">
+                        {Number.isFinite(startedAt) ? formatElapsed(finishedAt - startedAt) : 'Not started'} · {describeGroup(group, groupJobs)}
+                      </div>
+                    </div>
+                  </button>
+
+                  <div className="flex flex-shrink-0 items-center gap-1">
+                    {groupJobs.some(job => job.status === 'queued') ? (
+                      <button
+                        onClick={() => onCancelGroup?.(group.id)}
+                        className="rounded-lg border border-border p-1.5 text-muted-foreground transition-colors hover:border-red-500/50 hover:text-red-500"
+                        aria-label="Cancel queued prompts"
+                      >
+                        <StopCircle className="h-3.5 w-3.5" />
+                      </button>
+                    ) : groupJobs.every(isJobFinished) && (
+                      <button
+                        onClick={() => onRemoveGroup?.(group.id)}
+                        className="rounded-lg border border-border p-1.5 text-muted-foreground transition-colors hover:text-foreground"
+                        aria-label="Remove group"
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                  </div>
+                </motion.li>
+              );
+            }
+
+            const { job } = item;
+            const isSelected = job.id === selectedJobId;
+            const elapsed = job.startedAt ? (job.finishedAt ?? now) - job.startedAt : 0;
+            const thumbnail = job.kind === 'image' ? job.result?.images[0]?.base64 : undefined;
+            const canCancel = job.status === 'queued' || (job.kind === 'video' && job.status === 'running' && job.taskStatus !== 'running');
+            // Flex tasks can wait for hours; show how long until the server gives up on them
+            const expiresAt = job.kind === 'video' && job.status === 'running' && job.params.serviceTier === 'flex'
+              ? job.expiresAt
+              : undefined;
+            const KindIcon = job.kind === 'image' ? ImageIcon : Film;
+
+            return (
+              <motion.li
+                key={job.id}
+                layout
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: 'auto' }}
+                exit={{ opacity: 0, height: 0 }}
+                className={`flex items-center gap-3 p-3 transition-colors ${isSelected ? 'bg-muted/60' : 'hover:bg-muted/30'}`}
+              >
+                <button
+                  onClick={() => onSelect(job.id)}
+                  className="flex min-w-0 flex-1 items-center gap-3 text-left"
+                  aria-current={isSelected || undefined}
+                >
+                  {/* Preview */}
+                  <div className="relative flex h-10 w-10 flex-shrink-0 items-center justify-center overflow-hidden rounded-lg border border-border bg-muted">
+                    {thumbnail ? (
+                      <Image
+                        src={thumbnail.startsWith('data:') ? thumbnail : `data:image/png;base64,${thumbnail}`}
+                        alt=""
+                        fill
+                        unoptimized
+                        className="object-cover"
+                      />
+                    ) : job.status === 'running' ? (
+                      <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    ) : (
+                      <KindIcon className="h-4 w-4 text-muted-foreground" />
+                    )}
+                  </div>
+
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className={`rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase ${STATUS_COLORS[job.status]}`}>
+                        {job.status}
+                      </span>
+                      {job.kind === 'video' && job.resumed && !isJobFinished(job) && (
+                        <span
+                          className="rounded-full bg-muted px-2 py-0.5 text-[10px] font-semibold uppercase text-muted-foreground"
+                          title="Picked up again after the page was reloaded"
+                        >
+                          resumed
+                        </span>
+                      )}
+                      {job.kind === 'video' && job.watching && !isJobFinished(job) && (
+                        <span
+                          className="rounded-full bg-muted px-2 py-0.5 text-[10px] font-semibold uppercase text-muted-foreground"
+                          title="Flex task submitted - it no longer takes a parallel slot"
+                        >
+                          watching
+                        </span>
+                      )}
+                      <span className="truncate text-xs font-medium" title={job.params.prompt}>
+                        {job.params.prompt}
+                      </span>
+                    </div>
+                    <div className="truncate text-xs text-muted-foreground">
+                      {job.startedAt ? formatElapsed(elapsed) : 'Not started'} · {describeJob(job)}
+                      {expiresAt && ` · ${expiresAt > now ? `expires in ${formatTimeLeft(expiresAt - now)}` : 'expiring'}`}
+                    </div>
+                  </div>
+                </button>
+
+                {/* Actions */}
+                <div className="flex flex-shrink-0 items-center gap-1">
+                  {canCancel && (
+                    <button
+                      onClick={() => handleCancel(job.id)}
+                      disabled={cancellingId === job.id}
+                      className="rounded-lg border border-border p-1.5 text-muted-foreground transition-colors hover:border-red-500/50 hover:text-red-500 disabled:opacity-50"
+                      aria-label="Cancel job"
+                    >
+                      {cancellingId === job.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <StopCircle className="h-3.5 w-3.5" />}
+                    </button>
+                  )}
+                  {isJobFinished(job) && (
+                    <>
+                      <button
+                        onClick={() => onRetry(job.id)}
+                        className="rounded-lg border border-border p-1.5 text-muted-foreground transition-colors hover:text-foreground"
+                        aria-label="Run again"
+                      >
+                        <RotateCcw className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        onClick={() => onRemove(job.id)}
+                        className="rounded-lg border border-border p-1.5 text-muted-foreground transition-colors hover:text-foreground"
+                        aria-label="Remove job"
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </motion.li>
+            );
+          })}
+        </AnimatePresence>
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import * as React from 'react';
+import { motion } from 'framer-motion';
+import { Clock, StopCircle } from 'lucide-react';
+import { LoadingState } from '@/components/studio/loading-snake';
+import { SlotWaitNotice } from '@/components/studio/slot-wait-notice';
+import { ErrorNotice } from '@/components/studio/error-notice';
+import { GenerationOutput } from '@/components/studio/generation-output';
+import { VideoOutput } from '@/components/studio/video/video-output';
+import { VideoTaskProgress } from '@/components/studio/video/video-task-progress';
+import type { SeaDreamModel } from '@/types/api';
+import type { GenerationJob } from '@/types/jobs';
+
+interface JobOutputProps {
+  job: GenerationJob;
+  onCancel: () => Promise<boolean>;
+  onRetry: () => void;
+  onRetrySlot: (index: number) => void;
+  onDeleteVideo: () => Promise<boolean>;
+  onClose: () => void;
+  onSwitchModel?: (model: SeaDreamModel) => void;
+  onChangeKey?: () => void;
+  onUseAsReference?: (base64: string) => void;
+  onAddToReferences?: (base64: string) => void;
+  onUseAsVideoFrame?: (base64: string, role: 'first_frame' | 'last_frame') => void;
+  onExtendVideo?: (prompt: string) => void;
+  onRemixVideo?: (lockSeed: boolean) => void;
+  onSaveAsPreset?: () => void;
+}
+
+/**
+ * Output area for the selected job
+ * Queued and running jobs show their progress; finished jobs show the result or error
+ */
+export function JobOutput({
+  job,
+  onCancel,
+  onRetry,
+  onRetrySlot,
+  onDeleteVideo,
+  onClose,
+  onSwitchModel,
+  onChangeKey,
+  onUseAsReference,
+  onAddToReferences,
+  onUseAsVideoFrame,
+  onExtendVideo,
+  onRemixVideo,
+  onSaveAsPreset,
+}: JobOutputProps) {
+  const model: SeaDreamModel = job.kind === 'image' ? job.params.model : 'seedance-1-5-pro';
+
+  if (job.status === 'queued') {
+    return (
+      <div className="flex flex-col items-center gap-3 py-8 text-center">
+        <Clock className="h-6 w-6 text-amber-500" />
+        <p className="text-sm font-semibold">Queued</p>
+        <p className="text-xs text-muted-foreground">Starts as soon as a running job finishes.</p>
+        <motion.button
+          onClick={onCancel}
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          className="inline-flex items-center gap-1.5 rounded-lg border border-border px-3 py-1.5 text-xs font-medium transition-colors hover:border-red-500/50 hover:text-red-500"
+        >
+          <StopCircle className="h-3.5 w-3.5" />
+          Cancel
+        </motion.button>
+      </div>
+    );
+  }
+
+  if (job.status === 'cancelled') {
+    return (
+      <div className="p-4 rounded-xl bg-muted/50 border border-border">
+        <p className="text-sm text-muted-foreground text-center">
+          {job.kind === 'video' && job.taskId
+            ? 'Video task cancelled. No credits were used.'
+            : 'Job cancelled before it started.'}
+        </p>
+      </div>
+    );
+  }
+
+  const errorNotice = job.error && (
+    <ErrorNotice
+      error={job.error}
+      model={model}
+      onSwitchModel={onSwitchModel}
+      onChangeKey={onChangeKey}
+      onRetry={job.status === 'failed' ? onRetry : undefined}
+    />
+  );
+
+  // Video
+  if (job.kind === 'video') {
+    if (job.status === 'running') {
+      return (
+        <div className="space-y-2">
+          <LoadingState />
+          {job.waitingForSlot ? (
+            <SlotWaitNotice wait={job.waitingForSlot} onCancel={onCancel} />
+          ) : (
+            <VideoTaskProgress
+              status={job.taskStatus ?? 'queued'}
+              progress={job.progress}
+              onCancel={onCancel}
+              error={job.error?.message}
+              expiresAt={job.params.serviceTier === 'flex' ? job.expiresAt : undefined}
+              resumed={job.resumed}
+            />
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        {errorNotice}
+        {job.result && (
+          <VideoOutput
+            result={job.result}
+            onGenerateAnother={onClose}
+            onDelete={onDeleteVideo}
+            onExtend={onExtendVideo}
+            onRemix={onRemixVideo && (() => onRemixVideo(true))}
+            onReuseParameters={onRemixVideo && (() => onRemixVideo(false))}
+          />
+        )}
+      </div>
+    );
+  }
+
+  // Image
+  const result = job.result;
+  return (
+    <div className="space-y-4">
+      {job.waitingForSlot && <SlotWaitNotice wait={job.waitingForSlot} />}
+      {errorNotice}
+      {result ? (
+        <GenerationOutput
+          images={result.images}
+          failedImages={result.failedImages}
+          expectedImages={result.expectedImages}
+          onRetrySlot={job.status === 'running' ? undefined : onRetrySlot}
+          retryingSlots={job.retryingSlots}
+          onUseAsReference={job.status === 'running' ? undefined : onUseAsReference}
+          onAddToReferences={job.status === 'running' ? undefined : onAddToReferences}
+          onUseAsVideoFrame={job.status === 'running' ? undefined : onUseAsVideoFrame}
+          generationTimeMs={result.generationTimeMs}
+          prompt={result.prompt}
+          mode={result.mode}
+          model={result.model}
+          size={result.parameters.size}
+          quality={result.parameters.quality}
+          batchMode={result.parameters.batchMode}
+          maxImages={result.parameters.maxImages}
+          referenceImageUrls={result.referenceImageUrls}
+          onSaveAsPreset={job.status === 'running' ? undefined : onSaveAsPreset}
+        />
+      ) : job.status === 'running' && !job.waitingForSlot && (
+        <LoadingState />
+      )}
+    </div>
+  );
+}
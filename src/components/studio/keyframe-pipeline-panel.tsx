@@ -0,0 +1,143 @@
+'use client';
+
+import * as React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Film } from 'lucide-react';
+import { DURATION_OPTIONS, VIDEO_CONSTRAINTS } from '@/constants/video-parameters';
+import type { VideoDuration, VideoResolution } from '@/types/video-api';
+
+interface KeyframePipelinePanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  lastPrompt: string;
+  onLastPromptChange: (prompt: string) => void;
+  videoPrompt: string;
+  onVideoPromptChange: (prompt: string) => void;
+  duration: VideoDuration;
+  onDurationChange: (duration: VideoDuration) => void;
+  resolution: VideoResolution;
+  onResolutionChange: (resolution: VideoResolution) => void;
+  className?: string;
+}
+
+/**
+ * Keyframe pipeline settings
+ * The main prompt becomes the first keyframe; the video is built from both keyframes
+ */
+export function KeyframePipelinePanel({
+  enabled,
+  onEnabledChange,
+  lastPrompt,
+  onLastPromptChange,
+  videoPrompt,
+  onVideoPromptChange,
+  duration,
+  onDurationChange,
+  resolution,
+  onResolutionChange,
+  className = '',
+}: KeyframePipelinePanelProps) {
+  return (
+    <div className={className}>
+      <div className="space-y-3">
+        {/* Label and switch */}
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm font-semibold">
+            <Film className="h-4 w-4 text-muted-foreground" />
+            Keyframes to Video
+          </label>
+          <button
+            type="button"
+            onClick={() => onEnabledChange(!enabled)}
+            className={`relative h-5 w-9 rounded-full transition-colors ${enabled ? 'bg-green-500' : 'bg-muted'}`}
+            role="switch"
+            aria-checked={enabled}
+            aria-label="Keyframe pipeline toggle"
+          >
+            <motion.div
+              initial={false}
+              animate={{ x: enabled ? 16 : 2 }}
+              transition={{ type: 'spring', stiffness: 500, damping: 30 }}
+              className="absolute top-0.5 h-4 w-4 rounded-full bg-white shadow-sm"
+            />
+          </button>
+        </div>
+
+        {!enabled && (
+          <p className="text-xs text-muted-foreground">
+            Generate a first and a last frame here, then animate between them with Seedance.
+          </p>
+        )}
+
+        <AnimatePresence>
+          {enabled && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="overflow-hidden"
+            >
+              <div className="space-y-4 rounded-xl border border-green-500/30 bg-gradient-to-br from-green-500/10 to-teal-500/5 p-4">
+                <p className="text-xs text-muted-foreground">
+                  The prompt above generates the first frame. Both frames use the model, size, quality and references selected above.
+                </p>
+
+                <label className="block space-y-2">
+                  <span className="text-xs font-medium text-muted-foreground">Last frame prompt</span>
+                  <textarea
+                    value={lastPrompt}
+                    onChange={(e) => onLastPromptChange(e.target.value)}
+                    placeholder="The same scene at the end of the shot..."
+                    rows={2}
+                    className="w-full resize-y rounded-lg border border-border bg-background px-3 py-2 text-sm outline-none focus:border-green-500"
+                  />
+                </label>
+
+                <label className="block space-y-2">
+                  <span className="text-xs font-medium text-muted-foreground">Motion prompt</span>
+                  <textarea
+                    value={videoPrompt}
+                    onChange={(e) => onVideoPromptChange(e.target.value)}
+                    placeholder="What happens between the two frames..."
+                    rows={2}
+                    className="w-full resize-y rounded-lg border border-border bg-background px-3 py-2 text-sm outline-none focus:border-green-500"
+                  />
+                </label>
+
+                <div className="flex flex-wrap items-end gap-3 border-t border-border/50 pt-3">
+                  <label className="space-y-1 text-xs text-muted-foreground">
+                    <span className="block">Duration</span>
+                    <select
+                      value={duration}
+                      onChange={(e) => onDurationChange(Number(e.target.value) as VideoDuration)}
+                      className="rounded-lg border border-border bg-background px-2 py-1.5 text-xs text-foreground"
+                    >
+                      {DURATION_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="space-y-1 text-xs text-muted-foreground">
+                    <span className="block">Resolution</span>
+                    <select
+                      value={resolution}
+                      onChange={(e) => onResolutionChange(e.target.value as VideoResolution)}
+                      className="rounded-lg border border-border bg-background px-2 py-1.5 text-xs text-foreground"
+                    >
+                      {VIDEO_CONSTRAINTS.resolutions.map(option => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <span className="pb-1.5 text-[11px] text-muted-foreground">
+                    Audio, service tier and model ID follow the Seedance form.
+                  </span>
+                </div>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+}
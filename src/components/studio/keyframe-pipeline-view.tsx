@@ -0,0 +1,203 @@
+'use client';
+
+import * as React from 'react';
+import Image from 'next/image';
+import { ArrowRight, ImageIcon, Film, RotateCcw, Trash2 } from 'lucide-react';
+import { KEYFRAME_ROLES, keyframeImage } from '@/hooks/use-keyframe-pipeline';
+import type { GenerationJob } from '@/types/jobs';
+import type { KeyframePipeline, KeyframeRole, KeyframeStageStatus } from '@/types/keyframes';
+
+interface KeyframePipelineViewProps {
+  pipeline: KeyframePipeline;
+  jobs: GenerationJob[];
+  keyframeStatus: (pipeline: KeyframePipeline, role: KeyframeRole) => KeyframeStageStatus;
+  videoStatus: (pipeline: KeyframePipeline) => KeyframeStageStatus;
+  onRegenerateKeyframe: (pipelineId: string, role: KeyframeRole) => void;
+  onRegenerateVideo: (pipelineId: string) => void;
+  onSelectJob: (id: string) => void;
+  onRemove: (pipelineId: string) => void;
+  className?: string;
+}
+
+const STATUS_LABELS: Record<KeyframeStageStatus, string> = {
+  waiting: 'Waiting for keyframes',
+  blocked: 'Blocked',
+  queued: 'Queued',
+  running: 'Running',
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_COLORS: Record<KeyframeStageStatus, string> = {
+  waiting: 'text-muted-foreground',
+  blocked: 'text-amber-600 dark:text-amber-400',
+  queued: 'text-muted-foreground',
+  running: 'text-green-600 dark:text-green-400 animate-pulse',
+  succeeded: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400',
+  cancelled: 'text-muted-foreground',
+};
+
+const ROLE_LABELS: Record<KeyframeRole, string> = {
+  first: 'First frame',
+  last: 'Last frame',
+};
+
+function isActive(status: KeyframeStageStatus): boolean {
+  return status === 'queued' || status === 'running' || status === 'waiting';
+}
+
+function StageCaption({
+  status,
+  jobId,
+  onOpen,
+  onRegenerate,
+  regenerateLabel,
+}: {
+  status: KeyframeStageStatus;
+  jobId: string | null;
+  onOpen: (id: string) => void;
+  onRegenerate?: () => void;
+  regenerateLabel: string;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-1 text-[11px]">
+      <span className={STATUS_COLORS[status]}>{STATUS_LABELS[status]}</span>
+      <span className="flex items-center gap-1">
+        {jobId && (
+          <button
+            type="button"
+            onClick={() => onOpen(jobId)}
+            className="text-muted-foreground underline-offset-2 hover:text-green-500 hover:underline"
+          >
+            open
+          </button>
+        )}
+        {onRegenerate && !isActive(status) && (
+          <button
+            type="button"
+            onClick={onRegenerate}
+            className="rounded p-0.5 text-muted-foreground transition-colors hover:text-green-500"
+            aria-label={regenerateLabel}
+            title={regenerateLabel}
+          >
+            <RotateCcw className="h-3 w-3" />
+          </button>
+        )}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Both stages of a keyframe pipeline side by side
+ * Seedream keyframes on the left, the Seedance video built from them on the right
+ */
+export function KeyframePipelineView({
+  pipeline,
+  jobs,
+  keyframeStatus,
+  videoStatus,
+  onRegenerateKeyframe,
+  onRegenerateVideo,
+  onSelectJob,
+  onRemove,
+  className = '',
+}: KeyframePipelineViewProps) {
+  const videoJob = jobs.find(job => job.id === pipeline.videoJobId);
+  const video = videoJob?.kind === 'video' ? videoJob : undefined;
+  const status = videoStatus(pipeline);
+  const keyframesReady = KEYFRAME_ROLES.every(role => keyframeImage(jobs, pipeline, role));
+  const isBusy = status === 'queued' || status === 'running'
+    || KEYFRAME_ROLES.some(role => isActive(keyframeStatus(pipeline, role)));
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span className="truncate" title={pipeline.videoPrompt}>
+          {new Date(pipeline.createdAt).toLocaleTimeString()} · {pipeline.videoPrompt}
+        </span>
+        <button
+          type="button"
+          onClick={() => onRemove(pipeline.id)}
+          disabled={isBusy}
+          className="rounded p-1 transition-colors hover:text-red-500 disabled:opacity-30"
+          aria-label="Remove pipeline"
+          title={isBusy ? 'Wait for the pipeline to finish' : 'Remove from the list'}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 items-center gap-3 sm:grid-cols-[1fr_auto_1fr]">
+        {/* Stage 1: Seedream keyframes */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-1.5 text-xs font-medium">
+            <ImageIcon className="h-3.5 w-3.5 text-ocean-500" />
+            Keyframes
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {KEYFRAME_ROLES.map(role => {
+              const image = keyframeImage(jobs, pipeline, role);
+              return (
+                <div key={role} className="space-y-1">
+                  <div className="relative aspect-square overflow-hidden rounded-lg border border-border bg-muted/40">
+                    {image ? (
+                      <Image src={image} alt={ROLE_LABELS[role]} fill unoptimized className="object-cover" />
+                    ) : (
+                      <div className="flex h-full items-center justify-center p-2 text-center text-[11px] text-muted-foreground">
+                        {ROLE_LABELS[role]}
+                      </div>
+                    )}
+                  </div>
+                  <StageCaption
+                    status={keyframeStatus(pipeline, role)}
+                    jobId={pipeline.keyframeJobIds[role]}
+                    onOpen={onSelectJob}
+                    onRegenerate={() => onRegenerateKeyframe(pipeline.id, role)}
+                    regenerateLabel={`Regenerate the ${ROLE_LABELS[role].toLowerCase()}`}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <ArrowRight className="mx-auto hidden h-5 w-5 text-muted-foreground sm:block" />
+
+        {/* Stage 2: Seedance video */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-1.5 text-xs font-medium">
+            <Film className="h-3.5 w-3.5 text-green-500" />
+            Video
+          </div>
+          <div className="aspect-video overflow-hidden rounded-lg border border-border bg-black">
+            {video?.result ? (
+              <video src={video.result.videoUrl} className="h-full w-full object-contain" controls playsInline />
+            ) : (
+              <div className="flex h-full flex-col items-center justify-center gap-2 text-xs text-white/70">
+                {STATUS_LABELS[status]}
+                {pipeline.videoError && !video && (
+                  <span className="px-3 text-center text-red-300">{pipeline.videoError}</span>
+                )}
+                {video?.status === 'running' && (
+                  <div className="h-1 w-24 overflow-hidden rounded-full bg-white/20">
+                    <div className="h-full bg-green-500 transition-all" style={{ width: `${video.progress}%` }} />
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+          <StageCaption
+            status={status}
+            jobId={pipeline.videoJobId}
+            onOpen={onSelectJob}
+            onRegenerate={keyframesReady ? () => onRegenerateVideo(pipeline.id) : undefined}
+            regenerateLabel="Generate the video again"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import * as React from 'react';
+import Image from 'next/image';
+import { GitBranch } from 'lucide-react';
+import { diffPrompts, hasPromptChanges } from '@/lib/prompt-diff';
+import type { GenerationJob, ImageJob } from '@/types/jobs';
+
+interface LineageTreeProps {
+  jobs: GenerationJob[];
+  selectedJobId: string;
+  onSelectJob: (id: string) => void;
+  className?: string;
+}
+
+interface LineageNode {
+  job: ImageJob;
+  parent?: LineageNode;
+  children: LineageNode[];
+}
+
+/**
+ * Link image results into trees by the parent ID they were generated from
+ * Results whose parent is no longer in the list become roots
+ */
+function buildNodes(jobs: GenerationJob[]): Map<string, LineageNode> {
+  const byResultId = new Map<string, LineageNode>();
+  for (const job of jobs) {
+    if (job.kind === 'image' && job.result && job.status !== 'running') {
+      byResultId.set(job.result.id, { job, children: [] });
+    }
+  }
+
+  // Jobs are newest first; attach children oldest first
+  for (const node of [...byResultId.values()].reverse()) {
+    const parentId = node.job.result?.parentId;
+    const parent = parentId ? byResultId.get(parentId) : undefined;
+    if (parent) {
+      node.parent = parent;
+      parent.children.push(node);
+    }
+  }
+  return byResultId;
+}
+
+function PromptChange({ node }: { node: LineageNode }) {
+  const prompt = node.job.params.prompt;
+  if (!node.parent) {
+    return <span>{prompt}</span>;
+  }
+
+  const parts = diffPrompts(node.parent.job.params.prompt, prompt);
+  if (!hasPromptChanges(parts)) {
+    return <span className="italic text-muted-foreground">Same prompt</span>;
+  }
+
+  return (
+    <span>
+      {parts.map((part, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && ' '}
+          <span
+            className={
+              part.type === 'added'
+                ? 'rounded bg-green-500/15 px-0.5 text-green-700 dark:text-green-400'
+                : part.type === 'removed'
+                  ? 'rounded bg-red-500/10 px-0.5 text-red-600 line-through dark:text-red-400'
+                  : 'text-muted-foreground'
+            }
+          >
+            {part.text}
+          </span>
+        </React.Fragment>
+      ))}
+    </span>
+  );
+}
+
+function NodeRow({ node, selectedJobId, onSelectJob }: { node: LineageNode; selectedJobId: string; onSelectJob: (id: string) => void }) {
+  const thumbnail = node.job.result?.images[0]?.base64;
+  const isSelected = node.job.id === selectedJobId;
+
+  return (
+    <li className="space-y-2">
+      <button
+        onClick={() => onSelectJob(node.job.id)}
+        className={`flex w-full items-start gap-3 rounded-lg border p-2 text-left transition-colors ${
+          isSelected ? 'border-ocean-500 bg-ocean-500/5' : 'border-border hover:bg-muted/40'
+        }`}
+        aria-current={isSelected || undefined}
+      >
+        <div className="relative h-12 w-12 flex-shrink-0 overflow-hidden rounded-md border border-border bg-muted">
+          {thumbnail && (
+            <Image
+              src={thumbnail.startsWith('data:') ? thumbnail : `data:image/png;base64,${thumbnail}`}
+              alt=""
+              fill
+              unoptimized
+              className="object-cover"
+            />
+          )}
+        </div>
+        <div className="min-w-0 flex-1 text-xs leading-relaxed">
+          <PromptChange node={node} />
+        </div>
+      </button>
+
+      {node.children.length > 0 && (
+        <ul className="ml-6 space-y-2 border-l border-border pl-3">
+          {node.children.map(child => (
+            <NodeRow key={child.job.id} node={child} selectedJobId={selectedJobId} onSelectJob={onSelectJob} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Tree of iterations the selected image belongs to
+ * Each step shows the prompt diff against the image it was generated from
+ */
+export function LineageTree({ jobs, selectedJobId, onSelectJob, className = '' }: LineageTreeProps) {
+  const nodes = React.useMemo(() => buildNodes(jobs), [jobs]);
+
+  const selected = [...nodes.values()].find(node => node.job.id === selectedJobId);
+  if (!selected || (!selected.parent && selected.children.length === 0)) return null;
+
+  let root = selected;
+  while (root.parent) root = root.parent;
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex items-center gap-2 text-sm font-semibold">
+        <GitBranch className="h-4 w-4 text-muted-foreground" />
+        Lineage
+      </div>
+      <ul>
+        <NodeRow node={root} selectedJobId={selectedJobId} onSelectJob={onSelectJob} />
+      </ul>
+    </div>
+  );
+}
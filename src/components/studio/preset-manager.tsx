@@ -0,0 +1,331 @@
+'use client';
+
+import * as React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  Bookmark,
+  ChevronDown,
+  RefreshCw,
+  Save,
+  Pencil,
+  Trash2,
+  Check,
+  AlertCircle,
+  X,
+} from 'lucide-react';
+import { isVideoMode } from '@/types/video-api';
+import type { Preset } from '@/types/database';
+import type { UnifiedMode } from '@/types/api';
+
+interface PresetManagerProps {
+  presets: Preset[];
+  isLoading: boolean;
+  error: string | null;
+  canSave: boolean; // The form has a prompt
+  onSave: (name: string, description: string) => Promise<boolean>;
+  onApply: (preset: Preset) => void;
+  onRename: (id: string, name: string) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+  onRefresh: () => void;
+  onDismissError: () => void;
+  className?: string;
+}
+
+const MODE_LABELS: Record<UnifiedMode, string> = {
+  text: 'Text to Image',
+  image: 'Image to Image',
+  'multi-image': 'Multi-Image',
+  'multi-batch': 'Batch Generation',
+  'text-to-video': 'Text to Video',
+  'image-to-video-first': 'First Frame',
+  'image-to-video-ref': 'Reference Images',
+  'image-to-video-frames': 'First + Last',
+};
+
+function modeLabel(mode: string): string {
+  return MODE_LABELS[mode as UnifiedMode] ?? mode;
+}
+
+/**
+ * One-line summary of the settings a preset applies
+ */
+function describePreset(preset: Preset): string {
+  if (isVideoMode(preset.mode)) {
+    return [
+      preset.duration === null ? null : preset.duration === -1 ? 'Auto length' : `${preset.duration}s`,
+      preset.resolution,
+      preset.ratio,
+      preset.generate_audio === null ? null : preset.generate_audio ? 'Audio' : 'No audio',
+      preset.service_tier === 'flex' ? 'Flex' : null,
+    ].filter(Boolean).join(' · ');
+  }
+
+  return [
+    preset.size.replace('x', '×'),
+    preset.quality,
+    preset.batch_mode ? `Batch of up to ${preset.max_images ?? 15}` : null,
+  ].filter(Boolean).join(' · ');
+}
+
+/**
+ * Preset manager
+ * Saves the current form as a named preset and applies, renames or deletes saved ones
+ */
+export function PresetManager({
+  presets,
+  isLoading,
+  error,
+  canSave,
+  onSave,
+  onApply,
+  onRename,
+  onDelete,
+  onRefresh,
+  onDismissError,
+  className = '',
+}: PresetManagerProps) {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [modeFilter, setModeFilter] = React.useState<string>('all');
+  const [name, setName] = React.useState('');
+  const [description, setDescription] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [draftName, setDraftName] = React.useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = React.useState<string | null>(null);
+
+  const modes = React.useMemo(() => [...new Set(presets.map(preset => preset.mode))], [presets]);
+  const filtered = modeFilter === 'all' ? presets : presets.filter(preset => preset.mode === modeFilter);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave || !name.trim()) return;
+
+    setSaving(true);
+    const saved = await onSave(name.trim(), description.trim());
+    setSaving(false);
+    if (saved) {
+      setName('');
+      setDescription('');
+    }
+  };
+
+  const startRename = (preset: Preset) => {
+    setEditingId(preset.id);
+    setDraftName(preset.name);
+    setConfirmDeleteId(null);
+  };
+
+  const handleRename = async (id: string) => {
+    const next = draftName.trim();
+    if (next && (await onRename(id, next))) {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirmDeleteId !== id) {
+      setConfirmDeleteId(id);
+      return;
+    }
+    setConfirmDeleteId(null);
+    if (modeFilter !== 'all' && filtered.length === 1) setModeFilter('all');
+    onDelete(id);
+  };
+
+  const chipClass = (active: boolean) =>
+    `rounded-lg border px-3 py-1 text-xs font-medium transition-colors ${
+      active
+        ? 'border-dream-500 bg-dream-500/10 text-foreground'
+        : 'border-border text-muted-foreground hover:border-dream-500/30'
+    }`;
+
+  return (
+    <div className={`rounded-xl border border-border bg-card ${className}`}>
+      {/* Header */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex w-full items-center justify-between gap-3 p-4 text-left"
+        aria-expanded={isOpen}
+      >
+        <div className="flex items-center gap-2">
+          <Bookmark className="h-4 w-4 text-dream-500" />
+          <span className="text-sm font-semibold">Presets</span>
+          <span className="text-xs text-muted-foreground">
+            {presets.length} saved
+          </span>
+        </div>
+        <motion.div animate={{ rotate: isOpen ? 180 : 0 }} transition={{ duration: 0.2 }}>
+          <ChevronDown className="h-4 w-4 text-muted-foreground" />
+        </motion.div>
+      </button>
+
+      <AnimatePresence initial={false}>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="overflow-hidden"
+          >
+            <div className="space-y-4 border-t border-border p-4">
+              {error && (
+                <div className="flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/5 p-3 text-xs text-red-600 dark:text-red-400">
+                  <AlertCircle className="mt-0.5 h-3.5 w-3.5 flex-shrink-0" />
+                  <span className="flex-1">{error}</span>
+                  <button onClick={onDismissError} aria-label="Dismiss">
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              )}
+
+              {/* Save current form */}
+              <form onSubmit={handleSave} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={e => setName(e.target.value)}
+                    placeholder="Preset name"
+                    maxLength={80}
+                    className="flex-1 rounded-lg border border-border bg-background px-3 py-2 text-xs focus:border-dream-500 focus:outline-none"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!canSave || !name.trim() || saving}
+                    className="inline-flex flex-shrink-0 items-center gap-1.5 rounded-lg bg-gradient-to-r from-ocean-500 to-dream-500 px-3 py-2 text-xs font-medium text-white shadow-sm transition-opacity hover:opacity-90 disabled:cursor-not-allowed disabled:opacity-40"
+                    title={canSave ? 'Save the current prompt and settings' : 'Enter a prompt first'}
+                  >
+                    <Save className="h-3.5 w-3.5" />
+                    {saving ? 'Saving...' : 'Save current'}
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  value={description}
+                  onChange={e => setDescription(e.target.value)}
+                  placeholder="Description (optional)"
+                  maxLength={200}
+                  className="w-full rounded-lg border border-border bg-background px-3 py-2 text-xs focus:border-dream-500 focus:outline-none"
+                />
+              </form>
+
+              {/* Filters */}
+              <div className="flex flex-wrap items-center gap-2">
+                <button onClick={() => setModeFilter('all')} className={chipClass(modeFilter === 'all')}>
+                  All
+                </button>
+                {modes.map(mode => (
+                  <button key={mode} onClick={() => setModeFilter(mode)} className={chipClass(modeFilter === mode)}>
+                    {modeLabel(mode)}
+                  </button>
+                ))}
+
+                <button
+                  onClick={onRefresh}
+                  disabled={isLoading}
+                  className="ml-auto inline-flex items-center gap-1.5 rounded-lg border border-border px-3 py-1 text-xs font-medium text-muted-foreground transition-colors hover:text-foreground disabled:opacity-50"
+                  aria-label="Refresh presets"
+                >
+                  <RefreshCw className={`h-3.5 w-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+                  Refresh
+                </button>
+              </div>
+
+              {/* Preset list */}
+              {filtered.length === 0 && !isLoading && (
+                <p className="py-6 text-center text-xs text-muted-foreground">No presets saved yet</p>
+              )}
+
+              {filtered.length > 0 && (
+                <ul className="divide-y divide-border rounded-lg border border-border">
+                  {filtered.map(preset => (
+                    <li key={preset.id} className="flex items-center gap-3 p-3">
+                      <div className="min-w-0 flex-1 space-y-1">
+                        {editingId === preset.id ? (
+                          <div className="flex items-center gap-1">
+                            <input
+                              type="text"
+                              value={draftName}
+                              onChange={e => setDraftName(e.target.value)}
+                              onKeyDown={e => {
+                                if (e.key === 'Enter') handleRename(preset.id);
+                                if (e.key === 'Escape') setEditingId(null);
+                              }}
+                              maxLength={80}
+                              autoFocus
+                              className="flex-1 rounded-md border border-dream-500 bg-background px-2 py-1 text-xs focus:outline-none"
+                              aria-label="Preset name"
+                            />
+                            <button
+                              onClick={() => handleRename(preset.id)}
+                              disabled={!draftName.trim()}
+                              className="rounded p-1 text-green-600 transition-colors hover:bg-green-500/10 disabled:opacity-40"
+                              aria-label="Save name"
+                            >
+                              <Check className="h-3.5 w-3.5" />
+                            </button>
+                            <button
+                              onClick={() => setEditingId(null)}
+                              className="rounded p-1 text-muted-foreground transition-colors hover:text-foreground"
+                              aria-label="Cancel rename"
+                            >
+                              <X className="h-3.5 w-3.5" />
+                            </button>
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <span className="truncate text-xs font-semibold">{preset.name}</span>
+                            <span className="flex-shrink-0 rounded-full bg-muted px-2 py-0.5 text-[10px] text-muted-foreground">
+                              {modeLabel(preset.mode)}
+                            </span>
+                          </div>
+                        )}
+                        {preset.description && (
+                          <p className="truncate text-[11px] text-muted-foreground">{preset.description}</p>
+                        )}
+                        <p className="truncate text-[11px] text-muted-foreground" title={preset.prompt}>
+                          {preset.prompt}
+                        </p>
+                        <p className="text-[11px] text-muted-foreground">
+                          {[preset.model, describePreset(preset)].filter(Boolean).join(' · ')}
+                        </p>
+                      </div>
+
+                      <div className="flex flex-shrink-0 items-center gap-1">
+                        <button
+                          onClick={() => startRename(preset)}
+                          className="rounded-lg p-1.5 text-muted-foreground transition-colors hover:text-foreground"
+                          aria-label={`Rename ${preset.name}`}
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(preset.id)}
+                          className={`rounded-lg p-1.5 text-xs transition-colors ${
+                            confirmDeleteId === preset.id
+                              ? 'bg-red-500/10 text-red-600 dark:text-red-400'
+                              : 'text-muted-foreground hover:text-red-500'
+                          }`}
+                          aria-label={confirmDeleteId === preset.id ? `Confirm deleting ${preset.name}` : `Delete ${preset.name}`}
+                        >
+                          {confirmDeleteId === preset.id ? 'Delete?' : <Trash2 className="h-3.5 w-3.5" />}
+                        </button>
+                        <button
+                          onClick={() => onApply(preset)}
+                          className="rounded-lg bg-gradient-to-r from-ocean-500 to-dream-500 px-3 py-1.5 text-xs font-medium text-white shadow-sm transition-opacity hover:opacity-90"
+                        >
+                          Apply
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
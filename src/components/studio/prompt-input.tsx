@@ -3,13 +3,27 @@
 import * as React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { AlertCircle, Sparkles } from 'lucide-react';
+import { PromptMatrixPanel } from '@/components/studio/prompt-matrix-panel';
 import type { UnifiedMode, SeaDreamModel } from '@/types/api';
+import type { PromptExpansion, WildcardLists } from '@/lib/prompt-matrix';
+
+// Prompt matrix support (image prompts only)
+interface PromptMatrixOptions {
+  expansion: PromptExpansion | null;
+  lists: WildcardLists;
+  onSaveList: (name: string, values: string[]) => boolean;
+  onDeleteList: (name: string) => void;
+  imagesPerPrompt: number;
+  costPerImage: number;
+}
 
 interface PromptInputProps {
   value: string;
   onChange: (value: string) => void;
+  onBlur?: () => void;
   mode: UnifiedMode;
   model?: SeaDreamModel;
+  matrix?: PromptMatrixOptions;
   className?: string;
 }
 
@@ -30,7 +44,7 @@ const MODE_EXAMPLES: Record<string, string> = {
   'multi-batch': 'Generate 3 images showing the subjects at morning, noon, and night, maintaining consistent style and composition',
 };
 
-export function PromptInput({ value, onChange, mode, model = 'seedream-4-5', className = '' }: PromptInputProps) {
+export function PromptInput({ value, onChange, onBlur, mode, model = 'seedream-4-5', matrix, className = '' }: PromptInputProps) {
   const [isFocused, setIsFocused] = React.useState(false);
   const textareaRef = React.useRef<HTMLTextAreaElement>(null);
 
@@ -135,7 +149,10 @@ export function PromptInput({ value, onChange, mode, model = 'seedream-4-5', cla
               value={value}
               onChange={(e) => onChange(e.target.value)}
               onFocus={() => setIsFocused(true)}
-              onBlur={() => setIsFocused(false)}
+              onBlur={() => {
+                setIsFocused(false);
+                onBlur?.();
+              }}
               placeholder={MODE_PLACEHOLDERS[mode]}
               className="w-full resize-none bg-transparent px-6 py-4 text-base leading-relaxed outline-none placeholder:text-muted-foreground/60 min-h-[120px] max-h-[400px]"
               rows={4}
@@ -204,6 +221,8 @@ export function PromptInput({ value, onChange, mode, model = 'seedream-4-5', cla
           </div>
         </div>
 
+        {matrix && <PromptMatrixPanel {...matrix} />}
+
         {/* Helper text */}
         <motion.p
           initial={{ opacity: 0, y: -5 }}
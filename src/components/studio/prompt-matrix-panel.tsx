@@ -0,0 +1,196 @@
+'use client';
+
+import * as React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertCircle, Grid3x3, ChevronDown, Plus, Trash2 } from 'lucide-react';
+import {
+  MAX_MATRIX_PROMPTS,
+  isValidListName,
+  parseListText,
+  type PromptExpansion,
+  type WildcardLists,
+} from '@/lib/prompt-matrix';
+
+interface PromptMatrixPanelProps {
+  expansion: PromptExpansion | null; // Null when the prompt has no matrix tokens
+  lists: WildcardLists;
+  onSaveList: (name: string, values: string[]) => boolean;
+  onDeleteList: (name: string) => void;
+  imagesPerPrompt: number;
+  costPerImage: number; // USD
+}
+
+/**
+ * Prompt matrix preview and wildcard list editor
+ * Shows how many prompts `{a|b}` and `__list__` tokens expand to, and what they cost
+ */
+export function PromptMatrixPanel({
+  expansion,
+  lists,
+  onSaveList,
+  onDeleteList,
+  imagesPerPrompt,
+  costPerImage,
+}: PromptMatrixPanelProps) {
+  const [showLists, setShowLists] = React.useState(false);
+  const [listName, setListName] = React.useState('');
+  const [listText, setListText] = React.useState('');
+  const [listError, setListError] = React.useState<string | null>(null);
+
+  const listNames = Object.keys(lists).sort();
+  const isOverLimit = expansion !== null && expansion.total > MAX_MATRIX_PROMPTS;
+  const imageCount = (expansion?.total ?? 0) * imagesPerPrompt;
+
+  const handleSave = () => {
+    const name = listName.trim();
+    if (!isValidListName(name)) {
+      setListError('Use letters, numbers, dashes and single underscores');
+      return;
+    }
+    if (!onSaveList(name, parseListText(listText))) {
+      setListError('Add at least one value, one per line');
+      return;
+    }
+    setListName('');
+    setListText('');
+    setListError(null);
+  };
+
+  const handleEdit = (name: string) => {
+    setListName(name);
+    setListText(lists[name].join('\n'));
+    setListError(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Expansion summary */}
+      <AnimatePresence>
+        {expansion && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="rounded-xl border border-ocean-500/30 bg-gradient-to-br from-ocean-500/10 to-dream-500/5 p-4 space-y-3"
+          >
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm font-semibold">
+                <Grid3x3 className="h-4 w-4 text-ocean-500" />
+                {expansion.total} prompt{expansion.total === 1 ? '' : 's'}
+              </div>
+              {expansion.unknownLists.length === 0 && !isOverLimit && (
+                <div className="text-xs text-muted-foreground">
+                  {imageCount} image{imageCount === 1 ? '' : 's'} · ~${(imageCount * costPerImage).toFixed(2)}
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-1.5">
+              {expansion.dimensions.map(dimension => (
+                <span
+                  key={dimension.token}
+                  className="rounded-full border border-border bg-card px-2.5 py-0.5 text-xs"
+                  title={dimension.values.join(', ')}
+                >
+                  <span className="font-mono text-muted-foreground">{dimension.token}</span>
+                  <span className="ml-1.5 font-medium">×{dimension.values.length}</span>
+                </span>
+              ))}
+            </div>
+
+            {expansion.unknownLists.length > 0 && (
+              <p className="flex items-center gap-2 text-xs text-orange-600 dark:text-orange-400">
+                <AlertCircle className="h-3.5 w-3.5" />
+                No saved list for {expansion.unknownLists.map(name => `__${name}__`).join(', ')}
+              </p>
+            )}
+            {isOverLimit && (
+              <p className="flex items-center gap-2 text-xs text-orange-600 dark:text-orange-400">
+                <AlertCircle className="h-3.5 w-3.5" />
+                Too many combinations. Reduce the options to {MAX_MATRIX_PROMPTS} prompts or fewer.
+              </p>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Wildcard lists */}
+      <div>
+        <button
+          type="button"
+          onClick={() => setShowLists(!showLists)}
+          className="flex items-center gap-1.5 text-xs text-muted-foreground transition-colors hover:text-ocean-500"
+          aria-expanded={showLists}
+        >
+          <ChevronDown className={`h-3.5 w-3.5 transition-transform ${showLists ? 'rotate-180' : ''}`} />
+          Wildcard lists ({listNames.length}) · use {'{a|b}'} or __name__ in your prompt
+        </button>
+
+        <AnimatePresence>
+          {showLists && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="overflow-hidden"
+            >
+              <div className="mt-3 space-y-3 rounded-xl border border-border bg-muted/30 p-4">
+                {listNames.length > 0 && (
+                  <ul className="space-y-1.5">
+                    {listNames.map(name => (
+                      <li key={name} className="flex items-center justify-between gap-2 text-xs">
+                        <button
+                          type="button"
+                          onClick={() => handleEdit(name)}
+                          className="min-w-0 truncate text-left hover:text-ocean-500"
+                          title="Edit list"
+                        >
+                          <span className="font-mono font-medium">__{name}__</span>
+                          <span className="ml-2 text-muted-foreground">{lists[name].join(', ')}</span>
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => onDeleteList(name)}
+                          className="flex-shrink-0 rounded p-1 text-muted-foreground transition-colors hover:text-red-500"
+                          aria-label={`Delete list ${name}`}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="space-y-2">
+                  <input
+                    value={listName}
+                    onChange={(e) => setListName(e.target.value)}
+                    placeholder="List name (e.g. styles)"
+                    className="w-full rounded-lg border border-border bg-card px-3 py-2 text-xs outline-none focus:border-ocean-500"
+                  />
+                  <textarea
+                    value={listText}
+                    onChange={(e) => setListText(e.target.value)}
+                    placeholder={'One value per line\nwatercolor\noil painting\npencil sketch'}
+                    rows={4}
+                    className="w-full resize-y rounded-lg border border-border bg-card px-3 py-2 text-xs outline-none focus:border-ocean-500"
+                  />
+                  {listError && <p className="text-xs text-red-500">{listError}</p>}
+                  <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={!listName.trim() || !listText.trim()}
+                    className="inline-flex items-center gap-1.5 rounded-lg border border-border px-3 py-1.5 text-xs font-medium transition-colors hover:border-ocean-500/50 hover:text-ocean-500 disabled:opacity-50"
+                  >
+                    <Plus className="h-3.5 w-3.5" />
+                    {lists[listName.trim()] ? 'Update list' : 'Save list'}
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+}
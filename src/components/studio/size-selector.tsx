@@ -13,7 +13,7 @@ interface SizeSelectorProps {
   className?: string;
 }
 
-interface SizeOption {
+export interface SizeOption {
   id: string;
   label: string;
   ratio: string;
@@ -23,7 +23,7 @@ interface SizeOption {
 }
 
 // All available size options (will be filtered by model constraints)
-const ALL_SIZE_OPTIONS: SizeOption[] = [
+export const ALL_SIZE_OPTIONS: SizeOption[] = [
   // Square
   { id: '1:1', label: '1:1', ratio: 'Square', dimensions: '2048×2048', aspectRatio: 1, category: 'square' },
 
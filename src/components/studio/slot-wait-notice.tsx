@@ -0,0 +1,63 @@
+'use client';
+
+import * as React from 'react';
+import { motion } from 'framer-motion';
+import { Hourglass, StopCircle } from 'lucide-react';
+import type { SlotWait } from '@/lib/slot-retry';
+
+interface SlotWaitNoticeProps {
+  wait: SlotWait;
+  onCancel?: () => void;
+  className?: string;
+}
+
+/**
+ * "Waiting for slot" state shown while a rate-limited request retries
+ * Counts down to the next attempt advertised by Retry-After
+ */
+export function SlotWaitNotice({ wait, onCancel, className = '' }: SlotWaitNoticeProps) {
+  const [secondsLeft, setSecondsLeft] = React.useState(wait.retryAfterSeconds);
+
+  React.useEffect(() => {
+    const update = () => setSecondsLeft(Math.max(0, Math.ceil((wait.retryAt - Date.now()) / 1000)));
+    update();
+    const interval = setInterval(update, 250);
+    return () => clearInterval(interval);
+  }, [wait.retryAt]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -5 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`mx-auto w-full max-w-sm space-y-2 rounded-xl border border-amber-500/30 bg-amber-500/10 p-4 ${className}`}
+      role="status"
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Hourglass className="h-4 w-4 text-amber-500" />
+          <span className="text-sm font-semibold">Waiting for slot</span>
+        </div>
+
+        {onCancel && (
+          <motion.button
+            onClick={onCancel}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            className="inline-flex items-center gap-1.5 rounded-lg border border-border px-3 py-1.5 text-xs font-medium transition-colors hover:border-red-500/50 hover:text-red-500"
+            aria-label="Stop waiting"
+          >
+            <StopCircle className="h-3.5 w-3.5" />
+            Cancel
+          </motion.button>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {secondsLeft > 0 ? `Retrying in ${secondsLeft}s` : 'Retrying now'} (attempt {wait.attempt} of {wait.maxAttempts})
+      </p>
+      {wait.message && (
+        <p className="text-xs text-amber-700 dark:text-amber-400">{wait.message}</p>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import * as React from 'react';
+import { motion } from 'framer-motion';
+import { Radio } from 'lucide-react';
+
+interface StreamToggleProps {
+  enabled: boolean;
+  onChange: (enabled: boolean) => void;
+  className?: string;
+}
+
+/**
+ * Toggle for streaming output (stream: true)
+ * Images appear one by one instead of after the whole batch finishes
+ */
+export function StreamToggle({ enabled, onChange, className = '' }: StreamToggleProps) {
+  return (
+    <div className={className}>
+      <div className="space-y-3">
+        {/* Label */}
+        <label className="flex items-center gap-2 text-sm font-semibold">
+          <Radio className="h-4 w-4 text-muted-foreground" />
+          Streaming
+        </label>
+
+        {/* Toggle button */}
+        <motion.button
+          onClick={() => onChange(!enabled)}
+          whileHover={{ scale: 1.01 }}
+          whileTap={{ scale: 0.99 }}
+          className={`w-full rounded-xl border p-4 transition-all ${
+            enabled
+              ? 'border-ocean-500 bg-gradient-to-br from-ocean-500/10 to-dream-500/10'
+              : 'border-border hover:border-ocean-500/30 bg-card'
+          }`}
+          role="switch"
+          aria-checked={enabled}
+          aria-label="Streaming output toggle"
+        >
+          <div className="flex items-center gap-3">
+            {/* Toggle switch */}
+            <div
+              className={`relative h-5 w-9 rounded-full transition-colors ${
+                enabled ? 'bg-ocean-500' : 'bg-muted'
+              }`}
+            >
+              <motion.div
+                initial={false}
+                animate={{ x: enabled ? 16 : 2 }}
+                transition={{ type: 'spring', stiffness: 500, damping: 30 }}
+                className="absolute top-0.5 h-4 w-4 rounded-full bg-white shadow-sm"
+              />
+            </div>
+
+            <div className="text-left">
+              <div className={`text-sm font-semibold ${enabled ? 'text-foreground' : 'text-muted-foreground'}`}>
+                {enabled ? 'Progressive results' : 'All at once'}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {enabled
+                  ? 'Each image is shown the moment it finishes'
+                  : 'Wait for the full response before showing images'}
+              </div>
+            </div>
+          </div>
+        </motion.button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import * as React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertCircle, SlidersHorizontal } from 'lucide-react';
+import { ALL_SIZE_OPTIONS } from '@/components/studio/size-selector';
+import { estimateImageCost } from '@/constants/parameters';
+import {
+  MAX_SWEEP_COMBINATIONS,
+  SWEEP_MODEL_LABELS,
+  SWEEP_QUALITY_LABELS,
+  countSweepCombinations,
+  type SweepSelection,
+} from '@/lib/parameter-sweep';
+import type { Quality, SeedreamModel } from '@/types/api';
+
+interface SweepPanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  selection: SweepSelection;
+  onSelectionChange: (selection: SweepSelection) => void;
+  imagesPerCombination: number;
+  className?: string;
+}
+
+const MODELS: SeedreamModel[] = ['seedream-4-0', 'seedream-4-5'];
+const QUALITIES: Quality[] = ['standard', 'fast'];
+
+/**
+ * Toggle a value in a list, keeping the options' order
+ */
+function toggleValue<T>(list: T[], value: T, order: T[]): T[] {
+  const next = list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+  return order.filter(item => next.includes(item));
+}
+
+function Chip({ selected, onClick, children }: { selected: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={selected}
+      className={`rounded-lg border px-3 py-1.5 text-xs font-medium transition-colors ${
+        selected
+          ? 'border-ocean-500 bg-ocean-500/10 text-foreground'
+          : 'border-border text-muted-foreground hover:border-ocean-500/30 hover:text-foreground'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Parameter sweep settings
+ * Runs the same prompt across every selected model × quality × size
+ */
+export function SweepPanel({
+  enabled,
+  onEnabledChange,
+  selection,
+  onSelectionChange,
+  imagesPerCombination,
+  className = '',
+}: SweepPanelProps) {
+  const total = countSweepCombinations(selection);
+  const cost = selection.models.reduce(
+    (sum, model) => sum + estimateImageCost(model, imagesPerCombination * selection.qualities.length * selection.sizes.length),
+    0
+  );
+
+  return (
+    <div className={className}>
+      <div className="space-y-3">
+        {/* Label and switch */}
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm font-semibold">
+            <SlidersHorizontal className="h-4 w-4 text-muted-foreground" />
+            Parameter Sweep
+          </label>
+          <button
+            type="button"
+            onClick={() => onEnabledChange(!enabled)}
+            className={`relative h-5 w-9 rounded-full transition-colors ${enabled ? 'bg-ocean-500' : 'bg-muted'}`}
+            role="switch"
+            aria-checked={enabled}
+            aria-label="Parameter sweep toggle"
+          >
+            <motion.div
+              initial={false}
+              animate={{ x: enabled ? 16 : 2 }}
+              transition={{ type: 'spring', stiffness: 500, damping: 30 }}
+              className="absolute top-0.5 h-4 w-4 rounded-full bg-white shadow-sm"
+            />
+          </button>
+        </div>
+
+        {!enabled && (
+          <p className="text-xs text-muted-foreground">
+            Compare models, quality levels and sizes side by side with the same prompt.
+          </p>
+        )}
+
+        <AnimatePresence>
+          {enabled && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="overflow-hidden"
+            >
+              <div className="space-y-4 rounded-xl border border-ocean-500/30 bg-gradient-to-br from-ocean-500/10 to-dream-500/5 p-4">
+                <div className="space-y-2">
+                  <div className="text-xs font-medium text-muted-foreground">Models</div>
+                  <div className="flex flex-wrap gap-2">
+                    {MODELS.map(model => (
+                      <Chip
+                        key={model}
+                        selected={selection.models.includes(model)}
+                        onClick={() => onSelectionChange({ ...selection, models: toggleValue(selection.models, model, MODELS) })}
+                      >
+                        {SWEEP_MODEL_LABELS[model]}
+                      </Chip>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="text-xs font-medium text-muted-foreground">Quality</div>
+                  <div className="flex flex-wrap gap-2">
+                    {QUALITIES.map(quality => (
+                      <Chip
+                        key={quality}
+                        selected={selection.qualities.includes(quality)}
+                        onClick={() => onSelectionChange({ ...selection, qualities: toggleValue(selection.qualities, quality, QUALITIES) })}
+                      >
+                        {SWEEP_QUALITY_LABELS[quality]}
+                      </Chip>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="text-xs font-medium text-muted-foreground">Sizes</div>
+                  <div className="flex flex-wrap gap-2">
+                    {ALL_SIZE_OPTIONS.map(option => (
+                      <Chip
+                        key={option.id}
+                        selected={selection.sizes.includes(option.dimensions)}
+                        onClick={() => onSelectionChange({
+                          ...selection,
+                          sizes: toggleValue(selection.sizes, option.dimensions, ALL_SIZE_OPTIONS.map(item => item.dimensions)),
+                        })}
+                      >
+                        {option.label} <span className="text-muted-foreground">{option.dimensions}</span>
+                      </Chip>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Summary */}
+                <div className="flex flex-wrap items-center justify-between gap-2 border-t border-border/50 pt-3 text-xs">
+                  {total === 0 ? (
+                    <span className="flex items-center gap-2 text-orange-600 dark:text-orange-400">
+                      <AlertCircle className="h-3.5 w-3.5" />
+                      Pick at least one model, quality and size
+                    </span>
+                  ) : total > MAX_SWEEP_COMBINATIONS ? (
+                    <span className="flex items-center gap-2 text-orange-600 dark:text-orange-400">
+                      <AlertCircle className="h-3.5 w-3.5" />
+                      {total} combinations. Pick {MAX_SWEEP_COMBINATIONS} or fewer.
+                    </span>
+                  ) : (
+                    <>
+                      <span className="font-semibold">{total} combination{total === 1 ? '' : 's'}</span>
+                      <span className="text-muted-foreground">
+                        {total * imagesPerCombination} image{total * imagesPerCombination === 1 ? '' : 's'} · ~${cost.toFixed(2)}
+                      </span>
+                    </>
+                  )}
+                </div>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+}
@@ -2,26 +2,42 @@
 
 import * as React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Settings2, ChevronDown, Zap, Clock, Image } from 'lucide-react';
+import { Settings2, ChevronDown, Zap, Clock, Image, Dices, Lock, Shuffle, Camera } from 'lucide-react';
+import { VIDEO_CONSTRAINTS } from '@/constants/video-parameters';
 import type { VideoServiceTier } from '@/types/video-api';
 
 interface AdvancedOptionsProps {
   serviceTier: VideoServiceTier;
   returnLastFrame: boolean;
   cameraFixed?: boolean;
+  seed?: number | null; // null = random seed per task
+  expiresAfter?: number; // Seconds a flex task may wait before it expires
   onServiceTierChange: (tier: VideoServiceTier) => void;
   onReturnLastFrameChange: (enabled: boolean) => void;
   onCameraFixedChange?: (enabled: boolean) => void;
+  onSeedChange?: (seed: number | null) => void;
+  onExpiresAfterChange?: (seconds: number) => void;
   className?: string;
 }
 
+// Flex expiry choices in hours (the API accepts 1-72)
+const EXPIRY_HOURS = [1, 6, 12, 24, 48, 72];
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * (VIDEO_CONSTRAINTS.seed.max + 1));
+}
+
 export function AdvancedOptions({
   serviceTier,
   returnLastFrame,
   cameraFixed = false,
+  seed = null,
+  expiresAfter = VIDEO_CONSTRAINTS.expiresAfter.default,
   onServiceTierChange,
   onReturnLastFrameChange,
   onCameraFixedChange,
+  onSeedChange,
+  onExpiresAfterChange,
   className = ''
 }: AdvancedOptionsProps) {
   const [isExpanded, setIsExpanded] = React.useState(false);
@@ -52,7 +68,11 @@ export function AdvancedOptions({
               <div className="text-left">
                 <h3 className="text-sm font-semibold">Advanced Options</h3>
                 <p className="text-xs text-muted-foreground">
-                  {isExpanded ? 'Click to collapse' : 'Service tier, last frame export, and more'}
+                  {isExpanded
+                    ? 'Click to collapse'
+                    : seed !== null
+                      ? `Seed locked to ${seed}`
+                      : 'Service tier, last frame export, seed, and more'}
                 </p>
               </div>
             </div>
@@ -149,10 +169,40 @@ export function AdvancedOptions({
                       <>
                         <span className="font-medium text-green-600 dark:text-green-400">Flex tier:</span>{' '}
                         Save 50% on costs. Generation may take several minutes. Use for batch jobs or when time isn't critical.
+                        Pending tasks are picked up again if you reload or reopen the page.
                       </>
                     )}
                   </p>
                 </div>
+
+                {serviceTier === 'flex' && onExpiresAfterChange && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs font-medium">Expire unfinished tasks after</span>
+                      <span className="text-xs text-muted-foreground">Counted from submission</span>
+                    </div>
+                    <div className="grid grid-cols-6 gap-1.5">
+                      {EXPIRY_HOURS.map(hours => {
+                        const isSelected = expiresAfter === hours * 3600;
+                        return (
+                          <button
+                            key={hours}
+                            type="button"
+                            onClick={() => onExpiresAfterChange(hours * 3600)}
+                            className={`rounded-lg border px-2 py-1.5 text-xs font-medium transition-all ${
+                              isSelected
+                                ? 'border-green-500 bg-green-500/10 text-foreground'
+                                : 'border-border bg-background text-muted-foreground hover:border-green-500/30'
+                            }`}
+                            aria-pressed={isSelected}
+                          >
+                            {hours}h
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Return Last Frame */}
@@ -221,6 +271,143 @@ export function AdvancedOptions({
                 </div>
               </div>
 
+              {/* Camera Fixed */}
+              {onCameraFixedChange && (
+                <div className="rounded-xl border border-border bg-card p-4 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Camera className="w-4 h-4 text-green-500" />
+                    <h4 className="text-sm font-semibold">Fixed Camera</h4>
+                  </div>
+
+                  <motion.button
+                    onClick={() => onCameraFixedChange(!cameraFixed)}
+                    whileHover={{ scale: 1.01 }}
+                    whileTap={{ scale: 0.99 }}
+                    className={`w-full rounded-lg border p-3 transition-all ${
+                      cameraFixed
+                        ? 'border-green-500 bg-gradient-to-br from-green-500/10 to-teal-500/5'
+                        : 'border-border hover:border-green-500/30 bg-background'
+                    }`}
+                  >
+                    <div className="flex items-center gap-3">
+                      {/* Toggle switch */}
+                      <div
+                        className={`relative h-5 w-9 rounded-full transition-colors ${
+                          cameraFixed ? 'bg-green-500' : 'bg-muted'
+                        }`}
+                      >
+                        <motion.div
+                          initial={false}
+                          animate={{
+                            x: cameraFixed ? 16 : 2,
+                          }}
+                          transition={{ type: 'spring', stiffness: 500, damping: 30 }}
+                          className="absolute top-0.5 h-4 w-4 rounded-full bg-white shadow-sm"
+                        />
+                      </div>
+
+                      <div className="text-left">
+                        <div className={`text-sm font-semibold ${cameraFixed ? 'text-foreground' : 'text-muted-foreground'}`}>
+                          {cameraFixed ? 'Enabled' : 'Disabled'}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          Keep the camera still; only the subject moves
+                        </div>
+                      </div>
+                    </div>
+                  </motion.button>
+                </div>
+              )}
+
+              {/* Seed */}
+              {onSeedChange && (
+                <div className="rounded-xl border border-border bg-card p-4 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Dices className="w-4 h-4 text-green-500" />
+                    <h4 className="text-sm font-semibold">Seed</h4>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <motion.button
+                      onClick={() => onSeedChange(null)}
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      className={`rounded-lg border p-3 transition-all ${
+                        seed === null
+                          ? 'border-green-500 bg-gradient-to-br from-green-500/10 to-teal-500/5 shadow-md'
+                          : 'border-border hover:border-green-500/30 bg-background'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2 mb-1">
+                        <Shuffle className={`w-3.5 h-3.5 ${seed === null ? 'text-green-500' : 'text-muted-foreground'}`} />
+                        <span className={`text-sm font-semibold ${seed === null ? 'text-foreground' : 'text-muted-foreground'}`}>
+                          Random
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground text-left">
+                        A new seed for every video
+                      </p>
+                    </motion.button>
+
+                    <motion.button
+                      onClick={() => seed === null && onSeedChange(randomSeed())}
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      className={`rounded-lg border p-3 transition-all ${
+                        seed !== null
+                          ? 'border-green-500 bg-gradient-to-br from-green-500/10 to-teal-500/5 shadow-md'
+                          : 'border-border hover:border-green-500/30 bg-background'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2 mb-1">
+                        <Lock className={`w-3.5 h-3.5 ${seed !== null ? 'text-green-500' : 'text-muted-foreground'}`} />
+                        <span className={`text-sm font-semibold ${seed !== null ? 'text-foreground' : 'text-muted-foreground'}`}>
+                          Locked
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground text-left">
+                        Reuse one seed to compare prompts
+                      </p>
+                    </motion.button>
+                  </div>
+
+                  {seed !== null && (
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min={VIDEO_CONSTRAINTS.seed.min}
+                        max={VIDEO_CONSTRAINTS.seed.max}
+                        step={1}
+                        value={seed}
+                        onChange={(e) => {
+                          const value = Number(e.target.value);
+                          if (e.target.value !== '' && Number.isInteger(value)) onSeedChange(value);
+                        }}
+                        className="flex-1 rounded-lg border border-border bg-background px-3 py-2 font-mono text-sm outline-none focus:border-green-500"
+                        aria-label="Seed"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => onSeedChange(randomSeed())}
+                        className="rounded-lg border border-border p-2 text-muted-foreground transition-colors hover:border-green-500/50 hover:text-green-500"
+                        title="Pick a new random seed"
+                        aria-label="Pick a new random seed"
+                      >
+                        <Dices className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+
+                  <div className="rounded-lg bg-muted/50 p-2.5 border border-border/50">
+                    <p className="text-xs text-muted-foreground">
+                      <span className="font-medium">Tip:</span>{' '}
+                      The same seed with the same settings gives a similar video, so changing only the prompt shows what
+                      the prompt change did. Every finished video shows the seed it used.
+                    </p>
+                  </div>
+                </div>
+              )}
+
               {/* Text Commands Info */}
               <div className="rounded-xl border border-green-500/20 bg-green-500/5 p-4 space-y-2">
                 <div className="flex items-center gap-2">
@@ -232,18 +419,18 @@ export function AdvancedOptions({
                   </h4>
                 </div>
                 <p className="text-xs text-muted-foreground leading-relaxed">
-                  You can add advanced commands to your prompt for fine-grained control:
+                  Commands typed at the end of the prompt are moved into the matching controls when you leave the prompt:
                 </p>
                 <div className="space-y-1 text-xs font-mono">
                   <div className="text-muted-foreground">
-                    <span className="text-green-600 dark:text-green-400">--cf true</span> - Fix camera position (no movement)
+                    <span className="text-green-600 dark:text-green-400">--rt 16:9 --dur 8 --rs 720p</span> - Ratio, duration, resolution
                   </div>
                   <div className="text-muted-foreground">
-                    <span className="text-green-600 dark:text-green-400">--wm true</span> - Add watermark to video
+                    <span className="text-green-600 dark:text-green-400">--cf true --seed 42</span> - Fixed camera, locked seed
                   </div>
                 </div>
                 <p className="text-xs text-muted-foreground/70 pt-1">
-                  These commands are automatically added based on your settings above.
+                  The controls are then sent as commands, so the prompt never carries a conflicting copy.
                 </p>
               </div>
             </motion.div>
@@ -0,0 +1,81 @@
+'use client';
+
+import * as React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Terminal, Check, AlertTriangle, XCircle, X } from 'lucide-react';
+import type { PromptCommandNote } from '@/lib/prompt-commands';
+
+interface PromptCommandsBarProps {
+  commands: string; // Commands built from the controls (buildTextCommands)
+  notes: PromptCommandNote[]; // From the last time typed commands were moved into the controls
+  onDismissNotes: () => void;
+  className?: string;
+}
+
+const NOTE_STYLES: Record<PromptCommandNote['kind'], { icon: typeof Check; className: string }> = {
+  applied: { icon: Check, className: 'text-green-600 dark:text-green-400' },
+  overridden: { icon: AlertTriangle, className: 'text-amber-600 dark:text-amber-400' },
+  duplicate: { icon: AlertTriangle, className: 'text-amber-600 dark:text-amber-400' },
+  invalid: { icon: XCircle, className: 'text-red-600 dark:text-red-400' },
+};
+
+/**
+ * Commands sent with the video prompt, and what happened to typed ones
+ */
+export function PromptCommandsBar({ commands, notes, onDismissNotes, className = '' }: PromptCommandsBarProps) {
+  const sent = commands.trim().split(/\s+(?=--)/).filter(Boolean);
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {sent.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+          <Terminal className="h-3.5 w-3.5" />
+          <span>Sent with the prompt:</span>
+          {sent.map(command => (
+            <code key={command} className="rounded bg-muted px-1.5 py-0.5 font-mono text-[11px] text-foreground">
+              {command}
+            </code>
+          ))}
+        </div>
+      )}
+
+      <AnimatePresence>
+        {notes.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="relative rounded-lg border border-border bg-muted/30 p-3 pr-8">
+              <button
+                type="button"
+                onClick={onDismissNotes}
+                className="absolute right-2 top-2 rounded p-0.5 text-muted-foreground hover:text-foreground"
+                aria-label="Dismiss"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+              <p className="mb-1.5 text-xs font-medium">Commands taken out of the prompt</p>
+              <ul className="space-y-1">
+                {notes.map((note, index) => {
+                  const style = NOTE_STYLES[note.kind];
+                  const Icon = style.icon;
+                  return (
+                    <li key={`${note.command}-${index}`} className="flex items-start gap-2 text-xs">
+                      <Icon className={`mt-0.5 h-3.5 w-3.5 flex-shrink-0 ${style.className}`} />
+                      <span>
+                        <code className="font-mono">{note.command}</code>{' '}
+                        <span className="text-muted-foreground">{note.message}</span>
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
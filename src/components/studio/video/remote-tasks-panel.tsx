@@ -0,0 +1,254 @@
+'use client';
+
+import * as React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  Cloud,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw,
+  Play,
+  Search,
+  AlertCircle,
+} from 'lucide-react';
+import { useRemoteVideoTasks } from '@/hooks/use-remote-video-tasks';
+import type { VideoTaskStatus, VideoGenerationResult } from '@/types/video-api';
+
+interface RemoteTasksPanelProps {
+  modelId?: string;
+  onOpen: (result: VideoGenerationResult) => void;
+  className?: string;
+}
+
+const STATUS_FILTERS: { value: VideoTaskStatus | 'all'; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'succeeded', label: 'Succeeded' },
+  { value: 'running', label: 'Running' },
+  { value: 'queued', label: 'Queued' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+const STATUS_COLORS: Record<VideoTaskStatus, string> = {
+  queued: 'bg-amber-500/10 text-amber-600 dark:text-amber-400',
+  running: 'bg-teal-500/10 text-teal-600 dark:text-teal-400',
+  succeeded: 'bg-green-500/10 text-green-600 dark:text-green-400',
+  failed: 'bg-red-500/10 text-red-600 dark:text-red-400',
+  expired: 'bg-red-500/10 text-red-600 dark:text-red-400',
+  cancelled: 'bg-muted text-muted-foreground',
+};
+
+/**
+ * Remote tasks panel
+ * Lists video tasks stored on Ark (last 7 days) and reopens finished ones in VideoOutput
+ */
+export function RemoteTasksPanel({ modelId, onOpen, className = '' }: RemoteTasksPanelProps) {
+  const {
+    tasks,
+    total,
+    page,
+    pageCount,
+    filters,
+    loading,
+    error,
+    loadPage,
+    applyFilters,
+    toResult,
+  } = useRemoteVideoTasks(modelId);
+
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [taskIdInput, setTaskIdInput] = React.useState('');
+
+  // Load first page when the panel is opened
+  const handleToggle = () => {
+    const next = !isOpen;
+    setIsOpen(next);
+    if (next && tasks.length === 0 && !loading) {
+      loadPage(1);
+    }
+  };
+
+  const handleStatusChange = (value: VideoTaskStatus | 'all') => {
+    applyFilters({ ...filters, status: value === 'all' ? undefined : value });
+  };
+
+  const handleTaskIdSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const taskIds = taskIdInput
+      .split(/[\s,]+/)
+      .map(id => id.trim())
+      .filter(Boolean);
+    applyFilters({ ...filters, taskIds });
+  };
+
+  const formatTime = (seconds: number) =>
+    new Date(seconds * 1000).toLocaleString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <div className={`rounded-xl border border-border bg-card ${className}`}>
+      {/* Header */}
+      <button
+        onClick={handleToggle}
+        className="flex w-full items-center justify-between gap-3 p-4 text-left"
+        aria-expanded={isOpen}
+      >
+        <div className="flex items-center gap-2">
+          <Cloud className="h-4 w-4 text-green-500" />
+          <span className="text-sm font-semibold">Remote tasks</span>
+          <span className="text-xs text-muted-foreground">Last 7 days on BytePlus</span>
+        </div>
+        <motion.div animate={{ rotate: isOpen ? 180 : 0 }} transition={{ duration: 0.2 }}>
+          <ChevronDown className="h-4 w-4 text-muted-foreground" />
+        </motion.div>
+      </button>
+
+      <AnimatePresence initial={false}>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="overflow-hidden"
+          >
+            <div className="space-y-4 border-t border-border p-4">
+              {/* Filters */}
+              <div className="flex flex-wrap items-center gap-2">
+                {STATUS_FILTERS.map(option => {
+                  const active = (filters.status ?? 'all') === option.value;
+                  return (
+                    <button
+                      key={option.value}
+                      onClick={() => handleStatusChange(option.value)}
+                      disabled={loading}
+                      className={`rounded-lg border px-3 py-1 text-xs font-medium transition-colors ${
+                        active
+                          ? 'border-green-500 bg-green-500/10 text-foreground'
+                          : 'border-border text-muted-foreground hover:border-green-500/30'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  );
+                })}
+
+                <button
+                  onClick={() => loadPage(page)}
+                  disabled={loading}
+                  className="ml-auto inline-flex items-center gap-1.5 rounded-lg border border-border px-3 py-1 text-xs font-medium text-muted-foreground transition-colors hover:text-foreground disabled:opacity-50"
+                  aria-label="Refresh remote tasks"
+                >
+                  <RefreshCw className={`h-3.5 w-3.5 ${loading ? 'animate-spin' : ''}`} />
+                  Refresh
+                </button>
+              </div>
+
+              <form onSubmit={handleTaskIdSearch} className="flex items-center gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+                  <input
+                    type="text"
+                    value={taskIdInput}
+                    onChange={e => setTaskIdInput(e.target.value)}
+                    placeholder="Filter by task IDs (comma separated)"
+                    className="w-full rounded-lg border border-border bg-background py-2 pl-9 pr-3 text-xs font-mono focus:border-green-500 focus:outline-none"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="rounded-lg border border-border px-3 py-2 text-xs font-medium transition-colors hover:border-green-500/50 disabled:opacity-50"
+                >
+                  Search
+                </button>
+              </form>
+
+              {/* Error */}
+              {error && (
+                <div className="flex items-center gap-2 rounded-lg bg-red-500/10 border border-red-500/20 p-3">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0 text-red-500" />
+                  <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+                </div>
+              )}
+
+              {/* Task list */}
+              {!error && tasks.length === 0 && !loading && (
+                <p className="py-6 text-center text-xs text-muted-foreground">No tasks found</p>
+              )}
+
+              {tasks.length > 0 && (
+                <ul className="divide-y divide-border rounded-lg border border-border">
+                  {tasks.map(task => {
+                    const result = toResult(task);
+                    return (
+                      <li key={task.id} className="flex items-center gap-3 p-3">
+                        <div className="min-w-0 flex-1 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span className={`rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase ${STATUS_COLORS[task.status]}`}>
+                              {task.status}
+                            </span>
+                            <span className="truncate font-mono text-xs" title={task.id}>
+                              {task.id}
+                            </span>
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {formatTime(task.created_at)}
+                            {task.status === 'succeeded' && ` · ${task.duration}s · ${task.resolution} · ${task.ratio}`}
+                            {task.error && ` · ${task.error.message}`}
+                          </div>
+                        </div>
+
+                        {result && (
+                          <button
+                            onClick={() => onOpen(result)}
+                            className="inline-flex flex-shrink-0 items-center gap-1.5 rounded-lg bg-gradient-to-r from-green-500 to-teal-500 px-3 py-1.5 text-xs font-medium text-white shadow-sm transition-opacity hover:opacity-90"
+                          >
+                            <Play className="h-3.5 w-3.5" />
+                            Open
+                          </button>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+
+              {/* Pagination */}
+              {total > 0 && (
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>
+                    {total} task{total === 1 ? '' : 's'} · Page {page} of {pageCount}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => loadPage(page - 1)}
+                      disabled={loading || page <= 1}
+                      className="rounded-lg border border-border p-1.5 transition-colors hover:text-foreground disabled:opacity-40"
+                      aria-label="Previous page"
+                    >
+                      <ChevronLeft className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      onClick={() => loadPage(page + 1)}
+                      disabled={loading || page >= pageCount}
+                      className="rounded-lg border border-border p-1.5 transition-colors hover:text-foreground disabled:opacity-40"
+                      aria-label="Next page"
+                    >
+                      <ChevronRight className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
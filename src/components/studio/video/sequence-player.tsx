@@ -0,0 +1,79 @@
+'use client';
+
+import * as React from 'react';
+import { Play } from 'lucide-react';
+
+export interface SequenceClip {
+  id: string;
+  videoUrl: string;
+  duration: number; // Seconds
+  title?: string; // Tooltip, e.g. the clip's prompt
+}
+
+interface SequencePlayerProps {
+  clips: SequenceClip[];
+  renderClipExtra?: (clip: SequenceClip, index: number) => React.ReactNode; // Shown after each clip button
+}
+
+/**
+ * Plays clips back to back in one player
+ * Each clip starts when the previous one ends; the buttons jump to a clip
+ */
+export function SequencePlayer({ clips, renderClipExtra }: SequencePlayerProps) {
+  const [segment, setSegment] = React.useState(0);
+  const [autoPlay, setAutoPlay] = React.useState(false);
+
+  if (clips.length === 0) return null;
+
+  const index = Math.min(segment, clips.length - 1);
+  const current = clips[index];
+
+  const playFrom = (next: number) => {
+    setSegment(next);
+    setAutoPlay(true);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-hidden rounded-xl border border-border bg-black">
+        <video
+          key={current.id}
+          src={current.videoUrl}
+          className="h-auto w-full"
+          controls
+          playsInline
+          autoPlay={autoPlay}
+          onEnded={() => {
+            if (index < clips.length - 1) {
+              playFrom(index + 1);
+            } else {
+              setAutoPlay(false);
+            }
+          }}
+        >
+          Your browser does not support video playback.
+        </video>
+      </div>
+
+      <ol className="flex flex-wrap gap-2">
+        {clips.map((clip, clipIndex) => (
+          <li key={clip.id} className="flex items-center gap-1">
+            <button
+              onClick={() => playFrom(clipIndex)}
+              className={`inline-flex items-center gap-1.5 rounded-lg border px-2.5 py-1 text-xs transition-colors ${
+                clipIndex === index
+                  ? 'border-green-500 bg-green-500/10 text-foreground'
+                  : 'border-border text-muted-foreground hover:text-foreground'
+              }`}
+              title={clip.title}
+            >
+              <Play className="h-3 w-3" />
+              {clipIndex + 1} · {clip.duration}s
+            </button>
+            {renderClipExtra?.(clip, clipIndex)}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
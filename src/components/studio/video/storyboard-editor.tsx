@@ -0,0 +1,271 @@
+'use client';
+
+import * as React from 'react';
+import Image from 'next/image';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Clapperboard, Plus, Trash2, ChevronUp, ChevronDown, ImagePlus, X, Link2 } from 'lucide-react';
+import { DURATION_OPTIONS, VIDEO_CONSTRAINTS } from '@/constants/video-parameters';
+import { MAX_STORYBOARD_SHOTS } from '@/hooks/use-storyboard';
+import type { StoryboardShot } from '@/types/storyboard';
+import type { VideoDuration, VideoRatio } from '@/types/video-api';
+
+interface StoryboardEditorProps {
+  shots: StoryboardShot[];
+  chainFrames: boolean;
+  onChainFramesChange: (enabled: boolean) => void;
+  onAddShot: () => void;
+  onUpdateShot: (id: string, patch: Partial<Omit<StoryboardShot, 'id'>>) => void;
+  onRemoveShot: (id: string) => void;
+  onMoveShot: (id: string, offset: -1 | 1) => void;
+  onRun: () => void;
+  canRun: boolean;
+  className?: string;
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Small first/last frame picker for a shot
+ */
+function FramePicker({
+  label,
+  value,
+  onChange,
+  disabledReason,
+}: {
+  label: string;
+  value?: string;
+  onChange: (value: string | undefined) => void;
+  disabledReason?: string;
+}) {
+  const inputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onChange(await readAsDataUrl(file));
+  };
+
+  if (disabledReason) {
+    return (
+      <div className="flex h-16 w-24 items-center justify-center rounded-lg border border-dashed border-border px-2 text-center text-[10px] text-muted-foreground">
+        {disabledReason}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative h-16 w-24">
+      {value ? (
+        <>
+          <Image src={value} alt={label} fill unoptimized className="rounded-lg border border-border object-cover" />
+          <button
+            type="button"
+            onClick={() => onChange(undefined)}
+            className="absolute -right-1.5 -top-1.5 rounded-full bg-black/70 p-0.5 text-white"
+            aria-label={`Remove ${label.toLowerCase()}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </>
+      ) : (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          className="flex h-full w-full flex-col items-center justify-center gap-1 rounded-lg border border-dashed border-border text-[10px] text-muted-foreground transition-colors hover:border-green-500/50 hover:text-green-500"
+        >
+          <ImagePlus className="h-4 w-4" />
+          {label}
+        </button>
+      )}
+      <input ref={inputRef} type="file" accept="image/*" className="hidden" onChange={handleFile} />
+    </div>
+  );
+}
+
+/**
+ * Multi-shot storyboard editor for Seedance
+ * Each shot has its own prompt, duration, ratio and optional frames
+ */
+export function StoryboardEditor({
+  shots,
+  chainFrames,
+  onChainFramesChange,
+  onAddShot,
+  onUpdateShot,
+  onRemoveShot,
+  onMoveShot,
+  onRun,
+  canRun,
+  className = '',
+}: StoryboardEditorProps) {
+  const isChained = chainFrames && shots.length > 1;
+  const totalSeconds = shots.reduce((sum, shot) => sum + (shot.duration === -1 ? 0 : shot.duration), 0);
+  const hasAuto = shots.some(shot => shot.duration === -1);
+  const isReady = shots.every(shot => shot.prompt.trim());
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm font-semibold">
+          <Clapperboard className="h-4 w-4 text-green-500" />
+          Storyboard
+          <span className="text-xs font-normal text-muted-foreground">
+            {shots.length} shot{shots.length === 1 ? '' : 's'} · {totalSeconds}s{hasAuto ? ' + auto' : ''}
+          </span>
+        </div>
+        <label className="flex cursor-pointer items-center gap-2 text-xs text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={chainFrames}
+            onChange={(e) => onChainFramesChange(e.target.checked)}
+            className="accent-green-500"
+          />
+          <Link2 className="h-3.5 w-3.5" />
+          Start each shot from the previous shot&apos;s last frame
+        </label>
+      </div>
+
+      {/* Shots */}
+      <ol className="space-y-3">
+        <AnimatePresence initial={false}>
+          {shots.map((shot, index) => {
+            const chainedFirstFrame = isChained && index > 0;
+            const hasFirstFrame = chainedFirstFrame || Boolean(shot.firstFrame);
+
+            return (
+              <motion.li
+                key={shot.id}
+                layout
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: 'auto' }}
+                exit={{ opacity: 0, height: 0 }}
+                className="rounded-xl border border-border bg-card p-4"
+              >
+                <div className="flex flex-col gap-3 sm:flex-row">
+                  <div className="flex items-start gap-2 sm:flex-col">
+                    <span className="flex h-7 w-7 items-center justify-center rounded-full bg-green-500/10 text-xs font-semibold text-green-600 dark:text-green-400">
+                      {index + 1}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => onMoveShot(shot.id, -1)}
+                      disabled={index === 0}
+                      className="rounded p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                      aria-label="Move shot up"
+                    >
+                      <ChevronUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onMoveShot(shot.id, 1)}
+                      disabled={index === shots.length - 1}
+                      className="rounded p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                      aria-label="Move shot down"
+                    >
+                      <ChevronDown className="h-4 w-4" />
+                    </button>
+                  </div>
+
+                  <div className="min-w-0 flex-1 space-y-3">
+                    <textarea
+                      value={shot.prompt}
+                      onChange={(e) => onUpdateShot(shot.id, { prompt: e.target.value })}
+                      placeholder={index === 0 ? 'Opening shot: describe the scene and action...' : 'What happens next...'}
+                      rows={2}
+                      className="w-full resize-y rounded-lg border border-border bg-background px-3 py-2 text-sm outline-none focus:border-green-500"
+                    />
+
+                    <div className="flex flex-wrap items-end gap-3">
+                      <label className="space-y-1 text-xs text-muted-foreground">
+                        <span className="block">Duration</span>
+                        <select
+                          value={shot.duration}
+                          onChange={(e) => onUpdateShot(shot.id, { duration: Number(e.target.value) as VideoDuration })}
+                          className="rounded-lg border border-border bg-background px-2 py-1.5 text-xs text-foreground"
+                        >
+                          {DURATION_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="space-y-1 text-xs text-muted-foreground">
+                        <span className="block">Ratio</span>
+                        <select
+                          value={shot.ratio}
+                          onChange={(e) => onUpdateShot(shot.id, { ratio: e.target.value as VideoRatio })}
+                          className="rounded-lg border border-border bg-background px-2 py-1.5 text-xs text-foreground"
+                        >
+                          {VIDEO_CONSTRAINTS.ratios.map(ratio => (
+                            <option key={ratio} value={ratio}>{ratio === 'adaptive' ? 'Adaptive' : ratio}</option>
+                          ))}
+                        </select>
+                      </label>
+
+                      <div className="flex gap-2">
+                        <FramePicker
+                          label="First frame"
+                          value={shot.firstFrame}
+                          onChange={(firstFrame) => onUpdateShot(shot.id, { firstFrame })}
+                          disabledReason={chainedFirstFrame ? 'Previous shot’s last frame' : undefined}
+                        />
+                        <FramePicker
+                          label="Last frame"
+                          value={shot.lastFrame}
+                          onChange={(lastFrame) => onUpdateShot(shot.id, { lastFrame })}
+                          disabledReason={hasFirstFrame ? undefined : 'Add a first frame first'}
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  <button
+                    type="button"
+                    onClick={() => onRemoveShot(shot.id)}
+                    disabled={shots.length === 1}
+                    className="self-start rounded p-1 text-muted-foreground transition-colors hover:text-red-500 disabled:opacity-30"
+                    aria-label="Remove shot"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </motion.li>
+            );
+          })}
+        </AnimatePresence>
+      </ol>
+
+      {/* Actions */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <button
+          type="button"
+          onClick={onAddShot}
+          disabled={shots.length >= MAX_STORYBOARD_SHOTS}
+          className="inline-flex items-center gap-1.5 rounded-lg border border-border px-3 py-1.5 text-xs font-medium transition-colors hover:border-green-500/50 hover:text-green-500 disabled:opacity-50"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add shot
+        </button>
+        <motion.button
+          type="button"
+          onClick={onRun}
+          disabled={!canRun || !isReady}
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          className="rounded-xl bg-gradient-to-r from-green-500 to-teal-500 px-5 py-2 text-sm font-semibold text-white shadow-lg transition-all disabled:cursor-not-allowed disabled:opacity-50"
+          title={isReady ? undefined : 'Every shot needs a prompt'}
+        >
+          Run {shots.length} Shot{shots.length === 1 ? '' : 's'}
+        </motion.button>
+      </div>
+    </div>
+  );
+}
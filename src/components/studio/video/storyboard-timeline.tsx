@@ -0,0 +1,144 @@
+'use client';
+
+import * as React from 'react';
+import { RotateCcw, Trash2, Link2 } from 'lucide-react';
+import { SequencePlayer } from '@/components/studio/video/sequence-player';
+import type { GenerationJob } from '@/types/jobs';
+import type { StoryboardRun, StoryboardShotStatus } from '@/types/storyboard';
+
+interface StoryboardTimelineProps {
+  run: StoryboardRun;
+  jobs: GenerationJob[];
+  shotStatus: (run: StoryboardRun, index: number) => StoryboardShotStatus;
+  onRegenerateShot: (runId: string, index: number) => void;
+  onSelectJob: (id: string) => void;
+  onRemove: (runId: string) => void;
+  className?: string;
+}
+
+const STATUS_STYLES: Record<StoryboardShotStatus, { label: string; className: string }> = {
+  waiting: { label: 'Waiting', className: 'border-border text-muted-foreground' },
+  blocked: { label: 'Blocked', className: 'border-amber-500/40 bg-amber-500/10 text-amber-600 dark:text-amber-400' },
+  queued: { label: 'Queued', className: 'border-border text-muted-foreground' },
+  running: { label: 'Running', className: 'border-green-500/40 bg-green-500/10 text-green-600 dark:text-green-400 animate-pulse' },
+  succeeded: { label: 'Done', className: 'border-green-500/60 bg-green-500/15 text-green-700 dark:text-green-300' },
+  failed: { label: 'Failed', className: 'border-red-500/40 bg-red-500/10 text-red-600 dark:text-red-400' },
+  cancelled: { label: 'Cancelled', className: 'border-border text-muted-foreground line-through' },
+};
+
+const AUTO_DURATION_WIDTH = 8; // Seconds used for the width of an auto-duration shot
+
+/**
+ * Timeline of one storyboard run
+ * Shot widths follow their durations; finished shots play back as one sequence
+ */
+export function StoryboardTimeline({
+  run,
+  jobs,
+  shotStatus,
+  onRegenerateShot,
+  onSelectJob,
+  onRemove,
+  className = '',
+}: StoryboardTimelineProps) {
+  const shots = run.shots.map((shot, index) => {
+    const jobId = run.shotJobIds[index];
+    const job = jobs.find(item => item.id === jobId);
+    const result = job?.kind === 'video' ? job.result : undefined;
+    return {
+      shot,
+      index,
+      jobId,
+      result,
+      status: shotStatus(run, index),
+      seconds: result?.actualDuration ?? (shot.duration === -1 ? AUTO_DURATION_WIDTH : shot.duration),
+    };
+  });
+
+  const clips = shots.flatMap(item => item.status === 'succeeded' && item.result ? [{
+    id: `${item.shot.id}-${item.jobId}`,
+    videoUrl: item.result.videoUrl,
+    duration: item.result.actualDuration,
+    title: item.shot.prompt,
+  }] : []);
+  const totalSeconds = shots.reduce((sum, item) => sum + item.seconds, 0);
+  const isBusy = shots.some(item => item.status === 'queued' || item.status === 'running' || item.status === 'waiting');
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          {run.chainFrames && <Link2 className="h-3.5 w-3.5 text-green-500" />}
+          {new Date(run.createdAt).toLocaleTimeString()} · {clips.length}/{shots.length} shots · {totalSeconds}s
+        </span>
+        <button
+          type="button"
+          onClick={() => onRemove(run.id)}
+          disabled={isBusy}
+          className="rounded p-1 transition-colors hover:text-red-500 disabled:opacity-30"
+          aria-label="Remove storyboard run"
+          title={isBusy ? 'Wait for the run to finish' : 'Remove from the timeline'}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      {/* Timeline */}
+      <div className="flex gap-1 overflow-x-auto pb-1">
+        {shots.map(item => {
+          const { jobId } = item;
+          const style = STATUS_STYLES[item.status];
+          const canRegenerate = item.status !== 'queued' && item.status !== 'running' && item.status !== 'waiting'
+            && (item.status !== 'blocked' || !run.chainFrames || item.index === 0);
+
+          return (
+            <div
+              key={item.shot.id}
+              style={{ flexGrow: item.seconds, flexBasis: 0 }}
+              className={`min-w-[7rem] space-y-1.5 rounded-lg border p-2 text-xs ${style.className}`}
+              title={item.shot.prompt}
+            >
+              <div className="flex items-center justify-between gap-1 font-medium">
+                <span>Shot {item.index + 1}</span>
+                <span>{style.label}</span>
+              </div>
+              <p className="line-clamp-2 text-[11px] text-muted-foreground">{item.shot.prompt}</p>
+              {run.shotErrors[item.index] && !item.jobId && (
+                <p className="text-[11px] text-red-600 dark:text-red-400">{run.shotErrors[item.index]}</p>
+              )}
+              <div className="flex items-center justify-between gap-1">
+                <span className="text-[10px] text-muted-foreground">
+                  {item.shot.duration === -1 && !item.result ? 'auto' : `${item.seconds}s`}
+                </span>
+                <div className="flex items-center gap-1">
+                  {jobId && (
+                    <button
+                      type="button"
+                      onClick={() => onSelectJob(jobId)}
+                      className="text-[10px] text-muted-foreground underline-offset-2 hover:text-green-500 hover:underline"
+                    >
+                      open
+                    </button>
+                  )}
+                  {canRegenerate && (
+                    <button
+                      type="button"
+                      onClick={() => onRegenerateShot(run.id, item.index)}
+                      className="rounded p-0.5 text-muted-foreground transition-colors hover:text-green-500"
+                      aria-label={`Regenerate shot ${item.index + 1}`}
+                      title="Regenerate this shot"
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <SequencePlayer clips={clips} />
+    </div>
+  );
+}
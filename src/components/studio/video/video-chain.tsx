@@ -0,0 +1,73 @@
+'use client';
+
+import * as React from 'react';
+import { ListVideo } from 'lucide-react';
+import { SequencePlayer } from '@/components/studio/video/sequence-player';
+import type { GenerationJob, VideoJob } from '@/types/jobs';
+
+interface VideoChainProps {
+  jobs: GenerationJob[];
+  selectedJobId: string;
+  onSelectJob: (id: string) => void;
+  className?: string;
+}
+
+type FinishedVideoJob = VideoJob & { result: NonNullable<VideoJob['result']> };
+
+/**
+ * Extension chain ending at the given job, oldest first
+ * Follows parent task IDs while the parent is still in the job list
+ */
+function buildChain(jobs: GenerationJob[], jobId: string): FinishedVideoJob[] {
+  const videos = jobs.filter((job): job is FinishedVideoJob => job.kind === 'video' && job.result !== undefined);
+  const byTaskId = new Map(videos.map(job => [job.result.taskId, job]));
+
+  const chain: FinishedVideoJob[] = [];
+  let current = videos.find(job => job.id === jobId);
+  while (current && !chain.includes(current)) {
+    chain.unshift(current);
+    current = current.result.parentTaskId ? byTaskId.get(current.result.parentTaskId) : undefined;
+  }
+  return chain;
+}
+
+/**
+ * Plays a video and the clips it was extended from as one sequence
+ */
+export function VideoChain({ jobs, selectedJobId, onSelectJob, className = '' }: VideoChainProps) {
+  const chain = React.useMemo(() => buildChain(jobs, selectedJobId), [jobs, selectedJobId]);
+  if (chain.length < 2) return null;
+
+  const totalDuration = chain.reduce((sum, job) => sum + job.result.actualDuration, 0);
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-semibold">
+          <ListVideo className="h-4 w-4 text-green-500" />
+          Extension chain
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {chain.length} clips · {totalDuration}s
+        </span>
+      </div>
+
+      <SequencePlayer
+        clips={chain.map(job => ({
+          id: job.id,
+          videoUrl: job.result.videoUrl,
+          duration: job.result.actualDuration,
+          title: job.result.prompt,
+        }))}
+        renderClipExtra={(clip) => clip.id !== selectedJobId && (
+          <button
+            onClick={() => onSelectJob(clip.id)}
+            className="text-[10px] text-muted-foreground underline-offset-2 hover:text-green-500 hover:underline"
+          >
+            open
+          </button>
+        )}
+      />
+    </div>
+  );
+}
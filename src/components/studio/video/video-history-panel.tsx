@@ -0,0 +1,292 @@
+'use client';
+
+import * as React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  Database,
+  ChevronDown,
+  RefreshCw,
+  Play,
+  GitBranch,
+  AlertCircle,
+  X,
+} from 'lucide-react';
+import { useVideoHistory } from '@/hooks/use-video-history';
+import { isVideoHistoryEnabled, setVideoHistoryEnabled, videoUrlTimeLeft } from '@/lib/video-history';
+import { formatTimeLeft } from '@/lib/utils';
+import type { VideoGenerationResult } from '@/types/video-api';
+
+interface VideoHistoryPanelProps {
+  onOpen: (result: VideoGenerationResult) => void;
+  className?: string;
+}
+
+const PAGE_SIZE = 20;
+
+interface IterationChain {
+  taskId: string; // Row the chain is shown under
+  items: VideoGenerationResult[];
+}
+
+/**
+ * Video history panel
+ * Opt-in setting for saving video metadata to Supabase, plus the saved videos
+ * and their iteration chains. Links older than 24 hours are marked expired.
+ */
+export function VideoHistoryPanel({ onOpen, className = '' }: VideoHistoryPanelProps) {
+  const { history, loading, error, loadHistory, loadIterationChain } = useVideoHistory();
+
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [enabled, setEnabled] = React.useState(isVideoHistoryEnabled);
+  const [limit, setLimit] = React.useState(PAGE_SIZE);
+  const [chain, setChain] = React.useState<IterationChain | null>(null);
+  const [now, setNow] = React.useState(Date.now);
+
+  // Keep the expiry labels current
+  React.useEffect(() => {
+    if (!isOpen) return;
+    const timer = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, [isOpen]);
+
+  // Load saved videos when the panel is opened
+  const handleToggle = () => {
+    const next = !isOpen;
+    setIsOpen(next);
+    if (next && history.length === 0 && !loading) {
+      loadHistory(limit);
+    }
+  };
+
+  const handleEnabledChange = (value: boolean) => {
+    setEnabled(value);
+    setVideoHistoryEnabled(value);
+  };
+
+  const handleRefresh = () => {
+    setNow(Date.now());
+    loadHistory(limit);
+  };
+
+  const handleShowMore = () => {
+    const next = limit + PAGE_SIZE;
+    setLimit(next);
+    loadHistory(next);
+  };
+
+  // Walk up to the oldest saved ancestor so the chain includes every iteration
+  const handleShowChain = async (result: VideoGenerationResult) => {
+    if (chain?.taskId === result.taskId) {
+      setChain(null);
+      return;
+    }
+
+    const byTaskId = new Map(history.map(item => [item.taskId, item]));
+    let root = result;
+    while (root.parentTaskId && byTaskId.has(root.parentTaskId)) {
+      root = byTaskId.get(root.parentTaskId)!;
+    }
+
+    const items = await loadIterationChain(root.taskId);
+    setChain(items.length > 0 ? { taskId: result.taskId, items } : null);
+  };
+
+  const formatTime = (date: Date) =>
+    date.toLocaleString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const renderExpiry = (result: VideoGenerationResult) => {
+    const timeLeft = videoUrlTimeLeft(result.timestamp, now);
+    return timeLeft === 0 ? (
+      <span className="rounded-full bg-red-500/10 px-2 py-0.5 text-[10px] font-semibold uppercase text-red-600 dark:text-red-400">
+        Link expired
+      </span>
+    ) : (
+      <span className="rounded-full bg-green-500/10 px-2 py-0.5 text-[10px] font-semibold text-green-600 dark:text-green-400">
+        Expires in {formatTimeLeft(timeLeft)}
+      </span>
+    );
+  };
+
+  const renderOpenButton = (result: VideoGenerationResult) => {
+    const expired = videoUrlTimeLeft(result.timestamp, now) === 0;
+    return (
+      <button
+        onClick={() => onOpen(result)}
+        disabled={expired || !result.videoUrl}
+        className="inline-flex flex-shrink-0 items-center gap-1.5 rounded-lg bg-gradient-to-r from-green-500 to-teal-500 px-3 py-1.5 text-xs font-medium text-white shadow-sm transition-opacity hover:opacity-90 disabled:cursor-not-allowed disabled:opacity-40"
+        title={expired ? 'The video link has expired (24 hours)' : 'Open in the job queue'}
+      >
+        <Play className="h-3.5 w-3.5" />
+        Open
+      </button>
+    );
+  };
+
+  return (
+    <div className={`rounded-xl border border-border bg-card ${className}`}>
+      {/* Header */}
+      <button
+        onClick={handleToggle}
+        className="flex w-full items-center justify-between gap-3 p-4 text-left"
+        aria-expanded={isOpen}
+      >
+        <div className="flex items-center gap-2">
+          <Database className="h-4 w-4 text-green-500" />
+          <span className="text-sm font-semibold">Video history</span>
+          <span className="text-xs text-muted-foreground">
+            {enabled ? 'Saving to Supabase' : 'Not saving'}
+          </span>
+        </div>
+        <motion.div animate={{ rotate: isOpen ? 180 : 0 }} transition={{ duration: 0.2 }}>
+          <ChevronDown className="h-4 w-4 text-muted-foreground" />
+        </motion.div>
+      </button>
+
+      <AnimatePresence initial={false}>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="overflow-hidden"
+          >
+            <div className="space-y-4 border-t border-border p-4">
+              {/* Setting */}
+              <label className="flex cursor-pointer items-start gap-3 rounded-lg border border-border p-3">
+                <input
+                  type="checkbox"
+                  checked={enabled}
+                  onChange={(e) => handleEnabledChange(e.target.checked)}
+                  className="mt-0.5 h-4 w-4 accent-green-500"
+                />
+                <span className="space-y-0.5">
+                  <span className="block text-xs font-medium">Save finished videos to history</span>
+                  <span className="block text-[11px] text-muted-foreground">
+                    Stores the prompt, settings, seed and video links in Supabase. Videos themselves are not uploaded,
+                    and their links stop working 24 hours after generation.
+                  </span>
+                </span>
+              </label>
+
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">
+                  Showing {history.length} saved video{history.length === 1 ? '' : 's'}
+                </span>
+                <button
+                  onClick={handleRefresh}
+                  disabled={loading}
+                  className="inline-flex items-center gap-1.5 rounded-lg border border-border px-3 py-1 text-xs font-medium text-muted-foreground transition-colors hover:text-foreground disabled:opacity-50"
+                  aria-label="Refresh video history"
+                >
+                  <RefreshCw className={`h-3.5 w-3.5 ${loading ? 'animate-spin' : ''}`} />
+                  Refresh
+                </button>
+              </div>
+
+              {/* Error */}
+              {error && (
+                <div className="flex items-center gap-2 rounded-lg bg-red-500/10 border border-red-500/20 p-3">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0 text-red-500" />
+                  <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+                </div>
+              )}
+
+              {/* Video list */}
+              {!error && history.length === 0 && !loading && (
+                <p className="py-6 text-center text-xs text-muted-foreground">No saved videos</p>
+              )}
+
+              {history.length > 0 && (
+                <ul className="divide-y divide-border rounded-lg border border-border">
+                  {history.map(result => (
+                    <li key={result.id} className="space-y-3 p-3">
+                      <div className="flex items-center gap-3">
+                        <div className="min-w-0 flex-1 space-y-1">
+                          <div className="flex items-center gap-2">
+                            {renderExpiry(result)}
+                            <span className="truncate text-xs font-medium" title={result.prompt}>
+                              {result.prompt || 'No prompt'}
+                            </span>
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {formatTime(result.timestamp)}
+                            {` · ${result.actualDuration}s · ${result.parameters.resolution} · ${result.actualRatio} · seed ${result.seed}`}
+                            {result.parentTaskId && ' · extension'}
+                          </div>
+                        </div>
+
+                        <button
+                          onClick={() => handleShowChain(result)}
+                          disabled={loading}
+                          className="inline-flex flex-shrink-0 items-center gap-1.5 rounded-lg border border-border px-3 py-1.5 text-xs font-medium text-muted-foreground transition-colors hover:text-foreground disabled:opacity-50"
+                          title="Show the original video and every iteration"
+                        >
+                          <GitBranch className="h-3.5 w-3.5" />
+                          Iterations
+                        </button>
+                        {renderOpenButton(result)}
+                      </div>
+
+                      {/* Iteration chain */}
+                      {chain?.taskId === result.taskId && (
+                        <div className="rounded-lg bg-muted/40 p-3">
+                          <div className="mb-2 flex items-center justify-between">
+                            <span className="text-[11px] font-semibold uppercase text-muted-foreground">
+                              Iterations ({chain.items.length})
+                            </span>
+                            <button
+                              onClick={() => setChain(null)}
+                              className="rounded p-0.5 text-muted-foreground transition-colors hover:text-foreground"
+                              aria-label="Hide iterations"
+                            >
+                              <X className="h-3.5 w-3.5" />
+                            </button>
+                          </div>
+                          <ol className="space-y-2">
+                            {chain.items.map((item, index) => (
+                              <li key={item.taskId} className="flex items-center gap-3">
+                                <span className="w-5 flex-shrink-0 text-right text-[11px] font-semibold text-muted-foreground">
+                                  {index + 1}.
+                                </span>
+                                <div className="min-w-0 flex-1 space-y-0.5">
+                                  <p className="truncate text-xs" title={item.prompt}>
+                                    {item.prompt || 'No prompt'}
+                                  </p>
+                                  <div className="flex items-center gap-2 text-[11px] text-muted-foreground">
+                                    {renderExpiry(item)}
+                                    <span>{formatTime(item.timestamp)}</span>
+                                  </div>
+                                </div>
+                                {renderOpenButton(item)}
+                              </li>
+                            ))}
+                          </ol>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {history.length >= limit && (
+                <button
+                  onClick={handleShowMore}
+                  disabled={loading}
+                  className="w-full rounded-lg border border-border py-2 text-xs font-medium text-muted-foreground transition-colors hover:text-foreground disabled:opacity-50"
+                >
+                  Show more
+                </button>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
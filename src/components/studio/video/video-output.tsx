@@ -16,6 +16,10 @@ import {
   Maximize,
   AlertCircle,
   ExternalLink,
+  Trash2,
+  FastForward,
+  Lock,
+  SlidersHorizontal,
 } from 'lucide-react';
 import type { VideoGenerationResult } from '@/types/video-api';
 import { Button } from '@/components/ui/button';
@@ -23,14 +27,27 @@ import { Button } from '@/components/ui/button';
 interface VideoOutputProps {
   result: VideoGenerationResult;
   onGenerateAnother: () => void;
+  onDelete?: () => Promise<boolean>; // Delete the finished task record on the server
+  onExtend?: (prompt: string) => void; // Continue from the last frame with a new task
+  onRemix?: () => void; // Load these settings into the form with this video's seed locked
+  onReuseParameters?: () => void; // Load these settings into the form with a random seed
 }
 
-export function VideoOutput({ result, onGenerateAnother }: VideoOutputProps) {
+export function VideoOutput({
+  result,
+  onGenerateAnother,
+  onDelete,
+  onExtend,
+  onRemix,
+  onReuseParameters,
+}: VideoOutputProps) {
   const videoRef = React.useRef<HTMLVideoElement>(null);
   const [isPlaying, setIsPlaying] = React.useState(false);
   const [isMuted, setIsMuted] = React.useState(false);
   const [copied, setCopied] = React.useState(false);
   const [downloadSuccess, setDownloadSuccess] = React.useState(false);
+  const [isDeleting, setIsDeleting] = React.useState(false);
+  const [extendPrompt, setExtendPrompt] = React.useState<string | null>(null); // Set while the extend form is open
 
   // Video control handlers
   const togglePlay = React.useCallback(() => {
@@ -121,6 +138,25 @@ Seed: ${result.seed}`;
     setTimeout(() => setCopied(false), 2000);
   }, [result]);
 
+  // Delete task on the server (download first - the result is cleared afterwards)
+  const handleDelete = React.useCallback(async () => {
+    if (!onDelete) return;
+    if (!confirm('Delete this task from the server? Download the video first if you want to keep it.')) return;
+
+    setIsDeleting(true);
+    const deleted = await onDelete();
+    if (!deleted) {
+      setIsDeleting(false);
+    }
+  }, [onDelete]);
+
+  // Queue the continuation and close the form
+  const handleExtend = React.useCallback(() => {
+    if (!onExtend || !extendPrompt?.trim()) return;
+    onExtend(extendPrompt.trim());
+    setExtendPrompt(null);
+  }, [onExtend, extendPrompt]);
+
   // Format duration helper
   const formatDuration = (seconds: number) => {
     if (seconds < 60) return `${seconds}s`;
@@ -154,6 +190,19 @@ Seed: ${result.seed}`;
         </div>
       </motion.div>
 
+      {/* Video history save failed */}
+      {result.historyError && (
+        <div className="flex items-start gap-3 rounded-xl border border-red-500/30 bg-red-500/5 p-4">
+          <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+          <div className="space-y-1">
+            <p className="text-sm font-semibold text-red-600 dark:text-red-400">
+              Not saved to video history
+            </p>
+            <p className="text-xs text-muted-foreground">{result.historyError}</p>
+          </div>
+        </div>
+      )}
+
       {/* Video player */}
       <motion.div
         initial={{ opacity: 0, scale: 0.95 }}
@@ -213,6 +262,45 @@ Seed: ${result.seed}`;
           </Button>
         )}
 
+        {result.lastFrameUrl && onExtend && (
+          <Button
+            onClick={() => setExtendPrompt(extendPrompt === null ? result.prompt : null)}
+            variant="outline"
+            size="lg"
+            className="flex-1 sm:flex-initial"
+            aria-expanded={extendPrompt !== null}
+          >
+            <FastForward className="w-4 h-4 mr-2" />
+            Extend
+          </Button>
+        )}
+
+        {onRemix && (
+          <Button
+            onClick={onRemix}
+            variant="outline"
+            size="lg"
+            className="flex-1 sm:flex-initial"
+            title={`Edit the prompt and generate again with seed ${result.seed}`}
+          >
+            <Lock className="w-4 h-4 mr-2" />
+            Remix with same seed
+          </Button>
+        )}
+
+        {onReuseParameters && (
+          <Button
+            onClick={onReuseParameters}
+            variant="outline"
+            size="lg"
+            className="flex-1 sm:flex-initial"
+            title="Load the prompt and settings into the form with a random seed"
+          >
+            <SlidersHorizontal className="w-4 h-4 mr-2" />
+            Reuse parameters
+          </Button>
+        )}
+
         <Button
           onClick={handleCopyMetadata}
           variant="outline"
@@ -240,8 +328,62 @@ Seed: ${result.seed}`;
           <ExternalLink className="w-4 h-4 mr-2" />
           Open
         </Button>
+
+        {onDelete && (
+          <Button
+            onClick={handleDelete}
+            variant="outline"
+            size="lg"
+            disabled={isDeleting}
+            className="hover:border-red-500/50 hover:text-red-500"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            {isDeleting ? 'Deleting...' : 'Delete Task'}
+          </Button>
+        )}
       </motion.div>
 
+      {/* Extend from the last frame */}
+      <AnimatePresence>
+        {extendPrompt !== null && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="rounded-xl border border-green-500/30 bg-gradient-to-br from-green-500/10 to-teal-500/5 p-4 space-y-3">
+              <div>
+                <p className="text-sm font-semibold">Extend this video</p>
+                <p className="text-xs text-muted-foreground">
+                  Starts a new image-to-video task from the last frame, with the same settings. Describe what happens next.
+                </p>
+              </div>
+              <textarea
+                value={extendPrompt}
+                onChange={(e) => setExtendPrompt(e.target.value)}
+                rows={3}
+                className="w-full resize-y rounded-lg border border-border bg-card px-3 py-2 text-sm outline-none focus:border-green-500"
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => setExtendPrompt(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleExtend}
+                  disabled={!extendPrompt.trim()}
+                  className="bg-gradient-to-r from-green-500 to-teal-500 text-white border-0"
+                >
+                  <FastForward className="w-4 h-4 mr-2" />
+                  Queue extension
+                </Button>
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Metadata grid */}
       <motion.div
         initial={{ opacity: 0, y: 10 }}
@@ -287,7 +429,7 @@ Seed: ${result.seed}`;
           Prompt & Details
         </h3>
         <p className="text-sm text-muted-foreground leading-relaxed">
-          {result.prompt}
+          {result.prompt || <span className="italic">Prompt not available (task reopened from the server)</span>}
         </p>
         <div className="grid grid-cols-2 gap-2 text-xs">
           <div>
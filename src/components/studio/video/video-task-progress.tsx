@@ -0,0 +1,151 @@
+'use client';
+
+import * as React from 'react';
+import { motion } from 'framer-motion';
+import { Clock, Loader2, CheckCircle2, XCircle, Ban, StopCircle, Hourglass, RotateCw } from 'lucide-react';
+import type { VideoTaskStatus } from '@/types/video-api';
+import { formatTimeLeft } from '@/lib/utils';
+
+interface VideoTaskProgressProps {
+  status: VideoTaskStatus | null;
+  progress: number; // 0-100
+  onCancel?: () => Promise<boolean>;
+  error?: string | null;
+  expiresAt?: number; // ms; shown as a countdown (flex tasks)
+  resumed?: boolean; // Picked up again after a page reload
+  className?: string;
+}
+
+const STATUS_DISPLAY: Record<VideoTaskStatus, { label: string; description: string; icon: typeof Clock; color: string }> = {
+  queued: {
+    label: 'Queued',
+    description: 'Waiting for a free slot. Cancelling now stops the task on the server.',
+    icon: Clock,
+    color: 'text-amber-500',
+  },
+  running: {
+    label: 'Generating',
+    description: 'The video is being rendered. Running tasks cannot be cancelled.',
+    icon: Loader2,
+    color: 'text-green-500',
+  },
+  succeeded: {
+    label: 'Succeeded',
+    description: 'Video is ready.',
+    icon: CheckCircle2,
+    color: 'text-green-500',
+  },
+  failed: {
+    label: 'Failed',
+    description: 'The task failed on the server.',
+    icon: XCircle,
+    color: 'text-red-500',
+  },
+  expired: {
+    label: 'Expired',
+    description: 'The task expired before it could run.',
+    icon: XCircle,
+    color: 'text-red-500',
+  },
+  cancelled: {
+    label: 'Cancelled',
+    description: 'The task was cancelled and will not use any credits.',
+    icon: Ban,
+    color: 'text-muted-foreground',
+  },
+};
+
+/**
+ * Video task status with progress bar and cancel action
+ * Shown under the loading animation while a Seedance task is in flight
+ */
+export function VideoTaskProgress({ status, progress, onCancel, error, expiresAt, resumed = false, className = '' }: VideoTaskProgressProps) {
+  const [isCancelling, setIsCancelling] = React.useState(false);
+  const [now, setNow] = React.useState(() => Date.now());
+
+  // Tick the expiry countdown
+  React.useEffect(() => {
+    if (!expiresAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, [expiresAt]);
+
+  if (!status) return null;
+
+  const display = STATUS_DISPLAY[status];
+  const Icon = display.icon;
+  const canCancel = onCancel && status === 'queued';
+
+  const handleCancel = async () => {
+    if (!onCancel) return;
+    setIsCancelling(true);
+    try {
+      await onCancel();
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <div className={`mx-auto w-full max-w-sm space-y-3 ${className}`}>
+      {/* Status line */}
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Icon className={`h-4 w-4 ${display.color} ${status === 'running' ? 'animate-spin' : ''}`} />
+          <span className="text-sm font-semibold">{display.label}</span>
+        </div>
+
+        {onCancel && (status === 'queued' || status === 'running') && (
+          <motion.button
+            onClick={handleCancel}
+            disabled={!canCancel || isCancelling}
+            whileHover={canCancel ? { scale: 1.02 } : undefined}
+            whileTap={canCancel ? { scale: 0.98 } : undefined}
+            className="inline-flex items-center gap-1.5 rounded-lg border border-border px-3 py-1.5 text-xs font-medium transition-colors hover:border-red-500/50 hover:text-red-500 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-border disabled:hover:text-current"
+            aria-label="Cancel video task"
+          >
+            {isCancelling ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <StopCircle className="h-3.5 w-3.5" />
+            )}
+            {isCancelling ? 'Cancelling...' : 'Cancel'}
+          </motion.button>
+        )}
+      </div>
+
+      {/* Progress bar */}
+      <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+        <motion.div
+          className="h-full rounded-full bg-gradient-to-r from-green-500 to-teal-500"
+          initial={false}
+          animate={{ width: `${progress}%` }}
+          transition={{ duration: 0.5, ease: 'easeOut' }}
+        />
+      </div>
+
+      <p className="text-xs text-muted-foreground">{display.description}</p>
+
+      {(expiresAt || resumed) && (status === 'queued' || status === 'running') && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {expiresAt && (
+            <span className="inline-flex items-center gap-1.5" title={new Date(expiresAt).toLocaleString()}>
+              <Hourglass className="h-3.5 w-3.5 text-amber-500" />
+              {expiresAt > now ? `Expires in ${formatTimeLeft(expiresAt - now)} if not finished` : 'Expiring'}
+            </span>
+          )}
+          {resumed && (
+            <span className="inline-flex items-center gap-1.5">
+              <RotateCw className="h-3.5 w-3.5" />
+              Resumed after reload
+            </span>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -95,13 +95,37 @@ async function validateImageFile(file: File): Promise<{ valid: boolean; error?:
   });
 }
 
+/**
+ * Turn a generated image (base64, data URI or URL) into a video frame
+ * so an output can be handed to Seedance without re-uploading it
+ */
+export async function videoImageFromSource(image: string, role: VideoImageRole): Promise<VideoImageFile> {
+  const source = /^(data:|https?:)/.test(image) ? image : `data:image/png;base64,${image}`;
+  const blob = await (await fetch(source)).blob();
+  const extension = blob.type === 'image/jpeg' ? 'jpg' : 'png';
+  const file = new File([blob], `${role}-${Date.now()}.${extension}`, { type: blob.type || 'image/png' });
+  const validation = await validateImageFile(file);
+
+  return {
+    id: crypto.randomUUID(),
+    file,
+    previewUrl: URL.createObjectURL(file),
+    role,
+    validationStatus: validation.valid ? 'valid' : 'invalid',
+    validationError: validation.error,
+  };
+}
+
 /**
  * Assign roles to images based on mode
  */
 function assignRoles(images: VideoImageFile[], mode: VideoMode): VideoImageFile[] {
   if (mode === 'image-to-video-frames' && images.length === 2) {
-    // First + Last Frame mode
-    return images.map((img, idx) => ({
+    // First + Last Frame mode (an image already set as the last frame stays last)
+    const ordered = images[0].role === 'last_frame' && images[1].role !== 'last_frame'
+      ? [images[1], images[0]]
+      : images;
+    return ordered.map((img, idx) => ({
       ...img,
       role: idx === 0 ? ('first_frame' as const) : ('last_frame' as const),
     }));
@@ -120,6 +120,21 @@ export const DEFAULTS = {
 // Helper to get defaults for a model
 export const getModelDefaults = (model: SeedreamModel) => DEFAULTS[model];
 
+/**
+ * Approximate list price per output image (USD), for cost previews only
+ * Batch generations bill every image they return
+ */
+export const IMAGE_PRICE_USD: Record<SeedreamModel, number> = {
+  'seedream-4-0': 0.03,
+  'seedream-4-5': 0.04,
+};
+
+/**
+ * Estimated cost of a number of output images
+ */
+export const estimateImageCost = (model: SeedreamModel, imageCount: number) =>
+  IMAGE_PRICE_USD[model] * imageCount;
+
 /**
  * Placeholder prompts for different modes
  */
@@ -45,6 +45,19 @@ export const VIDEO_CONSTRAINTS = {
   // Service tiers
   serviceTiers: ['default', 'flex'] as const,
 
+  // Seed (-1 = random)
+  seed: {
+    min: 0,
+    max: 4294967295, // 2^32 - 1
+  },
+
+  // Seconds an unfinished task may wait before it expires (execution_expires_after)
+  expiresAfter: {
+    min: 3600, // 1 hour
+    max: 259200, // 72 hours
+    default: 172800, // 48 hours
+  },
+
   // Image count requirements per mode
   imageCounts: {
     'text-to-video': 0,
@@ -78,6 +91,7 @@ export const VIDEO_DEFAULTS = {
   fps: 24 as const,
   watermark: false, // Always false
   cameraFixed: false, // Default to not fixed
+  expiresAfter: 172800, // 48 hours
 } as const;
 
 // ============================================================================
@@ -307,6 +321,9 @@ export function buildTextCommands(params: {
   return commands.length > 0 ? ' ' + commands.join(' ') : '';
 }
 
+// "--key value"; values may be negative (e.g. --dur -1) so out-of-range ones can be reported
+export const TEXT_COMMAND_PATTERN = /\s+(--\w+\s+-?[^\s-]+)/g;
+
 /**
  * Parse text commands from prompt
  * Extracts --commands from end of prompt
@@ -315,8 +332,7 @@ export function parseTextCommands(prompt: string): {
   cleanPrompt: string;
   commands: Record<string, string>;
 } {
-  const commandPattern = /\s+(--\w+\s+[^\s-]+)/g;
-  const matches = prompt.match(commandPattern) || [];
+  const matches = prompt.match(TEXT_COMMAND_PATTERN) || [];
 
   const commands: Record<string, string> = {};
   matches.forEach(match => {
@@ -324,7 +340,7 @@ export function parseTextCommands(prompt: string): {
     commands[key] = value;
   });
 
-  const cleanPrompt = prompt.replace(commandPattern, '').trim();
+  const cleanPrompt = prompt.replace(TEXT_COMMAND_PATTERN, '').trim();
 
   return { cleanPrompt, commands };
 }
@@ -1,46 +1,108 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { isMockArkEnabled } from '@/lib/ark-api';
+import type { SessionStatus } from '@/types/api';
 
-const API_KEY_STORAGE_KEY = 'seedream:apiKey';
+// Keys saved by earlier versions; exchanged for a session cookie once, then removed
+const LEGACY_API_KEY_STORAGE_KEY = 'seedream:apiKey';
 
+/**
+ * API key session hook
+ *
+ * The key is sent to POST /api/session once and kept server-side in an
+ * encrypted httpOnly cookie. The browser only ever sees a masked hint.
+ */
 export function useApiKey() {
-  const [apiKey, setApiKeyState] = useState<string>('');
+  const [isConnected, setIsConnected] = useState(false);
+  const [keyHint, setKeyHint] = useState<string | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  // Load API key from localStorage on mount
-  useEffect(() => {
-    const stored = localStorage.getItem(API_KEY_STORAGE_KEY);
-    if (stored) {
-      setApiKeyState(stored);
+  const applyStatus = (status: SessionStatus) => {
+    setIsConnected(status.authenticated);
+    setKeyHint(status.keyHint);
+  };
+
+  // Exchange an API key for a session cookie
+  const exchangeApiKey = useCallback(async (key: string): Promise<boolean> => {
+    setError(null);
+    try {
+      const response = await fetch('/api/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ apiKey: key }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error?.message || 'Failed to save API key');
+      }
+
+      applyStatus(await response.json());
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save API key');
+      return false;
     }
-    setIsLoaded(true);
   }, []);
 
-  // Save API key to localStorage and state
-  const setApiKey = (key: string) => {
-    setApiKeyState(key);
-    if (key) {
-      localStorage.setItem(API_KEY_STORAGE_KEY, key);
-    } else {
-      localStorage.removeItem(API_KEY_STORAGE_KEY);
+  // Load session status on mount (migrating a legacy localStorage key first)
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const legacyKey = localStorage.getItem(LEGACY_API_KEY_STORAGE_KEY);
+        if (legacyKey && (await exchangeApiKey(legacyKey))) {
+          localStorage.removeItem(LEGACY_API_KEY_STORAGE_KEY);
+          return;
+        }
+
+        const response = await fetch('/api/session');
+        if (response.ok) {
+          applyStatus(await response.json());
+        }
+      } catch (err) {
+        console.error('Failed to load API key session:', err);
+      } finally {
+        setIsLoaded(true);
+      }
+    };
+
+    load();
+  }, [exchangeApiKey]);
+
+  // Sign out: clear the session cookie
+  const clearApiKey = useCallback(async () => {
+    setError(null);
+    try {
+      await fetch('/api/session/sign-out', { method: 'POST' });
+    } catch (err) {
+      console.error('Failed to sign out:', err);
     }
-  };
+    localStorage.removeItem(LEGACY_API_KEY_STORAGE_KEY);
+    setIsConnected(false);
+    setKeyHint(null);
+  }, []);
 
-  // Clear API key from localStorage and state
-  const clearApiKey = () => {
-    setApiKeyState('');
-    localStorage.removeItem(API_KEY_STORAGE_KEY);
-  };
+  // Save a new key, or sign out when given an empty one
+  const setApiKey = useCallback(async (key: string): Promise<boolean> => {
+    if (!key) {
+      await clearApiKey();
+      return true;
+    }
+    return exchangeApiKey(key);
+  }, [clearApiKey, exchangeApiKey]);
 
-  // Check if API key is set
-  const hasApiKey = apiKey.length > 0;
+  // The mock backend accepts requests without a session
+  const hasApiKey = isConnected || isMockArkEnabled();
 
   return {
-    apiKey,
     setApiKey,
     clearApiKey,
     hasApiKey,
+    isConnected,
+    keyHint,
     isLoaded,
+    error,
   };
 }
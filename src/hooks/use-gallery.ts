@@ -0,0 +1,158 @@
+/**
+ * Local gallery hook
+ *
+ * Copies every finished image and video from the job queue into IndexedDB
+ * and exposes the stored items with object URLs for display.
+ */
+
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  clearGallery,
+  deleteGalleryItem,
+  estimateGalleryStorage,
+  imageJobItems,
+  listGalleryItems,
+  requestPersistentStorage,
+  saveGalleryItems,
+  videoJobItem,
+} from '@/lib/gallery-store';
+import type { GalleryEntry, GalleryItem, GalleryStorage } from '@/types/gallery';
+import type { GenerationJob } from '@/types/jobs';
+
+/**
+ * Put new entries first and replace older copies with the same ID
+ */
+function mergeEntries(current: GalleryEntry[], added: GalleryEntry[]): GalleryEntry[] {
+  const ids = new Set(added.map(entry => entry.id));
+  return [...added, ...current.filter(entry => !ids.has(entry.id))]
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+export function useGallery(jobs: GenerationJob[]) {
+  const [entries, setEntries] = useState<GalleryEntry[]>([]); // Newest first
+  const [loaded, setLoaded] = useState(false);
+  const [storage, setStorage] = useState<GalleryStorage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const savedRef = useRef(new Set<string>()); // Item IDs stored or being stored
+  const urlsRef = useRef(new Map<string, string>()); // Object URLs to revoke, by item ID
+  const persistRequestedRef = useRef(false);
+
+  const toEntry = useCallback((item: GalleryItem): GalleryEntry => {
+    const previous = urlsRef.current.get(item.id);
+    if (previous) URL.revokeObjectURL(previous);
+
+    if (!item.blob) return { ...item, url: item.remoteUrl ?? '' };
+    const url = URL.createObjectURL(item.blob);
+    urlsRef.current.set(item.id, url);
+    return { ...item, url };
+  }, []);
+
+  const revoke = useCallback((id: string) => {
+    const url = urlsRef.current.get(id);
+    if (url) URL.revokeObjectURL(url);
+    urlsRef.current.delete(id);
+  }, []);
+
+  const refreshStorage = useCallback((items: GalleryItem[]) => {
+    estimateGalleryStorage(items).then(setStorage).catch(() => undefined);
+  }, []);
+
+  // Load the stored items
+  useEffect(() => {
+    const urls = urlsRef.current;
+    listGalleryItems()
+      .then(items => {
+        items.forEach(item => savedRef.current.add(item.id));
+        setEntries(prev => mergeEntries(prev, items.map(toEntry)));
+      })
+      .catch(() => setError('The gallery is not available in this browser (IndexedDB is blocked)'))
+      .finally(() => setLoaded(true));
+
+    return () => {
+      urls.forEach(url => URL.revokeObjectURL(url));
+      urls.clear();
+    };
+  }, [toEntry]);
+
+  // Keep the storage report in step with the items
+  useEffect(() => {
+    if (loaded) refreshStorage(entries);
+  }, [loaded, entries, refreshStorage]);
+
+  const store = useCallback(async (items: GalleryItem[]) => {
+    if (items.length === 0) return;
+    if (!persistRequestedRef.current) {
+      persistRequestedRef.current = true;
+      void requestPersistentStorage();
+    }
+
+    try {
+      await saveGalleryItems(items);
+      setEntries(prev => mergeEntries(prev, items.map(toEntry)));
+    } catch (err) {
+      items.forEach(item => savedRef.current.delete(item.id)); // Try again on the next change
+      setError(err instanceof DOMException && err.name === 'QuotaExceededError'
+        ? 'Browser storage is full. Delete some items to keep saving new ones.'
+        : 'Failed to save to the gallery');
+    }
+  }, [toEntry]);
+
+  // Save outputs as their jobs succeed (failed image slots are saved once a retry fills them)
+  useEffect(() => {
+    jobs.forEach(job => {
+      if (job.status !== 'succeeded') return;
+
+      if (job.kind === 'image') {
+        const items = imageJobItems(job, savedRef.current);
+        items.forEach(item => savedRef.current.add(item.id));
+        void store(items);
+        return;
+      }
+
+      const id = job.result ? `video:${job.result.taskId}` : null;
+      if (!id || savedRef.current.has(id)) return;
+      savedRef.current.add(id);
+      void videoJobItem(job).then(item => store(item ? [item] : []));
+    });
+  }, [jobs, store]);
+
+  const removeItem = useCallback(async (id: string) => {
+    try {
+      await deleteGalleryItem(id);
+      revoke(id);
+      setEntries(prev => prev.filter(entry => entry.id !== id));
+    } catch {
+      setError('Failed to delete from the gallery');
+    }
+  }, [revoke]);
+
+  const clearAll = useCallback(async () => {
+    try {
+      await clearGallery();
+      urlsRef.current.forEach(url => URL.revokeObjectURL(url));
+      urlsRef.current.clear();
+      setEntries([]);
+    } catch {
+      setError('Failed to clear the gallery');
+    }
+  }, []);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    entries,
+    loaded,
+    storage,
+    error,
+    removeItem,
+    clearAll,
+    clearError,
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Image generation history hook
+ *
+ * Reads back the metadata rows SeedreamClient writes to the Supabase
+ * `generations` table (prompts and settings only, never images):
+ * - Paginated listing, newest first
+ * - Mode / model version / batch / size filters
+ * - Distinct model versions and sizes for the filter menus
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { listGenerations, listGenerationSettings } from '@/lib/supabase/repository';
+import type { Generation } from '@/types/database';
+import type { GenerationMode, SeedreamModel } from '@/types/api';
+
+// ============================================================================
+// Filter Interface
+// ============================================================================
+
+export interface GenerationHistoryFilters {
+  mode?: GenerationMode;
+  modelVersion?: string;
+  batchMode?: boolean;
+  size?: string; // API format, e.g. "2048x2048"
+}
+
+export interface GenerationHistoryOptions {
+  modelVersions: string[];
+  sizes: string[];
+}
+
+const DEFAULT_PAGE_SIZE = 10;
+
+// Recent rows scanned for the filter menus
+const OPTION_SCAN_LIMIT = 500;
+
+/**
+ * Seedream model for a stored model_version (e.g. "seedream-4-5-251128")
+ */
+export function modelFromVersion(modelVersion: string | null): SeedreamModel | null {
+  if (modelVersion?.startsWith('seedream-4-0')) return 'seedream-4-0';
+  if (modelVersion?.startsWith('seedream-4-5')) return 'seedream-4-5';
+  return null;
+}
+
+function distinct(values: (string | null)[]): string[] {
+  return [...new Set(values.filter((value): value is string => Boolean(value)))].sort();
+}
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+export function useGenerationHistory() {
+  const [rows, setRows] = useState<Generation[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [pageSize] = useState(DEFAULT_PAGE_SIZE);
+  const [filters, setFilters] = useState<GenerationHistoryFilters>({});
+  const [options, setOptions] = useState<GenerationHistoryOptions>({ modelVersions: [], sizes: [] });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  /**
+   * Load one page of rows
+   */
+  const loadPage = useCallback(async (
+    pageNum: number = 1,
+    nextFilters: GenerationHistoryFilters = filters
+  ) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { rows: pageRows, total: count } = await listGenerations((pageNum - 1) * pageSize, pageSize, {
+        mode: nextFilters.mode,
+        model_version: nextFilters.modelVersion,
+        batch_mode: nextFilters.batchMode,
+        size: nextFilters.size,
+      });
+
+      setRows(pageRows);
+      setTotal(count);
+      setPage(pageNum);
+      setFilters(nextFilters);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load generation history';
+      setError(errorMessage);
+      console.error('Failed to load generation history:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [pageSize, filters]);
+
+  /**
+   * Apply new filters (resets to first page)
+   */
+  const applyFilters = useCallback((nextFilters: GenerationHistoryFilters) => {
+    return loadPage(1, nextFilters);
+  }, [loadPage]);
+
+  /**
+   * Load the model versions and sizes used in recent rows
+   */
+  const loadOptions = useCallback(async () => {
+    try {
+      const settings = await listGenerationSettings(OPTION_SCAN_LIMIT);
+      setOptions({
+        modelVersions: distinct(settings.map(row => row.model_version)),
+        sizes: distinct(settings.map(row => row.size)),
+      });
+    } catch (err) {
+      console.error('Failed to load history filters:', err);
+    }
+  }, []);
+
+  return {
+    rows,
+    total,
+    page,
+    pageSize,
+    pageCount,
+    filters,
+    options,
+    loading,
+    error,
+    loadPage,
+    applyFilters,
+    loadOptions,
+  };
+}
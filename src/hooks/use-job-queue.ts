@@ -0,0 +1,514 @@
+/**
+ * Generation job queue
+ *
+ * Accepts image and video submissions at any time and runs them in the
+ * background with configurable concurrency. Each job keeps its own status,
+ * timing and result, so the form can be reused while earlier jobs run.
+ */
+
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { SeedanceClient } from '@/lib/seedance-client';
+import { getSeedanceClient } from '@/lib/seedance-client';
+import {
+  runImageGeneration,
+  runVideoGeneration,
+  resumeVideoGeneration,
+  retryImageSlot,
+  replaceSlot,
+  validateImageGeneration,
+  validateVideoGeneration,
+  videoExpiresAfter,
+  videoProgressFor,
+} from '@/lib/generation-runner';
+import { listPendingVideoTasks, removePendingVideoTask, savePendingVideoTask } from '@/lib/pending-video-tasks';
+import { StudioError, toStudioError, type StudioErrorCode } from '@/lib/studio-error';
+import type { RequestFieldError } from '@/types/api';
+import type { VideoGenerationResult, VideoTaskStatus } from '@/types/video-api';
+import type {
+  GenerationJob,
+  JobGroup,
+  ImageJob,
+  VideoJob,
+  ImageGenerationParams,
+  VideoGenerationParams,
+} from '@/types/jobs';
+import { isJobFinished } from '@/types/jobs';
+
+// Errors that mean the task is over on the server, so it needn't be resumed after a reload
+const FINAL_TASK_ERRORS = new Set<StudioErrorCode>(['task_failed', 'task_expired', 'cancelled', 'not_found']);
+
+const CONCURRENCY_STORAGE_KEY = 'seedream:jobConcurrency';
+const DEFAULT_CONCURRENCY = 2;
+export const MAX_JOB_CONCURRENCY = 4;
+
+// Running video jobs: abort to stop waiting, client + task ID to cancel on the server
+interface ActiveVideoTask {
+  controller: AbortController;
+  client?: SeedanceClient;
+  taskId?: string;
+}
+
+function clampConcurrency(value: number): number {
+  return Math.min(MAX_JOB_CONCURRENCY, Math.max(1, Math.round(value) || DEFAULT_CONCURRENCY));
+}
+
+/**
+ * Whether a job counts against the concurrency limit
+ * Flex tasks can take hours on the server, so they free their slot once submitted.
+ */
+function holdsSlot(job: GenerationJob): boolean {
+  return job.status === 'running' && !(job.kind === 'video' && job.watching);
+}
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+export function useJobQueue() {
+  const [jobs, setJobs] = useState<GenerationJob[]>([]); // Newest first
+  const [groups, setGroups] = useState<JobGroup[]>([]); // Newest first
+  const [concurrency, setConcurrencyState] = useState(DEFAULT_CONCURRENCY);
+  const [fieldErrors, setFieldErrors] = useState<RequestFieldError[]>([]); // From the last submission
+
+  const startedRef = useRef(new Set<string>()); // Guards against starting a job twice
+  const activeVideoRef = useRef(new Map<string, ActiveVideoTask>());
+  const resultClientsRef = useRef(new Map<string, SeedanceClient>()); // For deleting finished videos
+  const resumeCheckedRef = useRef(false); // Pending tasks are picked up once per page load
+
+  // Load the saved concurrency
+  useEffect(() => {
+    const stored = Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY));
+    if (stored) {
+      setConcurrencyState(clampConcurrency(stored));
+    }
+  }, []);
+
+  const setConcurrency = useCallback((value: number) => {
+    const next = clampConcurrency(value);
+    setConcurrencyState(next);
+    localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(next));
+  }, []);
+
+  const updateJob = useCallback(<T extends GenerationJob>(id: string, update: Partial<T> | ((job: T) => Partial<T>)) => {
+    setJobs(prev => prev.map(job => {
+      if (job.id !== id) return job;
+      const patch = typeof update === 'function' ? update(job as T) : update;
+      return { ...job, ...patch } as GenerationJob;
+    }));
+  }, []);
+
+  // ==========================================================================
+  // Runners
+  // ==========================================================================
+
+  const runImageJob = useCallback(async (job: ImageJob) => {
+    try {
+      const result = await runImageGeneration(job.params, {
+        onResult: (partial) => updateJob<ImageJob>(job.id, { result: partial ?? undefined }),
+        onWaitingForSlot: (wait) => updateJob<ImageJob>(job.id, { waitingForSlot: wait }),
+      });
+      updateJob<ImageJob>(job.id, { status: 'succeeded', result, finishedAt: Date.now() });
+    } catch (err) {
+      updateJob<ImageJob>(job.id, {
+        status: 'failed',
+        error: toStudioError(err, 'Generation failed'),
+        finishedAt: Date.now(),
+      });
+    } finally {
+      updateJob<ImageJob>(job.id, { waitingForSlot: null });
+    }
+  }, [updateJob]);
+
+  // Resumed jobs already have a task: wait for it instead of creating another
+  const runVideoJob = useCallback(async (job: VideoJob) => {
+    const active: ActiveVideoTask = { controller: new AbortController() };
+    activeVideoRef.current.set(job.id, active);
+    let taskFinished = false; // Keep the pending record unless the task is done on the server
+
+    const onStatus = (taskStatus: VideoTaskStatus) => updateJob<VideoJob>(job.id, (current) => ({
+      taskStatus,
+      progress: videoProgressFor(taskStatus) ?? current.progress,
+    }));
+
+    try {
+      let result: VideoGenerationResult;
+      if (job.taskId && job.expiresAt) {
+        active.taskId = job.taskId;
+        active.client = getSeedanceClient(job.params.modelId);
+        result = await resumeVideoGeneration(job.params, {
+          taskId: job.taskId,
+          startedAt: job.startedAt ?? job.createdAt,
+          expiresAt: job.expiresAt,
+        }, { signal: active.controller.signal, onStatus });
+      } else {
+        result = await runVideoGeneration(job.params, {
+          signal: active.controller.signal,
+          onStatus,
+          onTaskCreated: (taskId, client) => {
+            active.taskId = taskId;
+            active.client = client;
+            const startedAt = Date.now();
+            const expiresAt = startedAt + videoExpiresAfter(job.params) * 1000;
+            updateJob<VideoJob>(job.id, { taskId, expiresAt, watching: job.params.serviceTier === 'flex' });
+            savePendingVideoTask({ jobId: job.id, taskId, params: job.params, createdAt: job.createdAt, startedAt, expiresAt })
+              .catch(() => undefined); // Not resumable after a reload, but the job still runs
+          },
+          onWaitingForSlot: (wait) => updateJob<VideoJob>(job.id, { waitingForSlot: wait }),
+        });
+      }
+
+      taskFinished = true;
+      if (active.client) {
+        resultClientsRef.current.set(job.id, active.client);
+      }
+      updateJob<VideoJob>(job.id, { status: 'succeeded', result, progress: 100, finishedAt: Date.now() });
+    } catch (err) {
+      const studioError = toStudioError(err, 'Video generation failed');
+      const cancelled = active.controller.signal.aborted || studioError.code === 'cancelled';
+      taskFinished = cancelled || FINAL_TASK_ERRORS.has(studioError.code);
+      updateJob<VideoJob>(job.id, {
+        status: cancelled ? 'cancelled' : 'failed',
+        error: cancelled ? undefined : studioError,
+        taskStatus: cancelled ? 'cancelled' : undefined,
+        finishedAt: Date.now(),
+      });
+    } finally {
+      activeVideoRef.current.delete(job.id);
+      updateJob<VideoJob>(job.id, { waitingForSlot: null });
+      if (taskFinished) {
+        removePendingVideoTask(job.id).catch(() => undefined);
+      }
+    }
+  }, [updateJob]);
+
+  // Pick up video tasks that were still pending when the page was closed
+  useEffect(() => {
+    if (resumeCheckedRef.current) return;
+    resumeCheckedRef.current = true;
+
+    listPendingVideoTasks().then(tasks => {
+      const resumed = tasks.map((task): VideoJob => ({
+        id: task.jobId,
+        kind: 'video',
+        status: 'running',
+        params: task.params,
+        createdAt: task.createdAt,
+        startedAt: task.startedAt,
+        taskId: task.taskId,
+        expiresAt: task.expiresAt,
+        resumed: true,
+        watching: task.params.serviceTier === 'flex',
+        progress: videoProgressFor('queued') ?? 0,
+      }));
+      if (resumed.length === 0) return;
+
+      resumed.forEach(job => startedRef.current.add(job.id));
+      setJobs(prev => [...prev, ...resumed].sort((a, b) => b.createdAt - a.createdAt));
+      resumed.forEach(job => void runVideoJob(job));
+    }).catch(() => undefined); // IndexedDB unavailable - nothing to resume
+  }, [runVideoJob]);
+
+  // Start queued jobs (oldest first) while there are free slots
+  useEffect(() => {
+    const running = jobs.filter(holdsSlot).length;
+    const next = jobs
+      .filter(job => job.status === 'queued' && !startedRef.current.has(job.id))
+      .reverse() // Oldest first (the list is newest first)
+      .slice(0, Math.max(0, concurrency - running));
+
+    for (const job of next) {
+      startedRef.current.add(job.id);
+      updateJob(job.id, { status: 'running', startedAt: Date.now() });
+      if (job.kind === 'image') {
+        void runImageJob(job);
+      } else {
+        void runVideoJob(job);
+      }
+    }
+  }, [jobs, concurrency, updateJob, runImageJob, runVideoJob]);
+
+  // ==========================================================================
+  // Submitting
+  // ==========================================================================
+
+  /**
+   * Queue an image generation
+   * Returns the job ID, or null when the parameters fail validation (see fieldErrors)
+   */
+  const enqueueImage = useCallback((params: ImageGenerationParams): string | null => {
+    const errors = validateImageGeneration(params);
+    setFieldErrors(errors);
+    if (errors.length > 0) return null;
+
+    const job: ImageJob = {
+      id: crypto.randomUUID(),
+      kind: 'image',
+      status: 'queued',
+      params,
+      createdAt: Date.now(),
+      retryingSlots: [],
+    };
+    setJobs(prev => [job, ...prev]);
+    return job.id;
+  }, []);
+
+  /**
+   * Queue a group of image jobs shown together as a grid (e.g. a prompt matrix)
+   * Nothing is queued if any entry fails validation; returns the group ID
+   */
+  const enqueueImageGroup = useCallback((
+    group: Omit<JobGroup, 'id' | 'createdAt'>,
+    entries: { params: ImageGenerationParams; coordinates: number[] }[]
+  ): string | null => {
+    for (const entry of entries) {
+      const errors = validateImageGeneration(entry.params);
+      if (errors.length > 0) {
+        setFieldErrors(errors);
+        return null;
+      }
+    }
+    setFieldErrors([]);
+
+    const createdAt = Date.now();
+    const newGroup: JobGroup = { ...group, id: crypto.randomUUID(), createdAt };
+    // Same timestamp for the whole group keeps it in submission order
+    const groupJobs: ImageJob[] = entries.map(entry => ({
+      id: crypto.randomUUID(),
+      kind: 'image',
+      status: 'queued',
+      params: entry.params,
+      createdAt,
+      retryingSlots: [],
+      group: { id: newGroup.id, coordinates: entry.coordinates },
+    }));
+
+    setGroups(prev => [newGroup, ...prev]);
+    setJobs(prev => [...groupJobs.reverse(), ...prev]);
+    return newGroup.id;
+  }, []);
+
+  /**
+   * Queue a video generation
+   * Returns the job ID, or null when the parameters fail validation (see fieldErrors)
+   */
+  const enqueueVideo = useCallback((params: VideoGenerationParams): string | null => {
+    const errors = validateVideoGeneration(params);
+    setFieldErrors(errors);
+    if (errors.length > 0) return null;
+
+    const job: VideoJob = {
+      id: crypto.randomUUID(),
+      kind: 'video',
+      status: 'queued',
+      params,
+      createdAt: Date.now(),
+      progress: 0,
+    };
+    setJobs(prev => [job, ...prev]);
+    return job.id;
+  }, []);
+
+  /**
+   * Check parameters without queueing anything (e.g. every stage of a pipeline up front)
+   * Returns the first entry's errors, which are also shown as fieldErrors
+   */
+  const validateParams = useCallback((
+    images: ImageGenerationParams[],
+    videos: VideoGenerationParams[] = []
+  ): RequestFieldError[] => {
+    const errors = [
+      ...images.map(validateImageGeneration),
+      ...videos.map(validateVideoGeneration),
+    ].find(entryErrors => entryErrors.length > 0) ?? [];
+    setFieldErrors(errors);
+    return errors;
+  }, []);
+
+  /**
+   * Add an already finished video (e.g. reopened from the remote task list)
+   */
+  const addVideoResult = useCallback((result: VideoGenerationResult, modelId?: string): string => {
+    const now = Date.now();
+    const job: VideoJob = {
+      id: crypto.randomUUID(),
+      kind: 'video',
+      status: 'succeeded',
+      params: {
+        prompt: result.prompt,
+        mode: result.mode,
+        duration: result.parameters.duration,
+        resolution: result.parameters.resolution,
+        ratio: result.parameters.ratio,
+        generateAudio: result.parameters.generateAudio,
+        serviceTier: result.parameters.serviceTier,
+        returnLastFrame: result.parameters.returnLastFrame,
+        modelId,
+      },
+      createdAt: now,
+      startedAt: now,
+      finishedAt: now,
+      result,
+      taskId: result.taskId,
+      taskStatus: 'succeeded',
+      progress: 100,
+    };
+    startedRef.current.add(job.id);
+    resultClientsRef.current.set(job.id, getSeedanceClient(modelId));
+    setJobs(prev => [job, ...prev]);
+    return job.id;
+  }, []);
+
+  // ==========================================================================
+  // Managing Jobs
+  // ==========================================================================
+
+  /**
+   * Cancel a queued job, or a video job whose task is still queued on the server
+   * Running image requests and running video tasks cannot be interrupted.
+   */
+  const cancelJob = useCallback(async (id: string): Promise<boolean> => {
+    const job = jobs.find(item => item.id === id);
+    if (!job) return false;
+
+    if (job.status === 'queued') {
+      startedRef.current.add(id); // Never start it
+      updateJob(id, { status: 'cancelled', finishedAt: Date.now() });
+      return true;
+    }
+
+    const active = activeVideoRef.current.get(id);
+    if (job.kind !== 'video' || job.status !== 'running' || !active) return false;
+
+    // Task not created yet - abort locally, the runner cancels it once the ID arrives
+    if (!active.taskId || !active.client) {
+      active.controller.abort();
+      return true;
+    }
+
+    try {
+      await active.client.cancelTask(active.taskId);
+      active.controller.abort();
+      return true;
+    } catch (err) {
+      const cause = toStudioError(err, 'Failed to cancel video task');
+      updateJob<VideoJob>(id, {
+        error: new StudioError(
+          cause.code,
+          `Could not cancel: ${cause.message}. Tasks that are already running finish on the server.`,
+          { upstreamCode: cause.upstreamCode, type: cause.type, status: cause.status }
+        ),
+      });
+      return false;
+    }
+  }, [jobs, updateJob]);
+
+  /**
+   * Queue a finished job again with the same parameters
+   */
+  const retryJob = useCallback((id: string): string | null => {
+    const job = jobs.find(item => item.id === id);
+    if (!job || !isJobFinished(job)) return null;
+    return job.kind === 'image' ? enqueueImage(job.params) : enqueueVideo(job.params);
+  }, [jobs, enqueueImage, enqueueVideo]);
+
+  /**
+   * Regenerate one failed slot of a finished image job
+   */
+  const retryJobSlot = useCallback(async (id: string, index: number): Promise<boolean> => {
+    const job = jobs.find(item => item.id === id);
+    if (job?.kind !== 'image' || !job.result || job.retryingSlots.includes(index)) return false;
+
+    updateJob<ImageJob>(id, current => ({ retryingSlots: [...current.retryingSlots, index] }));
+    const { image, failure } = await retryImageSlot(job.params, index, {
+      onWaitingForSlot: (wait) => updateJob<ImageJob>(id, { waitingForSlot: wait }),
+    });
+    updateJob<ImageJob>(id, current => ({
+      result: current.result && replaceSlot(current.result, index, image, failure),
+      retryingSlots: current.retryingSlots.filter(slot => slot !== index),
+      waitingForSlot: null,
+    }));
+    return image !== undefined;
+  }, [jobs, updateJob]);
+
+  /**
+   * Remove a finished or cancelled job from the list
+   */
+  const removeJob = useCallback((id: string) => {
+    resultClientsRef.current.delete(id);
+    setJobs(prev => prev.filter(job => job.id !== id || !isJobFinished(job)));
+  }, []);
+
+  /**
+   * Delete a finished video's task on the server, then remove the job
+   */
+  const deleteVideoJob = useCallback(async (id: string): Promise<boolean> => {
+    const job = jobs.find(item => item.id === id);
+    const client = resultClientsRef.current.get(id);
+    if (job?.kind !== 'video' || !job.result || !client) return false;
+
+    try {
+      await client.cancelTask(job.result.taskId);
+      removeJob(id);
+      return true;
+    } catch (err) {
+      updateJob<VideoJob>(id, { error: toStudioError(err, 'Failed to delete video task') });
+      return false;
+    }
+  }, [jobs, removeJob, updateJob]);
+
+  /**
+   * Cancel every queued job of a group (running jobs finish)
+   */
+  const cancelGroup = useCallback((groupId: string) => {
+    setJobs(prev => prev.map(job => {
+      if (job.kind !== 'image' || job.group?.id !== groupId || job.status !== 'queued') return job;
+      startedRef.current.add(job.id); // Never start it
+      return { ...job, status: 'cancelled', finishedAt: Date.now() };
+    }));
+  }, []);
+
+  /**
+   * Remove a group and its finished jobs (running jobs stay in the list)
+   */
+  const removeGroup = useCallback((groupId: string) => {
+    setJobs(prev => prev.filter(job => job.kind !== 'image' || job.group?.id !== groupId || !isJobFinished(job)));
+    setGroups(prev => prev.filter(group => group.id !== groupId));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    const remaining = jobs.filter(job => !isJobFinished(job));
+    jobs.filter(isJobFinished).forEach(job => resultClientsRef.current.delete(job.id));
+    setJobs(prev => prev.filter(job => !isJobFinished(job)));
+    setGroups(prev => prev.filter(group =>
+      remaining.some(job => job.kind === 'image' && job.group?.id === group.id)
+    ));
+  }, [jobs]);
+
+  const clearFieldErrors = useCallback(() => setFieldErrors([]), []);
+
+  return {
+    jobs,
+    groups,
+    concurrency,
+    setConcurrency,
+    fieldErrors,
+    runningCount: jobs.filter(job => job.status === 'running').length,
+    queuedCount: jobs.filter(job => job.status === 'queued').length,
+    enqueueImage,
+    enqueueImageGroup,
+    enqueueVideo,
+    validateParams,
+    addVideoResult,
+    cancelJob,
+    retryJob,
+    retryJobSlot,
+    removeJob,
+    deleteVideoJob,
+    cancelGroup,
+    removeGroup,
+    clearFinished,
+    clearFieldErrors,
+  };
+}
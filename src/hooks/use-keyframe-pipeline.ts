@@ -0,0 +1,233 @@
+/**
+ * Keyframe pipeline hook
+ *
+ * Runs Seedream → Seedance pipelines through the job queue: both keyframes
+ * are queued as image jobs, and the image-to-video-frames task is queued as
+ * soon as both have an image. Nothing changes in the form, so the selected
+ * model and its settings stay as they are.
+ */
+
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { validateVideoGeneration } from '@/lib/generation-runner';
+import type { RequestFieldError } from '@/types/api';
+import type { GenerationJob, ImageGenerationParams, ImageJob, VideoGenerationParams } from '@/types/jobs';
+import type {
+  KeyframePipeline,
+  KeyframeRole,
+  KeyframeStageStatus,
+  KeyframeVideoSettings,
+} from '@/types/keyframes';
+
+interface KeyframeQueue {
+  jobs: GenerationJob[];
+  enqueueImage: (params: ImageGenerationParams) => string | null;
+  enqueueVideo: (params: VideoGenerationParams) => string | null;
+  validateParams: (images: ImageGenerationParams[], videos?: VideoGenerationParams[]) => RequestFieldError[];
+}
+
+export interface KeyframePipelineInput {
+  imageParams: ImageGenerationParams; // Shared keyframe settings (model, size, quality, references)
+  firstPrompt: string;
+  lastPrompt: string;
+  videoPrompt: string;
+  videoSettings: KeyframeVideoSettings;
+}
+
+export const KEYFRAME_ROLES: KeyframeRole[] = ['first', 'last'];
+
+// Stands in for the keyframes when the video settings are checked before they exist
+const PLACEHOLDER_KEYFRAME = 'data:image/png;base64,';
+
+function findImageJob(jobs: GenerationJob[], id: string | null): ImageJob | undefined {
+  const job = id ? jobs.find(item => item.id === id) : undefined;
+  return job?.kind === 'image' ? job : undefined;
+}
+
+/**
+ * First image of a finished keyframe job, as a data URI
+ */
+export function keyframeImage(jobs: GenerationJob[], pipeline: KeyframePipeline, role: KeyframeRole): string | null {
+  const job = findImageJob(jobs, pipeline.keyframeJobIds[role]);
+  const base64 = job?.status === 'succeeded' ? job.result?.images[0]?.base64 : undefined;
+  if (!base64) return null;
+  return base64.startsWith('data:') ? base64 : `data:image/png;base64,${base64}`;
+}
+
+function videoParams(
+  pipeline: Pick<KeyframePipeline, 'videoPrompt' | 'videoSettings'>,
+  first: string,
+  last: string
+): VideoGenerationParams {
+  return {
+    ...pipeline.videoSettings,
+    prompt: pipeline.videoPrompt,
+    mode: 'image-to-video-frames',
+    images: [
+      { url: first, role: 'first_frame' },
+      { url: last, role: 'last_frame' },
+    ],
+  };
+}
+
+/**
+ * Status of one keyframe
+ */
+function statusOfKeyframe(jobs: GenerationJob[], pipeline: KeyframePipeline, role: KeyframeRole): KeyframeStageStatus {
+  const job = findImageJob(jobs, pipeline.keyframeJobIds[role]);
+  if (!job) return 'failed'; // Rejected by validation or removed from the queue
+  if (job.status === 'succeeded' && !keyframeImage(jobs, pipeline, role)) return 'failed'; // Filtered
+  return job.status;
+}
+
+/**
+ * Status of the video stage
+ */
+function statusOfVideo(jobs: GenerationJob[], pipeline: KeyframePipeline): KeyframeStageStatus {
+  const job = pipeline.videoJobId ? jobs.find(item => item.id === pipeline.videoJobId) : undefined;
+  if (job) return job.status;
+  if (pipeline.videoJobId || pipeline.videoError) return 'failed'; // Removed from the queue or rejected
+
+  const keyframes = KEYFRAME_ROLES.map(role => statusOfKeyframe(jobs, pipeline, role));
+  return keyframes.some(status => status === 'failed' || status === 'cancelled') ? 'blocked' : 'waiting';
+}
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+export function useKeyframePipeline({ jobs, enqueueImage, enqueueVideo, validateParams }: KeyframeQueue) {
+  const [pipelines, setPipelines] = useState<KeyframePipeline[]>([]); // Newest first
+
+  const submittedRef = useRef(new Set<string>()); // "pipelineId:firstJobId:lastJobId" already sent to Seedance
+
+  const updatePipeline = useCallback((id: string, patch: Partial<KeyframePipeline>) => {
+    setPipelines(prev => prev.map(pipeline => (pipeline.id === id ? { ...pipeline, ...patch } : pipeline)));
+  }, []);
+
+  /**
+   * Queue both keyframes
+   * Both keyframes and the video settings are validated first, so nothing is
+   * queued unless every stage can run. Returns the pipeline ID, or null.
+   */
+  const runPipeline = useCallback((input: KeyframePipelineInput): string | null => {
+    const keyframeParams: Record<KeyframeRole, ImageGenerationParams> = {
+      first: { ...input.imageParams, prompt: input.firstPrompt, batchMode: false, maxImages: undefined, stream: false },
+      last: { ...input.imageParams, prompt: input.lastPrompt, batchMode: false, maxImages: undefined, stream: false },
+    };
+
+    const video = videoParams(input, PLACEHOLDER_KEYFRAME, PLACEHOLDER_KEYFRAME);
+    if (validateParams([keyframeParams.first, keyframeParams.last], [video]).length > 0) return null;
+
+    const first = enqueueImage(keyframeParams.first);
+    const last = enqueueImage(keyframeParams.last);
+    if (!first || !last) return null;
+
+    const pipeline: KeyframePipeline = {
+      id: crypto.randomUUID(),
+      keyframeParams,
+      videoPrompt: input.videoPrompt,
+      videoSettings: input.videoSettings,
+      keyframeJobIds: { first, last },
+      videoJobId: null,
+      videoError: null,
+      createdAt: Date.now(),
+    };
+    setPipelines(prev => [pipeline, ...prev]);
+    return pipeline.id;
+  }, [enqueueImage, validateParams]);
+
+  /**
+   * Queue the video from both keyframes
+   * A rejected video is recorded on the pipeline instead of being retried
+   */
+  const submitVideo = useCallback((pipeline: KeyframePipeline, first: string, last: string): string | null => {
+    const params = videoParams(pipeline, first, last);
+    const videoJobId = enqueueVideo(params);
+    if (videoJobId) {
+      updatePipeline(pipeline.id, { videoJobId, videoError: null });
+    } else {
+      const errors = validateVideoGeneration(params);
+      updatePipeline(pipeline.id, {
+        videoError: errors.map(error => error.message).join('; ') || 'The video could not be queued',
+      });
+    }
+    return videoJobId;
+  }, [enqueueVideo, updatePipeline]);
+
+  // Hand both keyframes to Seedance once they are ready
+  useEffect(() => {
+    pipelines.forEach(pipeline => {
+      if (pipeline.videoJobId || pipeline.videoError) return;
+
+      const first = keyframeImage(jobs, pipeline, 'first');
+      const last = keyframeImage(jobs, pipeline, 'last');
+      if (!first || !last) return;
+
+      const key = `${pipeline.id}:${pipeline.keyframeJobIds.first}:${pipeline.keyframeJobIds.last}`;
+      if (submittedRef.current.has(key)) return;
+
+      if (submitVideo(pipeline, first, last)) {
+        submittedRef.current.add(key);
+      }
+    });
+  }, [pipelines, jobs, submitVideo]);
+
+  /**
+   * Generate one keyframe again
+   * The video is queued again once both keyframes are ready
+   */
+  const regenerateKeyframe = useCallback((pipelineId: string, role: KeyframeRole): string | null => {
+    const pipeline = pipelines.find(item => item.id === pipelineId);
+    if (!pipeline) return null;
+
+    const jobId = enqueueImage(pipeline.keyframeParams[role]);
+    if (jobId) {
+      updatePipeline(pipelineId, {
+        keyframeJobIds: { ...pipeline.keyframeJobIds, [role]: jobId },
+        videoJobId: null,
+        videoError: null,
+      });
+    }
+    return jobId;
+  }, [pipelines, enqueueImage, updatePipeline]);
+
+  /**
+   * Queue the video again from the current keyframes
+   */
+  const regenerateVideo = useCallback((pipelineId: string): string | null => {
+    const pipeline = pipelines.find(item => item.id === pipelineId);
+    if (!pipeline) return null;
+
+    const first = keyframeImage(jobs, pipeline, 'first');
+    const last = keyframeImage(jobs, pipeline, 'last');
+    if (!first || !last) return null;
+
+    return submitVideo(pipeline, first, last);
+  }, [pipelines, jobs, submitVideo]);
+
+  const removePipeline = useCallback((pipelineId: string) => {
+    setPipelines(prev => prev.filter(pipeline => pipeline.id !== pipelineId));
+  }, []);
+
+  const keyframeStatus = useCallback(
+    (pipeline: KeyframePipeline, role: KeyframeRole) => statusOfKeyframe(jobs, pipeline, role),
+    [jobs]
+  );
+
+  const videoStatus = useCallback(
+    (pipeline: KeyframePipeline) => statusOfVideo(jobs, pipeline),
+    [jobs]
+  );
+
+  return {
+    pipelines,
+    runPipeline,
+    regenerateKeyframe,
+    regenerateVideo,
+    removePipeline,
+    keyframeStatus,
+    videoStatus,
+  };
+}
@@ -1,20 +1,37 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { supabase } from '@/lib/supabase/client';
+import {
+  deletePreset as deletePresetRow,
+  getPreset as getPresetRow,
+  insertPreset,
+  listPresets,
+  updatePreset,
+} from '@/lib/supabase/repository';
 import type { Preset } from '@/types/database';
-import type { GenerationMode, Quality } from '@/types/api';
+import type { Quality, SeaDreamModel, UnifiedMode } from '@/types/api';
+import type { VideoDuration, VideoRatio, VideoResolution, VideoServiceTier } from '@/types/video-api';
+
+export interface PresetVideoSettings {
+  duration: VideoDuration;
+  resolution: VideoResolution;
+  ratio: VideoRatio;
+  generateAudio: boolean;
+  serviceTier: VideoServiceTier;
+}
 
-interface PresetInput {
+export interface PresetInput {
   name: string;
   description?: string;
-  mode: GenerationMode;
+  mode: UnifiedMode;
+  model?: SeaDreamModel;
   prompt: string;
   referenceImageUrls?: string[];
   size: string;
   quality: Quality;
   batchMode: boolean;
   maxImages?: number;
+  video?: PresetVideoSettings; // Seedance parameters (video presets only)
 }
 
 export function usePresets() {
@@ -28,15 +45,7 @@ export function usePresets() {
     setError(null);
 
     try {
-      const { data, error: fetchError } = await supabase
-        .from('presets')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (fetchError) throw fetchError;
-
-      // Cast to correct type (migration will update schema)
-      setPresets((data as unknown as Preset[]) || []);
+      setPresets(await listPresets());
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch presets';
       setError(errorMessage);
@@ -50,8 +59,7 @@ export function usePresets() {
     setError(null);
 
     try {
-      // Cast to any to bypass Supabase type inference (migration will update schema)
-      const { error: insertError } = await supabase.from('presets').insert({
+      await insertPreset({
         name: preset.name,
         description: preset.description || null,
         mode: preset.mode,
@@ -61,9 +69,13 @@ export function usePresets() {
         quality: preset.quality,
         batch_mode: preset.batchMode,
         max_images: preset.batchMode ? (preset.maxImages || null) : null,
-      } as any);
-
-      if (insertError) throw insertError;
+        model: preset.model ?? null,
+        duration: preset.video?.duration ?? null,
+        resolution: preset.video?.resolution ?? null,
+        ratio: preset.video?.ratio ?? null,
+        generate_audio: preset.video?.generateAudio ?? null,
+        service_tier: preset.video?.serviceTier ?? null,
+      });
 
       // Refresh presets list
       await fetchPresets();
@@ -75,17 +87,27 @@ export function usePresets() {
     }
   };
 
+  // Rename a preset
+  const renamePreset = async (id: string, name: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      await updatePreset(id, { name });
+      setPresets((prev) => prev.map((preset) => (preset.id === id ? { ...preset, name } : preset)));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to rename preset';
+      setError(errorMessage);
+      return false;
+    }
+  };
+
   // Delete a preset
   const deletePreset = async (id: string): Promise<boolean> => {
     setError(null);
 
     try {
-      const { error: deleteError } = await supabase
-        .from('presets')
-        .delete()
-        .eq('id', id);
-
-      if (deleteError) throw deleteError;
+      await deletePresetRow(id);
 
       // Refresh presets list
       await fetchPresets();
@@ -100,16 +122,7 @@ export function usePresets() {
   // Get preset by ID
   const getPreset = async (id: string): Promise<Preset | null> => {
     try {
-      const { data, error: fetchError } = await supabase
-        .from('presets')
-        .select('*')
-        .eq('id', id)
-        .single();
-
-      if (fetchError) throw fetchError;
-
-      // Cast to correct type (migration will update schema)
-      return data as unknown as Preset;
+      return await getPresetRow(id);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch preset';
       setError(errorMessage);
@@ -118,7 +131,7 @@ export function usePresets() {
   };
 
   // Filter presets by mode
-  const getPresetsByMode = (mode: GenerationMode): Preset[] => {
+  const getPresetsByMode = (mode: UnifiedMode): Preset[] => {
     return presets.filter((preset) => preset.mode === mode);
   };
 
@@ -135,6 +148,7 @@ export function usePresets() {
     error,
     fetchPresets,
     createPreset,
+    renamePreset,
     deletePreset,
     getPreset,
     getPresetsByMode,
@@ -0,0 +1,113 @@
+/**
+ * Remote video task list hook
+ *
+ * Browses tasks stored on Ark (last 7 days) so finished videos survive a page refresh:
+ * - Paginated listing via GET /api/generate-video
+ * - Status / task ID filters
+ * - Rebuilding a VideoGenerationResult for VideoOutput
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { getSeedanceClient, taskToVideoResult } from '@/lib/seedance-client';
+import type {
+  VideoTaskResponse,
+  VideoTaskStatus,
+  VideoGenerationResult,
+} from '@/types/video-api';
+
+// ============================================================================
+// Filter Interface
+// ============================================================================
+
+export interface RemoteTaskFilters {
+  status?: VideoTaskStatus;
+  taskIds?: string[];
+  model?: string;
+}
+
+const DEFAULT_PAGE_SIZE = 10;
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+export function useRemoteVideoTasks(modelId?: string) {
+  const [tasks, setTasks] = useState<VideoTaskResponse[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [pageSize] = useState(DEFAULT_PAGE_SIZE);
+  const [filters, setFilters] = useState<RemoteTaskFilters>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  /**
+   * Load one page of tasks
+   */
+  const loadPage = useCallback(async (
+    pageNum: number = 1,
+    nextFilters: RemoteTaskFilters = filters
+  ) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const client = getSeedanceClient(modelId);
+      const data = await client.listTasks({
+        page_num: pageNum,
+        page_size: pageSize,
+        filter: {
+          status: nextFilters.status,
+          task_ids: nextFilters.taskIds?.length ? nextFilters.taskIds : undefined,
+          model: nextFilters.model,
+        },
+      });
+
+      setTasks(data.items);
+      setTotal(data.total);
+      setPage(pageNum);
+      setFilters(nextFilters);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load remote tasks';
+      setError(errorMessage);
+      console.error('Failed to load remote tasks:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [modelId, pageSize, filters]);
+
+  /**
+   * Apply new filters (resets to first page)
+   */
+  const applyFilters = useCallback((nextFilters: RemoteTaskFilters) => {
+    return loadPage(1, nextFilters);
+  }, [loadPage]);
+
+  /**
+   * Rebuild a result for VideoOutput from a listed task
+   * Returns null for tasks without a playable video
+   */
+  const toResult = useCallback((task: VideoTaskResponse): VideoGenerationResult | null => {
+    if (task.status !== 'succeeded' || !task.content?.video_url) {
+      return null;
+    }
+    return taskToVideoResult(task);
+  }, []);
+
+  return {
+    tasks,
+    total,
+    page,
+    pageSize,
+    pageCount,
+    filters,
+    loading,
+    error,
+    loadPage,
+    applyFilters,
+    toResult,
+  };
+}
@@ -0,0 +1,302 @@
+/**
+ * Storyboard hook
+ *
+ * Holds the shot list being edited and runs submitted storyboards through
+ * the job queue. Unchained shots are queued together; chained shots are
+ * queued one at a time as each previous shot returns its last frame.
+ */
+
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { validateVideoGeneration } from '@/lib/generation-runner';
+import type { GenerationJob, VideoGenerationParams, VideoJob } from '@/types/jobs';
+import type { VideoImageInput, VideoMode } from '@/types/video-api';
+import type {
+  StoryboardRun,
+  StoryboardSettings,
+  StoryboardShot,
+  StoryboardShotStatus,
+} from '@/types/storyboard';
+
+const STORYBOARD_STORAGE_KEY = 'seedream:storyboard';
+export const MAX_STORYBOARD_SHOTS = 12;
+
+interface StoryboardQueue {
+  jobs: GenerationJob[];
+  enqueueVideo: (params: VideoGenerationParams) => string | null;
+}
+
+// Draft saved in localStorage (frames are left out, data URIs are too large)
+interface StoredDraft {
+  shots: Pick<StoryboardShot, 'prompt' | 'duration' | 'ratio'>[];
+  chainFrames: boolean;
+}
+
+function createShot(values: Partial<StoryboardShot> = {}): StoryboardShot {
+  return { id: crypto.randomUUID(), prompt: '', duration: 5, ratio: '16:9', ...values };
+}
+
+function readStoredDraft(): StoredDraft | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORYBOARD_STORAGE_KEY) || 'null');
+    return stored && Array.isArray(stored.shots) && stored.shots.length > 0 ? stored : null;
+  } catch {
+    return null; // Corrupt storage, start with an empty storyboard
+  }
+}
+
+/**
+ * Request for one shot
+ * firstFrameUrl/parentTaskId come from the previous shot when chaining
+ */
+function shotParams(
+  run: StoryboardRun,
+  index: number,
+  chained?: { firstFrameUrl: string; parentTaskId: string }
+): VideoGenerationParams {
+  const shot = run.shots[index];
+  const firstFrame = chained?.firstFrameUrl ?? shot.firstFrame;
+
+  const images: VideoImageInput[] = [];
+  if (firstFrame) images.push({ url: firstFrame, role: 'first_frame' });
+  if (shot.lastFrame) images.push({ url: shot.lastFrame, role: 'last_frame' });
+
+  const mode: VideoMode = firstFrame && shot.lastFrame
+    ? 'image-to-video-frames'
+    : firstFrame
+      ? 'image-to-video-first'
+      : shot.lastFrame
+        ? 'image-to-video-frames' // Rejected by validation: a last frame needs a first frame
+        : 'text-to-video';
+
+  return {
+    prompt: shot.prompt,
+    mode,
+    images: images.length > 0 ? images : undefined,
+    duration: shot.duration,
+    ratio: shot.ratio,
+    resolution: run.settings.resolution,
+    generateAudio: run.settings.generateAudio,
+    serviceTier: run.settings.serviceTier,
+    expiresAfter: run.settings.expiresAfter,
+    modelId: run.settings.modelId,
+    returnLastFrame: run.chainFrames,
+    parentTaskId: chained?.parentTaskId,
+  };
+}
+
+/**
+ * Message for a shot the queue rejected
+ */
+function rejectionMessage(params: VideoGenerationParams): string {
+  return validateVideoGeneration(params).map(error => error.message).join('; ') || 'The shot could not be queued';
+}
+
+function findVideoJob(jobs: GenerationJob[], id: string | null): VideoJob | undefined {
+  const job = id ? jobs.find(item => item.id === id) : undefined;
+  return job?.kind === 'video' ? job : undefined;
+}
+
+/**
+ * Previous shot's output for a chained shot, once it is available
+ */
+function chainedInput(jobs: GenerationJob[], run: StoryboardRun, index: number) {
+  const previous = findVideoJob(jobs, run.shotJobIds[index - 1]);
+  if (previous?.status !== 'succeeded' || !previous.result?.lastFrameUrl) return null;
+  return {
+    firstFrameUrl: new URL(previous.result.lastFrameUrl, window.location.origin).href,
+    parentTaskId: previous.result.taskId,
+  };
+}
+
+/**
+ * Status of one shot of a run
+ */
+function statusOfShot(jobs: GenerationJob[], run: StoryboardRun, index: number): StoryboardShotStatus {
+  const job = findVideoJob(jobs, run.shotJobIds[index]);
+  if (job) return job.status;
+  if (run.shotErrors[index] || !run.chainFrames || index === 0) return 'failed'; // Rejected by validation
+
+  const previous = statusOfShot(jobs, run, index - 1);
+  if (previous === 'succeeded') {
+    return findVideoJob(jobs, run.shotJobIds[index - 1])?.result?.lastFrameUrl ? 'waiting' : 'blocked';
+  }
+  return previous === 'failed' || previous === 'cancelled' || previous === 'blocked' ? 'blocked' : 'waiting';
+}
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+export function useStoryboard({ jobs, enqueueVideo }: StoryboardQueue) {
+  // The editor only renders in video mode, which is chosen after hydration,
+  // so the saved draft can be read while initialising state
+  const [shots, setShots] = useState<StoryboardShot[]>(() => {
+    const draft = readStoredDraft();
+    return draft ? draft.shots.map(shot => createShot(shot)) : [createShot()];
+  });
+  const [chainFrames, setChainFrames] = useState(() => readStoredDraft()?.chainFrames !== false);
+  const [runs, setRuns] = useState<StoryboardRun[]>([]); // Newest first
+
+  const queuedRef = useRef(new Set<string>()); // "runId:index" already queued by the chaining effect
+
+  // Save the draft (without frames)
+  useEffect(() => {
+    const draft: StoredDraft = {
+      shots: shots.map(({ prompt, duration, ratio }) => ({ prompt, duration, ratio })),
+      chainFrames,
+    };
+    localStorage.setItem(STORYBOARD_STORAGE_KEY, JSON.stringify(draft));
+  }, [shots, chainFrames]);
+
+  // ==========================================================================
+  // Editing
+  // ==========================================================================
+
+  const addShot = useCallback(() => {
+    setShots(prev => {
+      if (prev.length >= MAX_STORYBOARD_SHOTS) return prev;
+      const last = prev[prev.length - 1];
+      return [...prev, createShot({ duration: last?.duration, ratio: last?.ratio })];
+    });
+  }, []);
+
+  const updateShot = useCallback((id: string, patch: Partial<Omit<StoryboardShot, 'id'>>) => {
+    setShots(prev => prev.map(shot => (shot.id === id ? { ...shot, ...patch } : shot)));
+  }, []);
+
+  const removeShot = useCallback((id: string) => {
+    setShots(prev => (prev.length > 1 ? prev.filter(shot => shot.id !== id) : prev));
+  }, []);
+
+  const moveShot = useCallback((id: string, offset: -1 | 1) => {
+    setShots(prev => {
+      const index = prev.findIndex(shot => shot.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  // ==========================================================================
+  // Running
+  // ==========================================================================
+
+  const setShotJob = useCallback((runId: string, index: number, jobId: string) => {
+    setRuns(prev => prev.map(run => run.id !== runId ? run : {
+      ...run,
+      shotJobIds: run.shotJobIds.map((id, shotIndex) => (shotIndex === index ? jobId : id)),
+      shotErrors: run.shotErrors.map((error, shotIndex) => (shotIndex === index ? null : error)),
+    }));
+  }, []);
+
+  const setShotError = useCallback((runId: string, index: number, message: string) => {
+    setRuns(prev => prev.map(run => run.id !== runId ? run : {
+      ...run,
+      shotErrors: run.shotErrors.map((error, shotIndex) => (shotIndex === index ? message : error)),
+    }));
+  }, []);
+
+  /**
+   * Submit the current shots
+   * Returns the run ID, or null when the first shot fails validation
+   */
+  const runStoryboard = useCallback((settings: StoryboardSettings): string | null => {
+    const run: StoryboardRun = {
+      id: crypto.randomUUID(),
+      shots: shots.map(shot => ({ ...shot })),
+      chainFrames: chainFrames && shots.length > 1,
+      settings,
+      shotJobIds: shots.map(() => null),
+      shotErrors: shots.map(() => null),
+      createdAt: Date.now(),
+    };
+
+    // Chained runs start with the first shot; the effect below queues the rest
+    const initial = run.chainFrames ? [0] : run.shots.map((_, index) => index);
+    for (const index of initial) {
+      const params = shotParams(run, index);
+      const jobId = enqueueVideo(params);
+      if (!jobId) {
+        if (index === 0) return null;
+        run.shotErrors[index] = rejectionMessage(params);
+        continue;
+      }
+      run.shotJobIds[index] = jobId;
+    }
+
+    setRuns(prev => [run, ...prev]);
+    return run.id;
+  }, [shots, chainFrames, enqueueVideo]);
+
+  // Queue chained shots as soon as the previous shot's last frame is available
+  useEffect(() => {
+    for (const run of runs) {
+      if (!run.chainFrames) continue;
+      run.shotJobIds.forEach((jobId, index) => {
+        const key = `${run.id}:${index}`;
+        if (index === 0 || jobId || run.shotErrors[index] || queuedRef.current.has(key)) return;
+
+        const chained = chainedInput(jobs, run, index);
+        if (!chained) return;
+
+        // A rejected shot is recorded on the run (and shown as failed) instead of waiting forever
+        const params = shotParams(run, index, chained);
+        const newJobId = enqueueVideo(params);
+        if (newJobId) {
+          queuedRef.current.add(key);
+          setShotJob(run.id, index, newJobId);
+        } else {
+          setShotError(run.id, index, rejectionMessage(params));
+        }
+      });
+    }
+  }, [runs, jobs, enqueueVideo, setShotJob, setShotError]);
+
+  /**
+   * Queue one shot of a run again with the same inputs
+   * Chained shots start from the previous shot's current last frame
+   */
+  const regenerateShot = useCallback((runId: string, index: number): string | null => {
+    const run = runs.find(item => item.id === runId);
+    if (!run) return null;
+
+    const chained = run.chainFrames && index > 0 ? chainedInput(jobs, run, index) : undefined;
+    if (chained === null) return null; // Previous shot has no last frame yet
+
+    const jobId = enqueueVideo(shotParams(run, index, chained));
+    if (jobId) {
+      queuedRef.current.add(`${run.id}:${index}`);
+      setShotJob(run.id, index, jobId);
+    }
+    return jobId;
+  }, [runs, jobs, enqueueVideo, setShotJob]);
+
+  const removeRun = useCallback((runId: string) => {
+    setRuns(prev => prev.filter(run => run.id !== runId));
+  }, []);
+
+  const shotStatus = useCallback(
+    (run: StoryboardRun, index: number) => statusOfShot(jobs, run, index),
+    [jobs]
+  );
+
+  return {
+    shots,
+    chainFrames,
+    setChainFrames,
+    addShot,
+    updateShot,
+    removeShot,
+    moveShot,
+    runs,
+    runStoryboard,
+    regenerateShot,
+    removeRun,
+    shotStatus,
+  };
+}
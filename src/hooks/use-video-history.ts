@@ -10,36 +10,16 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import { supabase } from '@/lib/supabase/client';
-import type { VideoGenerationResult, VideoMode } from '@/types/video-api';
-
-// ============================================================================
-// Database Type (matches migration schema)
-// ============================================================================
-
-interface VideoGenerationDB {
-  id: string;
-  created_at: string;
-  task_id: string;
-  parent_task_id: string | null;
-  prompt: string;
-  mode: string; // Stored as string in DB, validated at insert
-  reference_image_urls: string[] | null;
-  duration: number;
-  resolution: string;
-  ratio: string;
-  framespersecond: number;
-  generate_audio: boolean;
-  service_tier: string;
-  return_last_frame: boolean;
-  video_url: string | null;
-  last_frame_url: string | null;
-  seed: number;
-  generation_time_ms: number | null;
-  model_version: string;
-  completion_tokens: number | null;
-  total_tokens: number | null;
-}
+import { getVideoGeneration, listVideoGenerations, listVideoIterationChain } from '@/lib/supabase/repository';
+import type { VideoGeneration } from '@/types/database';
+import type {
+  VideoDuration,
+  VideoGenerationResult,
+  VideoMode,
+  VideoRatio,
+  VideoResolution,
+  VideoServiceTier,
+} from '@/types/video-api';
 
 // ============================================================================
 // Transformation Helper
@@ -48,21 +28,22 @@ interface VideoGenerationDB {
 /**
  * Transform database record to VideoGenerationResult
  */
-function transformDbToResult(record: VideoGenerationDB): VideoGenerationResult {
+function transformDbToResult(record: VideoGeneration): VideoGenerationResult {
   return {
     id: record.id,
     taskId: record.task_id,
     videoUrl: record.video_url || '',
     lastFrameUrl: record.last_frame_url || undefined,
+    parentTaskId: record.parent_task_id || undefined,
     prompt: record.prompt,
     mode: record.mode as VideoMode, // Cast from string to VideoMode
     referenceImageUrls: record.reference_image_urls || undefined,
     parameters: {
-      duration: record.duration as any, // Cast to VideoDuration
-      resolution: record.resolution as any, // Cast to VideoResolution
-      ratio: record.ratio as any, // Cast to VideoRatio
+      duration: record.duration as VideoDuration,
+      resolution: record.resolution as VideoResolution,
+      ratio: record.ratio as VideoRatio,
       generateAudio: record.generate_audio,
-      serviceTier: record.service_tier as any, // Cast to VideoServiceTier
+      serviceTier: record.service_tier as VideoServiceTier,
       returnLastFrame: record.return_last_frame,
     },
     actualDuration: record.duration,
@@ -94,20 +75,8 @@ export function useVideoHistory() {
     setError(null);
 
     try {
-      const { data, error: fetchError } = await supabase
-        .from('video_generations')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .limit(limit);
-
-      if (fetchError) {
-        throw fetchError;
-      }
-
-      if (data) {
-        const transformed = data.map(transformDbToResult);
-        setHistory(transformed);
-      }
+      const records = await listVideoGenerations(limit);
+      setHistory(records.map(transformDbToResult));
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load video history';
       setError(errorMessage);
@@ -125,20 +94,10 @@ export function useVideoHistory() {
     setError(null);
 
     try {
-      const { data, error: fetchError } = await supabase
-        .from('video_generations')
-        .select('*')
-        .eq('task_id', taskId)
-        .single();
-
-      if (fetchError || !data) {
-        throw new Error('Video not found');
-      }
-
-      return transformDbToResult(data);
+      const record = await getVideoGeneration(taskId);
+      return transformDbToResult(record);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load video';
-      setError(errorMessage);
+      setError('Video not found');
       console.error('Failed to load video:', err);
       return null;
     } finally {
@@ -154,25 +113,7 @@ export function useVideoHistory() {
     setError(null);
 
     try {
-      const { data, error: fetchError } = await supabase
-        .rpc('get_video_iteration_chain', { root_task_id: rootTaskId });
-
-      if (fetchError || !data) {
-        throw new Error('Failed to load iteration chain');
-      }
-
-      // Load full records for each task ID
-      const taskIds = data.map((row) => row.task_id);
-      const { data: records, error: recordError } = await supabase
-        .from('video_generations')
-        .select('*')
-        .in('task_id', taskIds)
-        .order('created_at', { ascending: true });
-
-      if (recordError || !records) {
-        throw new Error('Failed to load iteration records');
-      }
-
+      const records = await listVideoIterationChain(rootTaskId);
       return records.map(transformDbToResult);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load iteration chain';
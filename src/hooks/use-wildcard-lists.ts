@@ -0,0 +1,88 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { isValidListName, type WildcardLists } from '@/lib/prompt-matrix';
+
+const WILDCARDS_STORAGE_KEY = 'seedream:wildcards';
+
+function isWildcardLists(value: unknown): value is WildcardLists {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(list => Array.isArray(list) && list.every(item => typeof item === 'string'));
+}
+
+const EMPTY_LISTS: WildcardLists = {};
+
+function parseStoredLists(raw: string | null): WildcardLists {
+  try {
+    const stored: unknown = JSON.parse(raw || '{}');
+    return isWildcardLists(stored) ? stored : EMPTY_LISTS;
+  } catch {
+    return EMPTY_LISTS; // Corrupt storage, start with no lists
+  }
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+// Parsed lists are cached per raw value so snapshots stay referentially stable
+let cachedRaw: string | null = null;
+let cachedLists: WildcardLists = EMPTY_LISTS;
+const listeners = new Set<() => void>();
+
+function getSnapshot(): WildcardLists {
+  const raw = localStorage.getItem(WILDCARDS_STORAGE_KEY);
+  if (raw !== cachedRaw) {
+    cachedRaw = raw;
+    cachedLists = parseStoredLists(raw);
+  }
+  return cachedLists;
+}
+
+// No localStorage during server rendering
+function getServerSnapshot(): WildcardLists {
+  return EMPTY_LISTS;
+}
+
+// Changes from this tab (persist) and from other tabs (storage event)
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+/**
+ * Saved `__listname__` wildcard lists for prompt matrices (kept in localStorage)
+ */
+export function useWildcardLists() {
+  const lists = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  const persist = (next: WildcardLists) => {
+    localStorage.setItem(WILDCARDS_STORAGE_KEY, JSON.stringify(next));
+    listeners.forEach(listener => listener());
+  };
+
+  /**
+   * Create or replace a list; returns false for invalid names or empty lists
+   */
+  const saveList = (name: string, values: string[]): boolean => {
+    if (!isValidListName(name) || values.length === 0) return false;
+    persist({ ...lists, [name]: values });
+    return true;
+  };
+
+  const deleteList = (name: string) => {
+    const next = { ...lists };
+    delete next[name];
+    persist(next);
+  };
+
+  return {
+    lists,
+    saveList,
+    deleteList,
+  };
+}
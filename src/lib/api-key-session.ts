@@ -0,0 +1,142 @@
+/**
+ * API key session (server only)
+ *
+ * The browser exchanges its BytePlus API key once via POST /api/session and
+ * gets back an encrypted httpOnly cookie. Proxy routes decrypt the key from
+ * that cookie, so the raw key never sits in localStorage or request bodies.
+ *
+ * Encryption: AES-256-GCM via Web Crypto (works in Node and edge runtimes),
+ * keyed by API_KEY_SESSION_SECRET.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { VideoError } from '@/types/video-api';
+import { isMockArkEnabled, MOCK_API_KEY } from './ark-api';
+
+export const SESSION_COOKIE_NAME = 'seedream_session';
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30; // 30 days
+
+// Local development works without configuration; production must set a real secret
+const DEV_SESSION_SECRET = 'seedream-studio-dev-session-secret';
+
+interface SessionPayload {
+  k: string; // API key
+  iat: number; // Issued at (seconds)
+}
+
+let cachedKey: Promise<CryptoKey> | null = null;
+
+function getEncryptionKey(): Promise<CryptoKey> {
+  if (!cachedKey) {
+    const secret = process.env.API_KEY_SESSION_SECRET
+      || (process.env.NODE_ENV !== 'production' ? DEV_SESSION_SECRET : null);
+    if (!secret) {
+      throw new Error('API_KEY_SESSION_SECRET is not configured');
+    }
+
+    cachedKey = crypto.subtle
+      .digest('SHA-256', new TextEncoder().encode(secret))
+      .then(hash => crypto.subtle.importKey('raw', hash, 'AES-GCM', false, ['encrypt', 'decrypt']));
+  }
+  return cachedKey;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Encrypt an API key into a cookie value (base64url of IV + ciphertext)
+ */
+export async function encryptApiKey(apiKey: string): Promise<string> {
+  const payload: SessionPayload = { k: apiKey, iat: Math.floor(Date.now() / 1000) };
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getEncryptionKey(),
+    new TextEncoder().encode(JSON.stringify(payload))
+  );
+
+  const sealed = new Uint8Array(iv.length + ciphertext.byteLength);
+  sealed.set(iv);
+  sealed.set(new Uint8Array(ciphertext), iv.length);
+  return toBase64Url(sealed);
+}
+
+/**
+ * Decrypt a cookie value
+ * Returns null for tampered, foreign or expired sessions
+ */
+export async function decryptApiKey(value: string): Promise<string | null> {
+  try {
+    const sealed = fromBase64Url(value);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: sealed.subarray(0, 12) },
+      await getEncryptionKey(),
+      sealed.subarray(12)
+    );
+
+    const payload = JSON.parse(new TextDecoder().decode(plaintext)) as SessionPayload;
+    if (!payload.k || Date.now() / 1000 - payload.iat > SESSION_MAX_AGE_SECONDS) {
+      return null;
+    }
+    return payload.k;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the API key for a proxied request from the session cookie
+ * The mock backend accepts requests without a session
+ */
+export async function getSessionApiKey(request: NextRequest): Promise<string | null> {
+  const cookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const apiKey = cookie ? await decryptApiKey(cookie) : null;
+  return apiKey ?? (isMockArkEnabled() ? MOCK_API_KEY : null);
+}
+
+/**
+ * Cookie attributes for the session
+ */
+export function sessionCookieOptions(maxAge: number = SESSION_MAX_AGE_SECONDS) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+    path: '/',
+    maxAge,
+  };
+}
+
+/**
+ * Masked key for display (first 4 + last 4 characters)
+ */
+export function maskApiKey(apiKey: string): string {
+  return apiKey.length <= 8 ? '••••' : `${apiKey.slice(0, 4)}…${apiKey.slice(-4)}`;
+}
+
+/**
+ * 401 response for proxy routes called without a valid session
+ */
+export function missingSessionResponse() {
+  return NextResponse.json(
+    {
+      error: {
+        code: 'invalid_api_key',
+        message: 'No API key session. Enter your API key to connect.',
+        type: 'authentication_error',
+      },
+    } as VideoError,
+    { status: 401 }
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Ark API access for server routes
+ *
+ * Single place that decides where upstream requests go:
+ * - NEXT_PUBLIC_ARK_MOCK=true → built-in mock backend (no network, any API key)
+ * - NEXT_PUBLIC_SEEDREAM_API_URL → custom Ark base URL
+ * - otherwise the BytePlus ap-southeast endpoint
+ */
+
+export const ARK_API_URL =
+  process.env.NEXT_PUBLIC_SEEDREAM_API_URL || 'https://ark.ap-southeast.bytepluses.com/api/v3';
+
+// Placeholder key sent by the browser when the mock backend is enabled
+export const MOCK_API_KEY = 'mock-api-key';
+
+/**
+ * Whether the mock backend is enabled (readable on both server and client)
+ */
+export function isMockArkEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_ARK_MOCK === 'true';
+}
+
+/**
+ * fetch() against the Ark API
+ * @param path - Path below /api/v3, e.g. '/images/generations'
+ */
+export async function arkFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  if (isMockArkEnabled()) {
+    // Loaded lazily so the browser bundle (which only needs the flags above) stays small
+    const { handleMockArkRequest } = await import('./mock-ark');
+    return handleMockArkRequest(path, init);
+  }
+  return fetch(`${ARK_API_URL}${path}`, init);
+}
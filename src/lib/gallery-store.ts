@@ -0,0 +1,159 @@
+/**
+ * Local gallery storage (IndexedDB)
+ *
+ * Converts finished jobs into gallery items and keeps them in the browser's
+ * IndexedDB. CLIENT ONLY. Video files are downloaded once while their URL is
+ * still valid; if that fails, only the metadata and the expiring URL are kept.
+ */
+
+import { withStore } from './local-db';
+import { base64ToBlob } from './utils';
+import type { GalleryDateRange, GalleryFilters, GalleryItem, GalleryStorage } from '@/types/gallery';
+import type { ImageJob, VideoJob } from '@/types/jobs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Building Items
+// ============================================================================
+
+/**
+ * Guess an image's type from the first bytes of its base64 data
+ */
+function imageMimeType(base64: string): string {
+  const prefix = base64.match(/^data:(image\/\w+);base64,/);
+  if (prefix) return prefix[1];
+
+  const data = base64.slice(0, 8);
+  if (data.startsWith('/9j/')) return 'image/jpeg';
+  if (data.startsWith('UklGR')) return 'image/webp';
+  return 'image/png';
+}
+
+/**
+ * One gallery item per image of a finished image job
+ * Images whose ID is in `skip` are not decoded again
+ */
+export function imageJobItems(job: ImageJob, skip: ReadonlySet<string> = new Set()): GalleryItem[] {
+  const result = job.result;
+  if (!result) return [];
+
+  return result.images.flatMap((image, position): GalleryItem[] => {
+    const id = `${result.id}:${image.index ?? position}`;
+    if (skip.has(id)) return [];
+
+    const blob = base64ToBlob(image.base64, imageMimeType(image.base64));
+    return [{
+      id,
+      kind: 'image',
+      blob,
+      prompt: result.prompt,
+      model: result.model,
+      mode: result.mode,
+      createdAt: new Date(result.timestamp).getTime(),
+      size: image.size,
+      bytes: blob.size,
+    }];
+  });
+}
+
+/**
+ * Gallery item for a finished video job
+ * Downloads the video; keeps just the URL when the download fails (e.g. CORS)
+ */
+export async function videoJobItem(job: VideoJob): Promise<GalleryItem | null> {
+  const result = job.result;
+  if (!result) return null;
+
+  const blob = await fetch(result.videoUrl)
+    .then(response => (response.ok ? response.blob() : undefined))
+    .catch(() => undefined);
+
+  return {
+    id: `video:${result.taskId}`,
+    kind: 'video',
+    blob,
+    remoteUrl: result.videoUrl,
+    prompt: result.prompt,
+    model: job.params.modelId || 'seedance-1-5-pro',
+    mode: result.mode,
+    createdAt: new Date(result.timestamp).getTime(),
+    size: `${result.parameters.resolution} · ${result.actualRatio}`,
+    duration: result.actualDuration,
+    seed: result.seed,
+    bytes: blob?.size ?? 0,
+  };
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+export async function saveGalleryItems(items: GalleryItem[]): Promise<void> {
+  await Promise.all(items.map(item => withStore('gallery', 'readwrite', store => store.put(item))));
+}
+
+/**
+ * Every stored item, newest first
+ */
+export async function listGalleryItems(): Promise<GalleryItem[]> {
+  const items = await withStore<GalleryItem[]>('gallery', 'readonly', store => store.getAll());
+  return items.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function deleteGalleryItem(id: string): Promise<void> {
+  await withStore('gallery', 'readwrite', store => store.delete(id));
+}
+
+export async function clearGallery(): Promise<void> {
+  await withStore('gallery', 'readwrite', store => store.clear());
+}
+
+/**
+ * Gallery size plus this site's storage usage and quota (when the browser reports them)
+ */
+export async function estimateGalleryStorage(items: GalleryItem[]): Promise<GalleryStorage> {
+  const galleryBytes = items.reduce((total, item) => total + item.bytes, 0);
+  const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+  return { galleryBytes, usage: estimate?.usage, quota: estimate?.quota };
+}
+
+/**
+ * Ask the browser not to evict the gallery under storage pressure (best effort)
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  return (await navigator.storage?.persist?.().catch(() => false)) ?? false;
+}
+
+// ============================================================================
+// Filtering
+// ============================================================================
+
+function rangeStart(range: GalleryDateRange, now: number): number {
+  switch (range) {
+    case 'today': {
+      const start = new Date(now);
+      start.setHours(0, 0, 0, 0);
+      return start.getTime();
+    }
+    case 'week':
+      return now - 7 * DAY_MS;
+    case 'month':
+      return now - 30 * DAY_MS;
+    default:
+      return 0;
+  }
+}
+
+export function filterGalleryItems<T extends GalleryItem>(items: T[], filters: GalleryFilters, now = Date.now()): T[] {
+  const query = filters.query.trim().toLowerCase();
+  const since = rangeStart(filters.range, now);
+
+  return items.filter(item =>
+    (filters.kind === 'all' || item.kind === filters.kind) &&
+    (filters.model === 'all' || item.model === filters.model) &&
+    (filters.mode === 'all' || item.mode === filters.mode) &&
+    item.createdAt >= since &&
+    (!query || item.prompt.toLowerCase().includes(query))
+  );
+}
@@ -0,0 +1,380 @@
+/**
+ * Generation runners shared by the generation hooks and the job queue
+ *
+ * Each runner drives one image or video generation from request to result and
+ * reports progress through callbacks rather than React state, so any number of
+ * them can run side by side.
+ */
+
+import { getSeedreamClient } from './seedream-client';
+import { getSeedanceClient, taskToVideoResult, type SeedanceClient } from './seedance-client';
+import type { SlotWait } from './slot-retry';
+import { isVideoHistoryEnabled } from './video-history';
+import { StudioError, toStudioError } from './studio-error';
+import { isSeedreamImageError } from '@/types/api';
+import type { SeedreamImageData, GenerationResult, FailedImageSlot, RequestFieldError } from '@/types/api';
+import type { VideoTaskResponse, VideoTaskStatus, VideoGenerationResult } from '@/types/video-api';
+import type { ImageGenerationParams, VideoGenerationParams } from '@/types/jobs';
+import { VIDEO_DEFAULTS } from '@/constants/video-parameters';
+
+// ============================================================================
+// Image Generation
+// ============================================================================
+
+type ResultImage = GenerationResult['images'][number];
+
+interface ImageRunCallbacks {
+  onResult?: (result: GenerationResult | null) => void; // Partial results while streaming
+  onWaitingForSlot?: (wait: SlotWait | null) => void;
+}
+
+function clientParams(params: ImageGenerationParams, callbacks: ImageRunCallbacks) {
+  return {
+    prompt: params.prompt,
+    mode: params.mode,
+    model: params.model,
+    images: params.images,
+    size: params.size,
+    quality: params.quality,
+    batchMode: params.batchMode,
+    maxImages: params.maxImages,
+    responseFormat: 'b64_json' as const, // Use base64 for immediate display
+    saveToDatabase: true,
+    onWaitingForSlot: callbacks.onWaitingForSlot,
+  };
+}
+
+function emptyResult(params: ImageGenerationParams): GenerationResult {
+  return {
+    id: crypto.randomUUID(),
+    images: [],
+    failedImages: [],
+    prompt: params.prompt,
+    mode: params.mode,
+    model: params.model,
+    referenceImageUrls: params.images, // Save reference images used
+    parentId: params.parentId,
+    parameters: {
+      size: params.size || '2048x2048',
+      quality: params.quality || 'standard',
+      batchMode: params.batchMode || false,
+      maxImages: params.maxImages,
+    },
+    generationTimeMs: 0,
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Split a response's data into successful images and failed slots
+ * Ark returns per-image errors in place, so array position is the slot index
+ */
+function splitResponseData(data: SeedreamImageData[], firstIndex = 0) {
+  const images: ResultImage[] = [];
+  const failedImages: FailedImageSlot[] = [];
+
+  data.forEach((item, position) => {
+    const index = firstIndex + position;
+    if (isSeedreamImageError(item)) {
+      failedImages.push({ index, code: item.error.code, message: item.error.message });
+    } else if (!item.b64_json) {
+      failedImages.push({ index, code: 'missing_image_data', message: 'Missing image data in response' });
+    } else {
+      images.push({ base64: item.b64_json, size: item.size, index });
+    }
+  });
+
+  return { images, failedImages };
+}
+
+/**
+ * Put a retried slot's outcome (new image or new failure) in place of the old failure
+ */
+export function replaceSlot(
+  result: GenerationResult,
+  index: number,
+  image: ResultImage | undefined,
+  failure: FailedImageSlot | undefined
+): GenerationResult {
+  return {
+    ...result,
+    images: [...result.images.filter(item => item.index !== index), ...(image ? [image] : [])]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0)),
+    failedImages: [...(result.failedImages || []).filter(item => item.index !== index), ...(failure ? [failure] : [])],
+  };
+}
+
+/**
+ * Check image parameters without sending anything
+ */
+export function validateImageGeneration(params: ImageGenerationParams): RequestFieldError[] {
+  return getSeedreamClient().validate(clientParams(params, {}));
+}
+
+/**
+ * Generate image(s), streaming when params.stream is set
+ * Throws StudioError; successful images are kept even when some slots fail
+ */
+export async function runImageGeneration(
+  params: ImageGenerationParams,
+  callbacks: ImageRunCallbacks = {}
+): Promise<GenerationResult> {
+  if (params.stream) {
+    return runImageStream(params, callbacks);
+  }
+
+  const startTime = Date.now();
+  const response = await getSeedreamClient().generate(clientParams(params, callbacks));
+
+  // Keep every successful image; failed entries become retryable slots
+  if (response.data.length === 0) {
+    throw new Error('No images in response');
+  }
+
+  const { images, failedImages } = splitResponseData(response.data);
+  const result: GenerationResult = {
+    ...emptyResult(params),
+    images,
+    failedImages,
+    generationTimeMs: Date.now() - startTime,
+    usage: response.usage,
+  };
+
+  callbacks.onResult?.(result);
+  return result;
+}
+
+/**
+ * Streaming generation - publishes a partial result after every SSE event
+ * so the output carousel fills slot by slot instead of all at once
+ */
+async function runImageStream(
+  params: ImageGenerationParams,
+  callbacks: ImageRunCallbacks
+): Promise<GenerationResult> {
+  const startTime = Date.now();
+
+  let current: GenerationResult = {
+    ...emptyResult(params),
+    expectedImages: params.batchMode ? params.maxImages || 1 : 1,
+  };
+  callbacks.onResult?.(current);
+
+  try {
+    const events = getSeedreamClient().generateStream(clientParams(params, callbacks));
+
+    for await (const event of events) {
+      if (event.type === 'image_generation.partial_succeeded') {
+        if (!event.b64_json) {
+          throw new Error('Missing image data in response');
+        }
+        current = {
+          ...current,
+          images: [...current.images, { base64: event.b64_json, size: event.size, index: event.image_index }]
+            .sort((a, b) => (a.index ?? 0) - (b.index ?? 0)),
+        };
+      } else if (event.type === 'image_generation.partial_failed') {
+        current = {
+          ...current,
+          failedImages: [
+            ...(current.failedImages || []),
+            { index: event.image_index, code: event.error.code, message: event.error.message },
+          ],
+        };
+      } else if (event.type === 'image_generation.completed') {
+        current = { ...current, expectedImages: undefined, usage: event.usage };
+      } else {
+        throw new StudioError('server_error', `Unexpected stream event: ${(event as { type?: string }).type}`);
+      }
+      callbacks.onResult?.(current);
+    }
+  } finally {
+    // Drop unfilled placeholders - batch mode may stop short of max_images
+    current = { ...current, expectedImages: undefined, generationTimeMs: Date.now() - startTime };
+    callbacks.onResult?.(current.images.length > 0 || current.failedImages?.length ? current : null);
+  }
+
+  if (current.images.length === 0 && !current.failedImages?.length) {
+    throw new Error('No images in response');
+  }
+
+  return current;
+}
+
+/**
+ * Regenerate one output slot as a single image with the same settings
+ * Returns the new image, or the failure to show in the slot
+ */
+export async function retryImageSlot(
+  params: ImageGenerationParams,
+  index: number,
+  callbacks: Pick<ImageRunCallbacks, 'onWaitingForSlot'> = {}
+): Promise<{ image?: ResultImage; failure?: FailedImageSlot }> {
+  try {
+    const response = await getSeedreamClient().generate({
+      ...clientParams(params, callbacks),
+      batchMode: false, // One image for one slot
+      maxImages: undefined,
+    });
+
+    const { images, failedImages } = splitResponseData(response.data.slice(0, 1), index);
+    if (images[0]) {
+      return { image: images[0] };
+    }
+    return { failure: failedImages[0] ?? { index, code: 'missing_image_data', message: 'No image in response' } };
+  } catch (err) {
+    const studioError = toStudioError(err, 'Retry failed');
+    return { failure: { index, code: studioError.upstreamCode ?? studioError.code, message: studioError.message } };
+  }
+}
+
+// ============================================================================
+// Video Generation
+// ============================================================================
+
+const DEFAULT_VIDEO_TIMEOUT_MS = 600000; // 10 minutes
+
+interface VideoRunCallbacks {
+  signal?: AbortSignal; // Abort to stop waiting (the hook cancels the task on the server)
+  onStatus?: (status: VideoTaskStatus) => void;
+  onTaskCreated?: (taskId: string, client: SeedanceClient) => void;
+  onWaitingForSlot?: (wait: SlotWait | null) => void;
+}
+
+/**
+ * Progress bar position for a task status
+ */
+export function videoProgressFor(status: VideoTaskStatus): number | null {
+  switch (status) {
+    case 'queued':
+      return 10;
+    case 'running':
+      return 50;
+    case 'succeeded':
+      return 100;
+    default:
+      return null;
+  }
+}
+
+function createTaskParams(params: VideoGenerationParams) {
+  return {
+    prompt: params.prompt,
+    mode: params.mode,
+    images: params.images,
+    duration: params.duration,
+    resolution: params.resolution,
+    ratio: params.ratio,
+    generateAudio: params.generateAudio,
+    serviceTier: params.serviceTier,
+    returnLastFrame: params.returnLastFrame,
+    cameraFixed: params.cameraFixed,
+    expiresAfter: params.expiresAfter,
+    seed: params.seed,
+  };
+}
+
+/**
+ * Seconds a task may wait before the server expires it
+ */
+export function videoExpiresAfter(params: VideoGenerationParams): number {
+  return params.expiresAfter ?? VIDEO_DEFAULTS.expiresAfter;
+}
+
+/**
+ * Check video parameters without creating a task
+ */
+export function validateVideoGeneration(params: VideoGenerationParams): RequestFieldError[] {
+  return getSeedanceClient(params.modelId).validate(createTaskParams(params));
+}
+
+/**
+ * Create a video task and wait for it to finish
+ * Throws StudioError (code 'cancelled' when the signal aborts)
+ */
+export async function runVideoGeneration(
+  params: VideoGenerationParams,
+  callbacks: VideoRunCallbacks = {}
+): Promise<VideoGenerationResult> {
+  const startTime = Date.now();
+  const client = getSeedanceClient(params.modelId);
+
+  // Create task, then wait until completion (taskId is reported for cancellation)
+  const { taskId, callbackEnabled } = await client.createTask(createTaskParams(params), {
+    abortSignal: callbacks.signal,
+    onWaitingForSlot: callbacks.onWaitingForSlot,
+  });
+  callbacks.onTaskCreated?.(taskId, client);
+
+  // Cancelled while the create request was in flight
+  if (callbacks.signal?.aborted) {
+    await client.cancelTask(taskId).catch(() => undefined);
+  }
+
+  // Callbacks push status changes; polling is only the fallback.
+  // Flex tier jobs can run for hours, so wait up to the task expiry.
+  const timeoutMs = params.serviceTier === 'flex' ? videoExpiresAfter(params) * 1000 : DEFAULT_VIDEO_TIMEOUT_MS;
+  const response = callbackEnabled
+    ? await client.watchTaskStatus(taskId, callbacks.onStatus, timeoutMs, callbacks.signal)
+    : await client.pollTaskStatus(taskId, callbacks.onStatus, timeoutMs, callbacks.signal);
+
+  return finishVideoGeneration(client, params, response, startTime);
+}
+
+/**
+ * Wait for a task created earlier (e.g. before a page reload) to finish
+ * Polls, since a callback subscription may not have survived on the server.
+ */
+export async function resumeVideoGeneration(
+  params: VideoGenerationParams,
+  task: { taskId: string; startedAt: number; expiresAt: number },
+  callbacks: Pick<VideoRunCallbacks, 'signal' | 'onStatus'> = {}
+): Promise<VideoGenerationResult> {
+  const client = getSeedanceClient(params.modelId);
+
+  // Flex tasks wait until they expire; the server reports 'expired' at that point
+  const timeoutMs = params.serviceTier === 'flex'
+    ? Math.max(task.expiresAt - Date.now(), DEFAULT_VIDEO_TIMEOUT_MS)
+    : DEFAULT_VIDEO_TIMEOUT_MS;
+  const response = await client.pollTaskStatus(task.taskId, callbacks.onStatus, timeoutMs, callbacks.signal);
+
+  return finishVideoGeneration(client, params, response, task.startedAt);
+}
+
+async function finishVideoGeneration(
+  client: SeedanceClient,
+  params: VideoGenerationParams,
+  response: VideoTaskResponse,
+  startTime: number
+): Promise<VideoGenerationResult> {
+  const generationTime = Date.now() - startTime;
+
+  // Build result for UI
+  const result = taskToVideoResult(response, {
+    prompt: params.prompt,
+    mode: params.mode,
+    referenceImageUrls: params.images?.map(img => img.url),
+    parentTaskId: params.parentTaskId ?? undefined,
+    parameters: {
+      duration: params.duration ?? -1,
+      resolution: params.resolution ?? '720p',
+      ratio: params.ratio ?? 'adaptive',
+      generateAudio: params.generateAudio ?? true,
+      serviceTier: params.serviceTier ?? 'default',
+      returnLastFrame: params.returnLastFrame ?? false,
+    },
+    generationTimeMs: generationTime,
+  });
+
+  // Save to the history table with iteration tracking (opt-in)
+  // The video itself succeeded, so a failed save is reported on the result instead of failing the job
+  if (isVideoHistoryEnabled()) {
+    try {
+      await client.saveToDatabase(result, response);
+    } catch (err) {
+      result.historyError = toStudioError(err, 'Failed to save the video to history').message;
+    }
+  }
+
+  return result;
+}
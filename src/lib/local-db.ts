@@ -0,0 +1,69 @@
+/**
+ * Browser-local IndexedDB database
+ *
+ * Holds studio data that has to outlive the tab but should never leave the
+ * device. CLIENT ONLY. Every call rejects when IndexedDB is unavailable
+ * (e.g. some private browsing modes), so callers treat it as best effort.
+ */
+
+const DB_NAME = 'seedream-studio';
+const DB_VERSION = 2; // 2: gallery
+
+export type LocalStoreName = 'pendingVideoTasks' | 'gallery';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Create the object stores (runs on first open and on version bumps)
+ */
+function upgrade(db: IDBDatabase): void {
+  if (!db.objectStoreNames.contains('pendingVideoTasks')) {
+    db.createObjectStore('pendingVideoTasks', { keyPath: 'jobId' });
+  }
+  if (!db.objectStoreNames.contains('gallery')) {
+    db.createObjectStore('gallery', { keyPath: 'id' });
+  }
+}
+
+function openLocalDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version opened in another tab upgrade the schema
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null; // Allow another attempt
+      reject(request.error ?? new Error('Failed to open IndexedDB'));
+    };
+  });
+  return dbPromise;
+}
+
+/**
+ * Run one request against a store and resolve with its result
+ */
+export async function withStore<T>(
+  storeName: LocalStoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openLocalDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
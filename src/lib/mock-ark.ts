@@ -0,0 +1,450 @@
+/**
+ * Mock Ark backend for offline development and demos
+ *
+ * Enabled with NEXT_PUBLIC_ARK_MOCK=true (see ark-api.ts). Implements:
+ * - POST /images/generations (single, batch, streaming, partial failures)
+ * - POST/GET/DELETE /contents/generations/tasks[/{id}] with the
+ *   queued → running → succeeded/failed/expired lifecycle
+ *
+ * Responses are deterministic placeholder PNG/MP4 files derived from the prompt.
+ * Put a marker in the prompt to exercise error paths:
+ * - [mock:error]   request is rejected (400)
+ * - [mock:partial] every second batch image fails the content filter
+ * - [mock:fail]    video task fails
+ * - [mock:expire]  video task expires
+ *
+ * Task state is encoded in the task ID, so status checks work across
+ * edge/serverless instances. Cancellations and the task list are kept in
+ * memory and are best-effort.
+ */
+
+import type {
+  SeedreamRequest,
+  SeedreamResponse,
+  SeedreamImageSuccess,
+  SeedreamStreamEvent,
+} from '@/types/api';
+import type {
+  VideoGenerationRequest,
+  VideoTaskResponse,
+  VideoTaskStatus,
+  VideoTaskListResponse,
+  VideoContentText,
+} from '@/types/video-api';
+import { parseTextCommands, VIDEO_CONSTRAINTS, VIDEO_PIXEL_MAP } from '@/constants/video-parameters';
+import { bytesToBase64, encodeMp4, encodePng, hashSeed, placeholderArt } from './mock-media';
+
+// Simulated timings
+const IMAGE_DELAY_MS = 600; // Per image
+const QUEUE_SECONDS = 3;
+const RUN_SECONDS = 8;
+const FLEX_MULTIPLIER = 3; // Flex tier jobs wait and run longer
+
+// Placeholder files are small; reported sizes match the requested ones
+const PLACEHOLDER_IMAGE_EDGE = 256;
+
+// Preview dimensions for placeholder videos (even numbers, 4:2:0 cropping)
+const PLACEHOLDER_VIDEO_SIZES: Record<string, [number, number]> = {
+  '16:9': [160, 90],
+  '4:3': [128, 96],
+  '1:1': [128, 128],
+  '3:4': [96, 128],
+  '9:16': [90, 160],
+  '21:9': [224, 96],
+};
+
+// ============================================================================
+// Request Dispatch
+// ============================================================================
+
+/**
+ * Handle an Ark request against the mock backend
+ * @param path - Path below /api/v3 (may include a query string)
+ */
+export async function handleMockArkRequest(path: string, init: RequestInit = {}): Promise<Response> {
+  const url = new URL(path, 'http://mock-ark');
+  const method = (init.method || 'GET').toUpperCase();
+  const body = typeof init.body === 'string' ? JSON.parse(init.body) : undefined;
+
+  if (url.pathname === '/images/generations' && method === 'POST') {
+    return generateImages(body as SeedreamRequest);
+  }
+
+  if (url.pathname === '/contents/generations/tasks') {
+    if (method === 'POST') return createTask(body as VideoGenerationRequest);
+    if (method === 'GET') return listTasks(url.searchParams);
+  }
+
+  const taskMatch = url.pathname.match(/^\/contents\/generations\/tasks\/([^/]+)$/);
+  if (taskMatch) {
+    if (method === 'GET') return getTask(taskMatch[1]);
+    if (method === 'DELETE') return deleteTask(taskMatch[1]);
+  }
+
+  return errorResponse(404, 'NotFound', `Mock Ark does not implement ${method} ${url.pathname}`);
+}
+
+function errorResponse(status: number, code: string, message: string): Response {
+  return Response.json(
+    { error: { code, message, type: status >= 500 ? 'api_error' : 'invalid_request_error' } },
+    { status }
+  );
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// ============================================================================
+// Images
+// ============================================================================
+
+const SIZE_PRESETS: Record<string, string> = {
+  '1K': '1024x1024',
+  '2K': '2048x2048',
+  '4K': '4096x4096',
+};
+
+function parseSize(size: string | undefined): [number, number] {
+  const normalized = SIZE_PRESETS[size ?? '2K'] ?? size ?? '2048x2048';
+  const [width, height] = normalized.split(/[x×]/).map(Number);
+  return width > 0 && height > 0 ? [width, height] : [2048, 2048];
+}
+
+/**
+ * Build a placeholder image for one output slot
+ */
+function mockImage(request: SeedreamRequest, index: number): SeedreamImageSuccess {
+  const [width, height] = parseSize(request.size);
+  const scale = PLACEHOLDER_IMAGE_EDGE / Math.max(width, height);
+  const previewWidth = Math.max(1, Math.round(width * scale));
+  const previewHeight = Math.max(1, Math.round(height * scale));
+
+  const seed = hashSeed(`${request.model}:${request.prompt}:${index}`);
+  const base64 = bytesToBase64(
+    encodePng(previewWidth, previewHeight, placeholderArt(previewWidth, previewHeight, seed, index + 1))
+  );
+
+  const size = `${width}x${height}`;
+  return request.response_format === 'url'
+    ? { url: `data:image/png;base64,${base64}`, size }
+    : { b64_json: base64, size };
+}
+
+function generateImages(request: SeedreamRequest): Response | Promise<Response> {
+  if (!request?.prompt) {
+    return errorResponse(400, 'MissingParameter', 'The parameter `prompt` is required');
+  }
+
+  if (request.prompt.includes('[mock:error]')) {
+    return errorResponse(400, 'InputTextSensitiveContentDetected', 'The request failed because the input text may contain sensitive information.');
+  }
+
+  const count = request.sequential_image_generation === 'auto'
+    ? request.sequential_image_generation_options?.max_images ?? 4
+    : 1;
+  const partialFailures = request.prompt.includes('[mock:partial]');
+  const isFailedSlot = (index: number) => partialFailures && index % 2 === 1;
+
+  const [width, height] = parseSize(request.size);
+  const created = Math.floor(Date.now() / 1000);
+  const succeeded = Array.from({ length: count }, (_, index) => index).filter(index => !isFailedSlot(index)).length;
+  const usage: SeedreamResponse['usage'] = {
+    generated_images: succeeded,
+    output_tokens: Math.round((width * height * succeeded) / 256),
+    total_tokens: Math.round((width * height * succeeded) / 256),
+  };
+  const slotError = {
+    code: 'OutputImageSensitiveContentDetected',
+    message: 'The generated image may contain sensitive information.',
+  };
+
+  // Streaming: one event per slot as it "finishes", then completed + [DONE]
+  if (request.stream) {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: SeedreamStreamEvent) => {
+          controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        };
+
+        for (let index = 0; index < count; index++) {
+          await delay(IMAGE_DELAY_MS);
+          if (isFailedSlot(index)) {
+            send({ type: 'image_generation.partial_failed', model: request.model, created, image_index: index, error: slotError });
+          } else {
+            const image = mockImage(request, index);
+            send({ type: 'image_generation.partial_succeeded', model: request.model, created, image_index: index, ...image });
+          }
+        }
+
+        send({ type: 'image_generation.completed', model: request.model, created, usage });
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      },
+    });
+
+    return new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } });
+  }
+
+  return delay(IMAGE_DELAY_MS * count).then(() => {
+    // Failed slots use Ark's per-image error shape
+    const data = Array.from({ length: count }, (_, index) =>
+      isFailedSlot(index) ? { error: slotError } : mockImage(request, index)
+    );
+    return Response.json({ model: request.model, created, data, usage });
+  });
+}
+
+// ============================================================================
+// Video Tasks
+// ============================================================================
+
+/**
+ * Everything needed to answer status queries, encoded in the task ID
+ */
+export interface MockTaskSpec {
+  c: number; // created_at (seconds)
+  o: 'succeeded' | 'failed' | 'expired'; // Final outcome
+  m: string; // Model
+  rs: string; // Resolution
+  rt: string; // Ratio
+  d: number; // Duration (seconds)
+  a: boolean; // generate_audio
+  lf: boolean; // return_last_frame
+  st: string; // service_tier
+  s: number; // Seed
+  e: number; // execution_expires_after
+}
+
+interface MockTaskRegistry {
+  created: string[];
+  cancelled: Map<string, number>; // taskId → cancelled_at (seconds)
+  deleted: Set<string>;
+}
+
+const globalRegistry = globalThis as typeof globalThis & { __mockArkTasks?: MockTaskRegistry };
+const registry: MockTaskRegistry = globalRegistry.__mockArkTasks ??= {
+  created: [],
+  cancelled: new Map(),
+  deleted: new Set(),
+};
+
+function encodeTaskId(spec: MockTaskSpec): string {
+  const json = JSON.stringify(spec);
+  const base64 = btoa(json).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `mock-${base64}`;
+}
+
+/**
+ * Decode a mock task ID (null if it isn't one)
+ */
+export function decodeMockTaskId(taskId: string): MockTaskSpec | null {
+  if (!taskId.startsWith('mock-')) return null;
+  try {
+    const base64 = taskId.slice(5).replace(/-/g, '+').replace(/_/g, '/');
+    const spec = JSON.parse(atob(base64)) as Partial<MockTaskSpec> | null;
+    return spec && typeof spec === 'object' ? normalizeSpec(spec) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Clamp a decoded spec to what Seedance accepts
+ * Task IDs come from the URL, so the media routes must not trust their size or length.
+ */
+function normalizeSpec(spec: Partial<MockTaskSpec>): MockTaskSpec {
+  const { duration, seed, expiresAfter } = VIDEO_CONSTRAINTS;
+  return {
+    c: clampInteger(spec.c, 0, Number.MAX_SAFE_INTEGER, 0),
+    o: spec.o === 'failed' || spec.o === 'expired' ? spec.o : 'succeeded',
+    m: String(spec.m ?? ''),
+    rs: spec.rs === '480p' ? '480p' : '720p',
+    rt: typeof spec.rt === 'string' && Object.hasOwn(PLACEHOLDER_VIDEO_SIZES, spec.rt) ? spec.rt : '16:9',
+    d: clampInteger(spec.d, duration.min, duration.max, 5),
+    a: spec.a !== false,
+    lf: spec.lf === true,
+    st: spec.st === 'flex' ? 'flex' : 'default',
+    s: clampInteger(spec.s, seed.min, seed.max, 0),
+    e: clampInteger(spec.e, expiresAfter.min, expiresAfter.max, expiresAfter.default),
+  };
+}
+
+function clampInteger(value: unknown, min: number, max: number, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+function createTask(request: VideoGenerationRequest): Response {
+  const text = request?.content?.find((item): item is VideoContentText => item.type === 'text');
+  if (!request?.model || !text?.text) {
+    return errorResponse(400, 'MissingParameter', 'The parameters `model` and `content` are required');
+  }
+
+  const { cleanPrompt, commands } = parseTextCommands(text.text);
+  if (cleanPrompt.includes('[mock:error]')) {
+    return errorResponse(400, 'InputTextSensitiveContentDetected', 'The request failed because the input text may contain sensitive information.');
+  }
+
+  const ratio = commands.rt && commands.rt !== 'adaptive' ? commands.rt : '16:9';
+  const { min, max } = VIDEO_CONSTRAINTS.duration;
+  const duration = Number(commands.dur) > 0 ? Math.min(max, Math.max(min, Number(commands.dur))) : 5;
+  const seed = request.seed !== undefined && request.seed >= 0
+    ? request.seed
+    : commands.seed !== undefined && Number(commands.seed) >= 0
+      ? Number(commands.seed)
+      : hashSeed(cleanPrompt) % 2147483648;
+
+  const spec: MockTaskSpec = {
+    c: Math.floor(Date.now() / 1000),
+    o: cleanPrompt.includes('[mock:fail]') ? 'failed' : cleanPrompt.includes('[mock:expire]') ? 'expired' : 'succeeded',
+    m: request.model,
+    rs: commands.rs === '480p' ? '480p' : '720p',
+    rt: ratio in PLACEHOLDER_VIDEO_SIZES ? ratio : '16:9',
+    d: duration,
+    a: request.generate_audio ?? true,
+    lf: request.return_last_frame ?? false,
+    st: request.service_tier ?? 'default',
+    s: seed,
+    e: request.execution_expires_after ?? 172800,
+  };
+
+  const id = encodeTaskId(spec);
+  registry.created.push(id);
+  return Response.json({ id });
+}
+
+/**
+ * Current status of a task based on elapsed time
+ */
+function taskStatus(taskId: string, spec: MockTaskSpec, now: number): { status: VideoTaskStatus; updatedAt: number } {
+  const cancelledAt = registry.cancelled.get(taskId);
+  if (cancelledAt !== undefined) {
+    return { status: 'cancelled', updatedAt: cancelledAt };
+  }
+
+  const multiplier = spec.st === 'flex' ? FLEX_MULTIPLIER : 1;
+  const queuedUntil = spec.c + QUEUE_SECONDS * multiplier;
+  const runningUntil = queuedUntil + RUN_SECONDS * multiplier;
+
+  if (now < queuedUntil) return { status: 'queued', updatedAt: spec.c };
+  if (now < runningUntil) return { status: spec.o === 'expired' ? 'queued' : 'running', updatedAt: queuedUntil };
+  return { status: spec.o, updatedAt: runningUntil };
+}
+
+function buildTaskResponse(taskId: string, spec: MockTaskSpec): VideoTaskResponse {
+  const { status, updatedAt } = taskStatus(taskId, spec, Math.floor(Date.now() / 1000));
+  const pixels = VIDEO_PIXEL_MAP[spec.rs as '480p' | '720p'][spec.rt as '16:9'];
+  const [width, height] = pixels.split('×').map(Number);
+
+  return {
+    id: taskId,
+    model: spec.m,
+    status,
+    error: status === 'failed'
+      ? { code: 'OutputVideoSensitiveContentDetected', message: 'The generated video may contain sensitive information.' }
+      : null,
+    created_at: spec.c,
+    updated_at: updatedAt,
+    content: status === 'succeeded'
+      ? {
+          video_url: `/api/mock-ark/media/${taskId}.mp4`,
+          last_frame_url: spec.lf ? `/api/mock-ark/media/${taskId}.png` : undefined,
+        }
+      : undefined,
+    seed: spec.s,
+    resolution: spec.rs,
+    ratio: spec.rt,
+    duration: spec.d,
+    framespersecond: 24,
+    generate_audio: spec.a,
+    service_tier: spec.st,
+    execution_expires_after: spec.e,
+    usage: {
+      completion_tokens: status === 'succeeded' ? Math.round((width * height * 24 * spec.d) / 1024) : 0,
+      total_tokens: status === 'succeeded' ? Math.round((width * height * 24 * spec.d) / 1024) : 0,
+    },
+  };
+}
+
+function notFound(taskId: string): Response {
+  return errorResponse(404, 'ResourceNotFound', `The task ${taskId} does not exist`);
+}
+
+function getTask(taskId: string): Response {
+  const spec = decodeMockTaskId(taskId);
+  if (!spec || registry.deleted.has(taskId)) return notFound(taskId);
+  return Response.json(buildTaskResponse(taskId, spec));
+}
+
+/**
+ * Ark semantics: queued → cancelled, running → rejected, finished → deleted
+ */
+function deleteTask(taskId: string): Response {
+  const spec = decodeMockTaskId(taskId);
+  if (!spec || registry.deleted.has(taskId)) return notFound(taskId);
+
+  const { status } = taskStatus(taskId, spec, Math.floor(Date.now() / 1000));
+  if (status === 'running') {
+    return errorResponse(400, 'InvalidAction.TaskRunning', 'Tasks in running status cannot be cancelled or deleted');
+  }
+
+  if (status === 'queued') {
+    registry.cancelled.set(taskId, Math.floor(Date.now() / 1000));
+  } else {
+    registry.deleted.add(taskId);
+  }
+  return Response.json({});
+}
+
+function listTasks(params: URLSearchParams): Response {
+  const pageNum = Number(params.get('page_num') ?? 1);
+  const pageSize = Number(params.get('page_size') ?? 10);
+  const status = params.get('filter.status');
+  const model = params.get('filter.model');
+  const taskIds = params.getAll('filter.task_ids');
+
+  // Explicit IDs decode without the registry; otherwise list what this instance created
+  const ids = taskIds.length > 0 ? taskIds : registry.created;
+  const items = ids
+    .filter(id => !registry.deleted.has(id))
+    .map(id => {
+      const spec = decodeMockTaskId(id);
+      return spec ? buildTaskResponse(id, spec) : null;
+    })
+    .filter((task): task is VideoTaskResponse => task !== null)
+    .filter(task => !status || task.status === status)
+    .filter(task => !model || task.model === model)
+    .sort((a, b) => b.created_at - a.created_at);
+
+  const start = (pageNum - 1) * pageSize;
+  return Response.json({
+    items: items.slice(start, start + pageSize),
+    total: items.length,
+  } as VideoTaskListResponse);
+}
+
+// ============================================================================
+// Media
+// ============================================================================
+
+/**
+ * Placeholder video for a succeeded task (one frame per second of duration)
+ */
+export function mockTaskVideo(spec: MockTaskSpec): Uint8Array {
+  const [width, height] = PLACEHOLDER_VIDEO_SIZES[spec.rt] ?? PLACEHOLDER_VIDEO_SIZES['16:9'];
+  const frames = Array.from({ length: spec.d }, (_, second) =>
+    placeholderArt(width, height, spec.s + second * 23, second + 1)
+  );
+  return encodeMp4(width, height, frames);
+}
+
+/**
+ * Placeholder last frame (matches the final second of the video)
+ */
+export function mockTaskLastFrame(spec: MockTaskSpec): Uint8Array {
+  const [width, height] = PLACEHOLDER_VIDEO_SIZES[spec.rt] ?? PLACEHOLDER_VIDEO_SIZES['16:9'];
+  const lastSecond = spec.d - 1;
+  return encodePng(width, height, placeholderArt(width, height, spec.s + lastSecond * 23, lastSecond + 1));
+}
@@ -0,0 +1,503 @@
+/**
+ * Placeholder media encoders for the mock Ark backend
+ *
+ * Produces real, playable files without any image/video libraries:
+ * - PNG: RGB pixels in uncompressed (stored) deflate blocks
+ * - MP4: H.264 Baseline with I_PCM macroblocks (uncompressed), one IDR frame per second
+ *
+ * Output is deterministic for a given seed so screenshots and tests are stable.
+ * Runs in both Node and edge runtimes (Uint8Array only, no Buffer/zlib).
+ */
+
+export type RGB = [number, number, number];
+export type PixelFn = (x: number, y: number) => RGB;
+
+// ============================================================================
+// Placeholder Artwork
+// ============================================================================
+
+/**
+ * Deterministic 32-bit hash (FNV-1a) used to derive colors from prompts / task IDs
+ */
+export function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function hslToRgb(h: number, s: number, l: number): RGB {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return [Math.round(f(0) * 255), Math.round(f(8) * 255), Math.round(f(4) * 255)];
+}
+
+/**
+ * Diagonal two-tone gradient with soft stripes and `markers` white squares
+ * along the top-left edge (used for the output slot / second number)
+ */
+export function placeholderArt(width: number, height: number, seed: number, markers: number = 0): PixelFn {
+  const hueA = seed % 360;
+  const hueB = (hueA + 40 + ((seed >>> 9) % 80)) % 360;
+  const from = hslToRgb(hueA, 0.65, 0.55);
+  const to = hslToRgb(hueB, 0.7, 0.35);
+  const marker = Math.max(4, Math.round(Math.min(width, height) / 16));
+
+  return (x, y) => {
+    // Slot/second markers
+    const row = Math.floor(y / marker);
+    const column = Math.floor(x / marker);
+    if (row === 1 && column % 2 === 1 && (column - 1) / 2 < markers) {
+      return [255, 255, 255];
+    }
+
+    const t = (x / width + y / height) / 2;
+    const stripe = Math.sin((x + y) / (marker * 1.5)) * 10;
+    return [
+      clampByte(from[0] + (to[0] - from[0]) * t + stripe),
+      clampByte(from[1] + (to[1] - from[1]) * t + stripe),
+      clampByte(from[2] + (to[2] - from[2]) * t + stripe),
+    ];
+  };
+}
+
+function clampByte(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value)));
+}
+
+// ============================================================================
+// Byte Helpers
+// ============================================================================
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  length = 0;
+
+  bytes(data: Uint8Array | number[]): this {
+    const chunk = data instanceof Uint8Array ? data : Uint8Array.from(data);
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+    return this;
+  }
+
+  u8(value: number): this {
+    return this.bytes([value & 0xff]);
+  }
+
+  u16(value: number): this {
+    return this.bytes([(value >>> 8) & 0xff, value & 0xff]);
+  }
+
+  u32(value: number): this {
+    return this.bytes([(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+  }
+
+  ascii(value: string): this {
+    return this.bytes(Array.from(value, char => char.charCodeAt(0)));
+  }
+
+  zeros(count: number): this {
+    return this.bytes(new Uint8Array(count));
+  }
+
+  toBytes(): Uint8Array {
+    const out = new Uint8Array(this.length);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      out.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return out;
+  }
+}
+
+/**
+ * Base64 encode (chunked to stay under argument limits of String.fromCharCode)
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// ============================================================================
+// PNG
+// ============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+function pngChunk(out: ByteWriter, type: string, data: Uint8Array): void {
+  const body = new ByteWriter().ascii(type).bytes(data).toBytes();
+  out.u32(data.length).bytes(body).u32(crc32(body));
+}
+
+/**
+ * Encode an RGB image as PNG
+ */
+export function encodePng(width: number, height: number, pixel: PixelFn): Uint8Array {
+  // Raw scanlines: filter byte 0 + RGB
+  const stride = width * 3 + 1;
+  const raw = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = pixel(x, y);
+      const offset = y * stride + 1 + x * 3;
+      raw[offset] = r;
+      raw[offset + 1] = g;
+      raw[offset + 2] = b;
+    }
+  }
+
+  // zlib stream with stored (uncompressed) deflate blocks
+  const zlib = new ByteWriter().u8(0x78).u8(0x01);
+  for (let offset = 0; offset < raw.length; offset += 0xffff) {
+    const block = raw.subarray(offset, Math.min(offset + 0xffff, raw.length));
+    const isLast = offset + 0xffff >= raw.length;
+    zlib
+      .u8(isLast ? 1 : 0)
+      .u8(block.length & 0xff).u8(block.length >>> 8)
+      .u8(~block.length & 0xff).u8((~block.length >>> 8) & 0xff)
+      .bytes(block);
+  }
+  zlib.u32(adler32(raw));
+
+  const header = new ByteWriter()
+    .u32(width)
+    .u32(height)
+    .u8(8) // Bit depth
+    .u8(2) // Color type: truecolor RGB
+    .u8(0) // Compression
+    .u8(0) // Filter
+    .u8(0) // Interlace
+    .toBytes();
+
+  const png = new ByteWriter().bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  pngChunk(png, 'IHDR', header);
+  pngChunk(png, 'IDAT', zlib.toBytes());
+  pngChunk(png, 'IEND', new Uint8Array(0));
+  return png.toBytes();
+}
+
+// ============================================================================
+// H.264 (Baseline, I_PCM) + MP4
+// ============================================================================
+
+class BitWriter {
+  private bytes: number[] = [];
+  private current = 0;
+  private bitCount = 0;
+
+  bit(value: number): this {
+    this.current = (this.current << 1) | (value & 1);
+    this.bitCount++;
+    if (this.bitCount === 8) {
+      this.bytes.push(this.current);
+      this.current = 0;
+      this.bitCount = 0;
+    }
+    return this;
+  }
+
+  bits(value: number, count: number): this {
+    for (let i = count - 1; i >= 0; i--) {
+      this.bit((value >>> i) & 1);
+    }
+    return this;
+  }
+
+  // Unsigned Exp-Golomb
+  ue(value: number): this {
+    const code = value + 1;
+    const length = Math.floor(Math.log2(code));
+    return this.bits(0, length).bits(code, length + 1);
+  }
+
+  // Signed Exp-Golomb
+  se(value: number): this {
+    return this.ue(value <= 0 ? -2 * value : 2 * value - 1);
+  }
+
+  alignZero(): this {
+    while (this.bitCount !== 0) this.bit(0);
+    return this;
+  }
+
+  byte(value: number): this {
+    this.bytes.push(value & 0xff); // Caller guarantees alignment
+    return this;
+  }
+
+  // rbsp_trailing_bits()
+  trailing(): this {
+    return this.bit(1).alignZero();
+  }
+
+  toBytes(): number[] {
+    return this.bytes;
+  }
+}
+
+/**
+ * Build a NAL unit (header + RBSP with emulation prevention bytes)
+ */
+function nalUnit(refIdc: number, type: number, rbsp: number[]): Uint8Array {
+  const out: number[] = [(refIdc << 5) | type];
+  let zeros = 0;
+  for (const byte of rbsp) {
+    if (zeros >= 2 && byte <= 3) {
+      out.push(3);
+      zeros = 0;
+    }
+    out.push(byte);
+    zeros = byte === 0 ? zeros + 1 : 0;
+  }
+  return Uint8Array.from(out);
+}
+
+function rgbToYuv([r, g, b]: RGB): [number, number, number] {
+  // BT.601 limited range; values stay within 16-240 so PCM bytes are never 0
+  return [
+    Math.round(16 + 0.257 * r + 0.504 * g + 0.098 * b),
+    Math.round(128 - 0.148 * r - 0.291 * g + 0.439 * b),
+    Math.round(128 + 0.439 * r - 0.368 * g - 0.071 * b),
+  ];
+}
+
+interface H264Stream {
+  sps: Uint8Array;
+  pps: Uint8Array;
+  frames: Uint8Array[];
+  codedWidth: number;
+  codedHeight: number;
+}
+
+function encodeH264(width: number, height: number, frames: PixelFn[]): H264Stream {
+  const mbWidth = Math.ceil(width / 16);
+  const mbHeight = Math.ceil(height / 16);
+  const codedWidth = mbWidth * 16;
+  const codedHeight = mbHeight * 16;
+  const cropRight = (codedWidth - width) / 2; // Crop units are 2 pixels for 4:2:0
+  const cropBottom = (codedHeight - height) / 2;
+
+  const sps = new BitWriter()
+    .bits(66, 8) // profile_idc: Baseline
+    .bits(0xc0, 8) // constraint_set0/1 (Constrained Baseline)
+    .bits(30, 8) // level_idc 3.0
+    .ue(0) // seq_parameter_set_id
+    .ue(0) // log2_max_frame_num_minus4
+    .ue(2) // pic_order_cnt_type (no POC in slice headers)
+    .ue(0) // max_num_ref_frames (all frames are IDR)
+    .bit(0) // gaps_in_frame_num_value_allowed_flag
+    .ue(mbWidth - 1)
+    .ue(mbHeight - 1)
+    .bit(1) // frame_mbs_only_flag
+    .bit(1); // direct_8x8_inference_flag
+  if (cropRight || cropBottom) {
+    sps.bit(1).ue(0).ue(cropRight).ue(0).ue(cropBottom);
+  } else {
+    sps.bit(0);
+  }
+  sps.bit(0).trailing(); // vui_parameters_present_flag
+
+  const pps = new BitWriter()
+    .ue(0) // pic_parameter_set_id
+    .ue(0) // seq_parameter_set_id
+    .bit(0) // entropy_coding_mode_flag: CAVLC
+    .bit(0) // bottom_field_pic_order_in_frame_present_flag
+    .ue(0) // num_slice_groups_minus1
+    .ue(0) // num_ref_idx_l0_default_active_minus1
+    .ue(0) // num_ref_idx_l1_default_active_minus1
+    .bit(0) // weighted_pred_flag
+    .bits(0, 2) // weighted_bipred_idc
+    .se(0) // pic_init_qp_minus26
+    .se(0) // pic_init_qs_minus26
+    .se(0) // chroma_qp_index_offset
+    .bit(1) // deblocking_filter_control_present_flag
+    .bit(0) // constrained_intra_pred_flag
+    .bit(0) // redundant_pic_cnt_present_flag
+    .trailing();
+
+  const encodedFrames = frames.map((pixel, index) => {
+    const slice = new BitWriter()
+      .ue(0) // first_mb_in_slice
+      .ue(7) // slice_type: I (all slices)
+      .ue(0) // pic_parameter_set_id
+      .bits(0, 4) // frame_num (IDR)
+      .ue(index % 2) // idr_pic_id: consecutive IDRs must differ
+      .bit(0) // no_output_of_prior_pics_flag
+      .bit(0) // long_term_reference_flag
+      .se(0) // slice_qp_delta
+      .ue(1); // disable_deblocking_filter_idc
+
+    for (let mbY = 0; mbY < mbHeight; mbY++) {
+      for (let mbX = 0; mbX < mbWidth; mbX++) {
+        slice.ue(25).alignZero(); // mb_type: I_PCM + pcm_alignment_zero_bits
+
+        // Sample the macroblock once (edge pixels clamp into the visible area)
+        const yuv: [number, number, number][] = [];
+        for (let y = 0; y < 16; y++) {
+          for (let x = 0; x < 16; x++) {
+            const px = Math.min(mbX * 16 + x, width - 1);
+            const py = Math.min(mbY * 16 + y, height - 1);
+            yuv.push(rgbToYuv(pixel(px, py)));
+          }
+        }
+
+        for (let i = 0; i < 256; i++) slice.byte(yuv[i][0]);
+        for (const plane of [1, 2]) {
+          for (let y = 0; y < 8; y++) {
+            for (let x = 0; x < 8; x++) {
+              slice.byte(yuv[y * 2 * 16 + x * 2][plane]);
+            }
+          }
+        }
+      }
+    }
+
+    return nalUnit(3, 5, slice.trailing().toBytes());
+  });
+
+  return {
+    sps: nalUnit(3, 7, sps.toBytes()),
+    pps: nalUnit(3, 8, pps.toBytes()),
+    frames: encodedFrames,
+    codedWidth,
+    codedHeight,
+  };
+}
+
+function box(type: string, ...children: Uint8Array[]): Uint8Array {
+  const size = 8 + children.reduce((total, child) => total + child.length, 0);
+  const out = new ByteWriter().u32(size).ascii(type);
+  children.forEach(child => out.bytes(child));
+  return out.toBytes();
+}
+
+function fullBox(type: string, version: number, flags: number, ...children: Uint8Array[]): Uint8Array {
+  const header = new ByteWriter().u8(version).u8(flags >>> 16).u16(flags & 0xffff).toBytes();
+  return box(type, header, ...children);
+}
+
+const IDENTITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+/**
+ * Encode frames as an MP4 (H.264 video track, no audio)
+ * Each frame is shown for `frameDurationMs`
+ */
+export function encodeMp4(width: number, height: number, frames: PixelFn[], frameDurationMs: number = 1000): Uint8Array {
+  const stream = encodeH264(width, height, frames);
+  const samples = stream.frames.map(nal => new ByteWriter().u32(nal.length).bytes(nal).toBytes());
+  const durationMs = frames.length * frameDurationMs;
+
+  const matrix = new ByteWriter();
+  IDENTITY_MATRIX.forEach(value => matrix.u32(value));
+
+  const avcC = box('avcC', new ByteWriter()
+    .u8(1) // configurationVersion
+    .u8(66).u8(0xc0).u8(30) // profile, compatibility, level
+    .u8(0xff) // lengthSizeMinusOne = 3
+    .u8(0xe1).u16(stream.sps.length).bytes(stream.sps)
+    .u8(1).u16(stream.pps.length).bytes(stream.pps)
+    .toBytes());
+
+  const avc1 = box('avc1', new ByteWriter()
+    .zeros(6).u16(1) // reserved, data_reference_index
+    .zeros(16) // pre_defined / reserved
+    .u16(width).u16(height)
+    .u32(0x00480000).u32(0x00480000) // 72 dpi
+    .u32(0).u16(1) // reserved, frame_count
+    .zeros(32) // compressorname
+    .u16(0x0018).u16(0xffff) // depth, pre_defined
+    .toBytes(), avcC);
+
+  const stbl = (chunkOffset: number) => box('stbl',
+    fullBox('stsd', 0, 0, new ByteWriter().u32(1).toBytes(), avc1),
+    fullBox('stts', 0, 0, new ByteWriter().u32(1).u32(samples.length).u32(frameDurationMs).toBytes()),
+    fullBox('stsc', 0, 0, new ByteWriter().u32(1).u32(1).u32(samples.length).u32(1).toBytes()),
+    fullBox('stsz', 0, 0, (() => {
+      const sizes = new ByteWriter().u32(0).u32(samples.length);
+      samples.forEach(sample => sizes.u32(sample.length));
+      return sizes.toBytes();
+    })()),
+    fullBox('stco', 0, 0, new ByteWriter().u32(1).u32(chunkOffset).toBytes()),
+  );
+
+  const moov = (chunkOffset: number) => box('moov',
+    fullBox('mvhd', 0, 0, new ByteWriter()
+      .u32(0).u32(0) // creation / modification time
+      .u32(1000).u32(durationMs) // timescale, duration
+      .u32(0x00010000).u16(0x0100).zeros(10) // rate, volume, reserved
+      .bytes(matrix.toBytes())
+      .zeros(24) // pre_defined
+      .u32(2) // next_track_ID
+      .toBytes()),
+    box('trak',
+      fullBox('tkhd', 0, 3, new ByteWriter()
+        .u32(0).u32(0) // creation / modification time
+        .u32(1).u32(0) // track_ID, reserved
+        .u32(durationMs)
+        .zeros(8)
+        .u16(0).u16(0).u16(0).u16(0) // layer, alternate_group, volume, reserved
+        .bytes(matrix.toBytes())
+        .u32(width << 16).u32(height << 16)
+        .toBytes()),
+      box('mdia',
+        fullBox('mdhd', 0, 0, new ByteWriter()
+          .u32(0).u32(0)
+          .u32(1000).u32(durationMs)
+          .u16(0x55c4).u16(0) // language 'und', pre_defined
+          .toBytes()),
+        fullBox('hdlr', 0, 0, new ByteWriter()
+          .u32(0).ascii('vide').zeros(12).ascii('VideoHandler').u8(0)
+          .toBytes()),
+        box('minf',
+          fullBox('vmhd', 0, 1, new ByteWriter().zeros(8).toBytes()),
+          box('dinf', fullBox('dref', 0, 0, new ByteWriter().u32(1).toBytes(), fullBox('url ', 0, 1))),
+          stbl(chunkOffset),
+        ),
+      ),
+    ),
+  );
+
+  const ftyp = box('ftyp', new ByteWriter().ascii('isom').u32(0x200).ascii('isomiso2avc1mp41').toBytes());
+
+  // moov size doesn't depend on the offset value, so measure once and rebuild
+  const moovSize = moov(0).length;
+  const mdatOffset = ftyp.length + moovSize + 8;
+  const mdat = box('mdat', ...samples);
+
+  return new ByteWriter().bytes(ftyp).bytes(moov(mdatOffset)).bytes(mdat).toBytes();
+}
@@ -0,0 +1,83 @@
+/**
+ * Parameter sweep expansion
+ *
+ * A sweep runs the same prompt and references across every combination of
+ * the selected models, quality levels and sizes, so the results can be
+ * compared side by side. Parameters with a single selected value are fixed
+ * for the whole sweep and do not become a grid dimension.
+ */
+
+import type { Quality, SeedreamModel } from '@/types/api';
+import type { JobGroupDimension } from '@/types/jobs';
+
+export interface SweepSelection {
+  models: SeedreamModel[];
+  qualities: Quality[];
+  sizes: string[]; // Display form, e.g. "2048×2048"
+}
+
+export interface SweepCombination {
+  model: SeedreamModel;
+  quality: Quality;
+  size: string;
+  coordinates: number[]; // Value index per sweep dimension
+}
+
+export interface SweepExpansion {
+  dimensions: JobGroupDimension[];
+  combinations: SweepCombination[];
+}
+
+export const MAX_SWEEP_COMBINATIONS = 24;
+
+export const SWEEP_MODEL_LABELS: Record<SeedreamModel, string> = {
+  'seedream-4-0': 'Seedream 4.0',
+  'seedream-4-5': 'Seedream 4.5',
+};
+
+export const SWEEP_QUALITY_LABELS: Record<Quality, string> = {
+  standard: 'Standard',
+  fast: 'Fast',
+};
+
+/**
+ * Number of combinations a selection runs (0 when any parameter has no values)
+ */
+export function countSweepCombinations(selection: SweepSelection): number {
+  return selection.models.length * selection.qualities.length * selection.sizes.length;
+}
+
+/**
+ * Expand a selection into one combination per model × quality × size
+ * Models vary fastest, so they become the grid's columns
+ */
+export function expandSweep(selection: SweepSelection): SweepExpansion {
+  const axes = [
+    { label: 'Size', values: selection.sizes, labels: selection.sizes },
+    { label: 'Quality', values: selection.qualities, labels: selection.qualities.map(value => SWEEP_QUALITY_LABELS[value]) },
+    { label: 'Model', values: selection.models, labels: selection.models.map(value => SWEEP_MODEL_LABELS[value]) },
+  ];
+
+  // Only parameters that actually vary become dimensions (always keep at least the models)
+  const varying = axes.filter((axis, index) => axis.values.length > 1 || index === axes.length - 1);
+  const dimensions = axes
+    .filter(axis => varying.includes(axis))
+    .map(axis => ({ label: axis.label, values: axis.labels }));
+
+  const combinations: SweepCombination[] = [];
+  selection.sizes.forEach((size, sizeIndex) => {
+    selection.qualities.forEach((quality, qualityIndex) => {
+      selection.models.forEach((model, modelIndex) => {
+        const indexes = [sizeIndex, qualityIndex, modelIndex];
+        combinations.push({
+          model,
+          quality,
+          size,
+          coordinates: indexes.filter((_, axis) => varying.includes(axes[axis])),
+        });
+      });
+    });
+  });
+
+  return { dimensions, combinations };
+}
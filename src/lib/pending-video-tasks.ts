@@ -0,0 +1,43 @@
+/**
+ * Pending video tasks kept across page reloads
+ *
+ * Seedance tasks keep running on the server when the tab closes, but the job
+ * queue only lives in memory. Each task is recorded here with its request
+ * parameters as soon as it exists and removed once the task is finished on
+ * the server or cancelled, so the queue can pick up waiting for it on the next
+ * load (also after the local wait gave up). CLIENT ONLY.
+ */
+
+import { withStore } from './local-db';
+import type { VideoGenerationParams } from '@/types/jobs';
+
+export interface PendingVideoTask {
+  jobId: string;
+  taskId: string;
+  params: VideoGenerationParams;
+  createdAt: number; // ms; job submission
+  startedAt: number; // ms; task creation
+  expiresAt: number; // ms; the server expires the task if it hasn't finished by then
+}
+
+/**
+ * Record a task that was just created
+ */
+export async function savePendingVideoTask(task: PendingVideoTask): Promise<void> {
+  await withStore('pendingVideoTasks', 'readwrite', store => store.put(task));
+}
+
+/**
+ * Forget a task once it has finished on the server (or was cancelled)
+ */
+export async function removePendingVideoTask(jobId: string): Promise<void> {
+  await withStore('pendingVideoTasks', 'readwrite', store => store.delete(jobId));
+}
+
+/**
+ * Every recorded task, oldest first
+ */
+export async function listPendingVideoTasks(): Promise<PendingVideoTask[]> {
+  const tasks = await withStore<PendingVideoTask[]>('pendingVideoTasks', 'readonly', store => store.getAll());
+  return tasks.sort((a, b) => a.createdAt - b.createdAt);
+}
@@ -0,0 +1,184 @@
+/**
+ * Text commands typed into a video prompt
+ *
+ * Seedance reads parameters from --commands at the end of the prompt, and
+ * SeedanceClient appends them from the form controls. Commands typed by hand
+ * are moved into the controls instead, so the prompt never carries a second,
+ * conflicting copy. Commands without a control (e.g. --wm) are removed, since
+ * they would override settings the app fixes.
+ */
+
+import { parseTextCommands, TEXT_COMMAND_PATTERN } from '@/constants/video-parameters';
+import {
+  isValidDuration,
+  isValidRatio,
+  isValidResolution,
+  isValidSeed,
+  type VideoDuration,
+  type VideoRatio,
+  type VideoResolution,
+} from '@/types/video-api';
+
+/**
+ * Control values taken from the prompt (only the commands that were typed)
+ */
+export interface PromptCommandSettings {
+  ratio?: VideoRatio;
+  duration?: VideoDuration;
+  resolution?: VideoResolution;
+  cameraFixed?: boolean;
+  seed?: number;
+}
+
+export interface PromptCommandNote {
+  command: string; // e.g. "--dur 20"
+  kind: 'applied' | 'overridden' | 'invalid' | 'duplicate'; // overridden: changed a control's value
+  message: string;
+}
+
+export interface ExtractedPromptCommands {
+  prompt: string; // Prompt without the commands moved into controls
+  settings: PromptCommandSettings;
+  notes: PromptCommandNote[];
+}
+
+// Seedance only renders 24 fps; other values are rejected
+const FIXED_FPS = '24';
+
+function parseBoolean(value: string): boolean | null {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return null;
+}
+
+/**
+ * Apply one command to the settings
+ * Returns an error message for invalid values and for commands the app doesn't manage
+ */
+function applyCommand(key: string, value: string, settings: PromptCommandSettings): string | null {
+  switch (key) {
+    case 'rt':
+      if (!isValidRatio(value)) return 'Unknown aspect ratio';
+      settings.ratio = value;
+      return null;
+    case 'dur': {
+      const duration = value === 'auto' ? -1 : Number(value);
+      if (!isValidDuration(duration)) return 'Duration must be 4-12 seconds';
+      settings.duration = duration;
+      return null;
+    }
+    case 'rs':
+      if (!isValidResolution(value)) return 'Only 480p and 720p are supported';
+      settings.resolution = value;
+      return null;
+    case 'cf': {
+      const cameraFixed = parseBoolean(value);
+      if (cameraFixed === null) return 'Use --cf true or --cf false';
+      settings.cameraFixed = cameraFixed;
+      return null;
+    }
+    case 'seed': {
+      const seed = Number(value);
+      if (!isValidSeed(seed) || seed < 0) return 'Seed must be a whole number from 0 to 4294967295';
+      settings.seed = seed;
+      return null;
+    }
+    case 'fps':
+      return value === FIXED_FPS ? null : 'Seedance 1.5 Pro only renders at 24 fps';
+    case 'wm':
+      return value === 'false' ? null : 'Videos are always generated without a watermark';
+    default:
+      return 'Not a command the studio supports';
+  }
+}
+
+/**
+ * Move --commands typed into a prompt into control settings
+ * Every command is removed from the prompt, including invalid and unknown ones
+ */
+export function extractPromptCommands(prompt: string): ExtractedPromptCommands {
+  const { cleanPrompt, commands } = parseTextCommands(prompt);
+  const settings: PromptCommandSettings = {};
+  const notes: PromptCommandNote[] = [];
+
+  // parseTextCommands keeps the last value of a repeated command
+  const typedKeys = (prompt.match(TEXT_COMMAND_PATTERN) || []).map(match => match.trim().slice(2).split(/\s+/)[0]);
+
+  for (const [key, value] of Object.entries(commands)) {
+    const command = `--${key} ${value}`;
+    const result = applyCommand(key, value, settings);
+
+    if (result) {
+      notes.push({ command, kind: 'invalid', message: `${result}; removed from the prompt` });
+      continue;
+    }
+    if (typedKeys.filter(typed => typed === key).length > 1) {
+      notes.push({ command, kind: 'duplicate', message: `--${key} was typed more than once; the last value was used` });
+    }
+    // Removed without changing a control (describeAppliedCommands only covers settings)
+    if (key === 'fps') {
+      notes.push({ command, kind: 'applied', message: 'Seedance 1.5 Pro always renders at 24 fps; removed from the prompt' });
+    }
+    if (key === 'wm') {
+      notes.push({ command, kind: 'applied', message: 'Videos are always generated without a watermark; removed from the prompt' });
+    }
+  }
+
+  return {
+    prompt: cleanPrompt,
+    settings,
+    notes,
+  };
+}
+
+function formatSetting(key: keyof PromptCommandSettings, value: PromptCommandSettings[typeof key] | null): string {
+  if (value === undefined || value === null) return key === 'seed' ? 'random' : 'unset';
+  if (key === 'duration') return value === -1 ? 'auto' : `${value}s`;
+  if (key === 'cameraFixed') return value ? 'fixed' : 'free';
+  return String(value);
+}
+
+const SETTING_LABELS: Record<keyof PromptCommandSettings, string> = {
+  ratio: 'Aspect ratio',
+  duration: 'Duration',
+  resolution: 'Resolution',
+  cameraFixed: 'Camera',
+  seed: 'Seed',
+};
+
+const SETTING_COMMANDS: Record<keyof PromptCommandSettings, string> = {
+  ratio: 'rt',
+  duration: 'dur',
+  resolution: 'rs',
+  cameraFixed: 'cf',
+  seed: 'seed',
+};
+
+/**
+ * Notes for the commands that were moved into controls
+ * Flags the ones that overrode a different control value
+ */
+export function describeAppliedCommands(
+  settings: PromptCommandSettings,
+  current: { [K in keyof PromptCommandSettings]-?: PromptCommandSettings[K] | null }
+): PromptCommandNote[] {
+  return (Object.keys(settings) as (keyof PromptCommandSettings)[]).map(key => {
+    const value = settings[key];
+    const previous = current[key];
+    const command = `--${SETTING_COMMANDS[key]} ${key === 'duration' && value === -1 ? 'auto' : value}`;
+    return {
+      command,
+      kind: previous === value ? 'applied' : 'overridden',
+      message: previous === value
+        ? `${SETTING_LABELS[key]} already ${formatSetting(key, value)}`
+        : `${SETTING_LABELS[key]} changed from ${formatSetting(key, previous)} to ${formatSetting(key, value)}`,
+    };
+  });
+}
+
+/**
+ * Whether a prompt contains anything extractPromptCommands would change
+ */
+export function hasPromptCommands(prompt: string): boolean {
+  return Object.keys(parseTextCommands(prompt).commands).length > 0;
+}
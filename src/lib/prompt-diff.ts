@@ -0,0 +1,70 @@
+/**
+ * Word-level prompt diff
+ *
+ * Shows how a prompt changed from one iteration to the next. Prompts are
+ * short, so a plain longest-common-subsequence table over words is enough.
+ */
+
+export type DiffPartType = 'same' | 'added' | 'removed';
+
+export interface DiffPart {
+  type: DiffPartType;
+  text: string;
+}
+
+function tokenize(text: string): string[] {
+  return text.trim() ? text.trim().split(/\s+/) : [];
+}
+
+/**
+ * Diff two prompts word by word; consecutive words of the same type are merged
+ */
+export function diffPrompts(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPartType, word: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += ` ${word}`;
+    } else {
+      parts.push({ type, text: word });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+}
+
+/**
+ * True when the diff has any added or removed words
+ */
+export function hasPromptChanges(parts: DiffPart[]): boolean {
+  return parts.some(part => part.type !== 'same');
+}
@@ -0,0 +1,109 @@
+/**
+ * Prompt matrix expansion
+ *
+ * A prompt can vary parts of its wording with two kinds of tokens:
+ * - `{a|b|c}` alternation: one prompt per listed value
+ * - `__listname__` wildcards: one prompt per line of a saved wildcard list
+ *
+ * Every token is a dimension of the matrix and the prompts are the cartesian
+ * product of all dimensions. Repeating the same token reuses its dimension,
+ * so `{red|blue} car, {red|blue} sky` gives two prompts, not four.
+ */
+
+export type WildcardLists = Record<string, string[]>;
+
+export interface MatrixDimension {
+  token: string; // Source text, e.g. "{red|blue}" or "__styles__"
+  values: string[];
+}
+
+export interface MatrixPrompt {
+  prompt: string;
+  coordinates: number[]; // Value index per dimension
+}
+
+export interface PromptExpansion {
+  dimensions: MatrixDimension[];
+  total: number; // Number of combinations (may exceed MAX_MATRIX_PROMPTS)
+  prompts: MatrixPrompt[]; // Empty when total is over the limit
+  unknownLists: string[]; // Wildcards without a saved list
+}
+
+export const MAX_MATRIX_PROMPTS = 48;
+
+// {a|b} needs at least one "|" so ordinary braces are left alone
+const TOKEN_PATTERN = /\{([^{}|]*(?:\|[^{}|]*)+)\}|__([A-Za-z0-9][\w-]*?)__/g;
+
+const LIST_NAME_PATTERN = /^[A-Za-z0-9][\w-]*$/;
+
+/**
+ * Wildcard list names: letters, numbers, dashes and underscores
+ */
+export function isValidListName(name: string): boolean {
+  return LIST_NAME_PATTERN.test(name) && !name.includes('__');
+}
+
+/**
+ * True when the prompt contains any alternation or wildcard token
+ */
+export function hasMatrixSyntax(prompt: string): boolean {
+  TOKEN_PATTERN.lastIndex = 0;
+  return TOKEN_PATTERN.test(prompt);
+}
+
+/**
+ * Expand a prompt into one prompt per combination of token values
+ */
+export function expandPromptMatrix(prompt: string, lists: WildcardLists = {}): PromptExpansion {
+  const dimensions: MatrixDimension[] = [];
+  const unknownLists: string[] = [];
+
+  for (const match of prompt.matchAll(TOKEN_PATTERN)) {
+    const [token, alternatives, listName] = match;
+    if (dimensions.some(dimension => dimension.token === token)) continue;
+
+    if (alternatives !== undefined) {
+      dimensions.push({ token, values: alternatives.split('|').map(value => value.trim()) });
+    } else if (lists[listName]?.length) {
+      dimensions.push({ token, values: lists[listName] });
+    } else if (!unknownLists.includes(listName)) {
+      unknownLists.push(listName);
+    }
+  }
+
+  const total = dimensions.reduce((count, dimension) => count * dimension.values.length, 1);
+  if (unknownLists.length > 0 || total > MAX_MATRIX_PROMPTS) {
+    return { dimensions, total, prompts: [], unknownLists };
+  }
+
+  // Cartesian product, last dimension varying fastest
+  let combinations: number[][] = [[]];
+  for (const dimension of dimensions) {
+    combinations = combinations.flatMap(coordinates =>
+      dimension.values.map((_, index) => [...coordinates, index])
+    );
+  }
+
+  const prompts = combinations.map(coordinates => ({
+    coordinates,
+    prompt: prompt
+      .replace(TOKEN_PATTERN, token => {
+        const index = dimensions.findIndex(dimension => dimension.token === token);
+        return dimensions[index].values[coordinates[index]];
+      })
+      .replace(/ {2,}/g, ' ') // Empty alternatives leave double spaces
+      .trim(),
+  }));
+
+  return { dimensions, total, prompts, unknownLists };
+}
+
+/**
+ * Parse a wildcard list from text (one value per line, blank lines ignored)
+ */
+export function parseListText(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
+}
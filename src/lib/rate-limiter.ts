@@ -0,0 +1,224 @@
+/**
+ * Per-key rate limiter and concurrency queue (server only)
+ *
+ * Every generation request takes a slot from a bucket keyed by (API key, model):
+ * - requestsPerMinute: sliding one-minute window of accepted requests
+ * - maxConcurrent: requests in flight, plus active Ark tasks when the caller
+ *   can count them (video tasks keep running after the create request returns)
+ *
+ * Requests over the concurrency limit wait in a FIFO queue for up to maxWaitMs.
+ * Anything that can't be served gets a 429 with Retry-After, which the clients
+ * honour with automatic retries.
+ *
+ * Limits are configured per model ID prefix with ARK_RATE_LIMITS, e.g.
+ *   ARK_RATE_LIMITS='{"seedream-4-5":{"requestsPerMinute":10,"maxConcurrent":1}}'
+ *
+ * State lives in process memory, so each server instance limits independently.
+ */
+
+import { NextResponse } from 'next/server';
+import type { VideoError } from '@/types/video-api';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface RateLimit {
+  requestsPerMinute: number;
+  maxConcurrent: number;
+}
+
+// Matched by longest model ID prefix
+const DEFAULT_RATE_LIMITS: Record<string, RateLimit> = {
+  seedream: { requestsPerMinute: 30, maxConcurrent: 2 },
+  seedance: { requestsPerMinute: 10, maxConcurrent: 5 },
+};
+
+const FALLBACK_RATE_LIMIT: RateLimit = { requestsPerMinute: 20, maxConcurrent: 2 };
+
+const WINDOW_MS = 60 * 1000;
+const QUEUE_RETRY_AFTER_SECONDS = 5; // Suggested wait when the queue times out
+const DEFAULT_POLL_INTERVAL_MS = 500;
+
+let configuredLimits: Record<string, RateLimit> | null = null;
+
+function getConfiguredLimits(): Record<string, RateLimit> {
+  if (!configuredLimits) {
+    let overrides: Record<string, Partial<RateLimit>> = {};
+    try {
+      overrides = JSON.parse(process.env.ARK_RATE_LIMITS || '{}');
+    } catch {
+      console.error('ARK_RATE_LIMITS is not valid JSON, using defaults');
+    }
+
+    configuredLimits = { ...DEFAULT_RATE_LIMITS };
+    Object.entries(overrides).forEach(([prefix, limit]) => {
+      const base = configuredLimits![prefix] ?? FALLBACK_RATE_LIMIT;
+      configuredLimits![prefix] = { ...base, ...limit };
+    });
+  }
+  return configuredLimits;
+}
+
+/**
+ * Limits for a model ID (longest matching prefix wins)
+ */
+export function getRateLimit(model: string): RateLimit {
+  const limits = getConfiguredLimits();
+  const prefix = Object.keys(limits)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? limits[prefix] : FALLBACK_RATE_LIMIT;
+}
+
+// ============================================================================
+// Buckets
+// ============================================================================
+
+interface Bucket {
+  accepted: number[]; // Timestamps (ms) of requests in the current window
+  inFlight: number;
+  queue: symbol[]; // Waiting requests, first in first out
+}
+
+// Kept on globalThis so dev-server module reloads don't drop state
+const globalStore = globalThis as typeof globalThis & { __arkRateLimiter?: Map<string, Bucket> };
+const buckets: Map<string, Bucket> = globalStore.__arkRateLimiter ??= new Map();
+
+// Buckets are keyed by a hash so raw API keys aren't held in memory
+async function getBucket(apiKey: string, model: string): Promise<Bucket> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey));
+  const keyHash = Array.from(new Uint8Array(digest).slice(0, 12), byte => byte.toString(16).padStart(2, '0')).join('');
+  const bucketKey = `${keyHash}:${model}`;
+
+  let bucket = buckets.get(bucketKey);
+  if (!bucket) {
+    bucket = { accepted: [], inFlight: 0, queue: [] };
+    buckets.set(bucketKey, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * Seconds until the window has room again, or 0 if it has room now
+ */
+function windowRetryAfter(bucket: Bucket, limit: RateLimit, now: number): number {
+  bucket.accepted = bucket.accepted.filter(time => now - time < WINDOW_MS);
+  if (bucket.accepted.length < limit.requestsPerMinute) {
+    return 0;
+  }
+  return Math.max(1, Math.ceil((bucket.accepted[0] + WINDOW_MS - now) / 1000));
+}
+
+// ============================================================================
+// Slots
+// ============================================================================
+
+export interface RateLimitSlot {
+  release: () => void; // Idempotent
+}
+
+export type SlotResult =
+  | { granted: true; slot: RateLimitSlot }
+  | { granted: false; reason: 'rate' | 'concurrency'; retryAfterSeconds: number; limit: RateLimit };
+
+/**
+ * Take a slot for one upstream request, waiting in the queue if needed
+ */
+export async function acquireSlot(
+  apiKey: string,
+  model: string,
+  options: {
+    maxWaitMs: number;
+    countActive?: () => Promise<number>; // Work already running upstream (e.g. Ark tasks)
+    pollIntervalMs?: number;
+  }
+): Promise<SlotResult> {
+  const limit = getRateLimit(model);
+  const bucket = await getBucket(apiKey, model);
+  const deadline = Date.now() + options.maxWaitMs;
+
+  const rateRetryAfter = windowRetryAfter(bucket, limit, Date.now());
+  if (rateRetryAfter > 0) {
+    return { granted: false, reason: 'rate', retryAfterSeconds: rateRetryAfter, limit };
+  }
+
+  const ticket = Symbol('slot');
+  bucket.queue.push(ticket);
+
+  try {
+    while (true) {
+      if (bucket.queue[0] === ticket) {
+        const active = bucket.inFlight + (options.countActive ? await options.countActive() : 0);
+
+        if (active < limit.maxConcurrent) {
+          // The window may have filled while waiting
+          const now = Date.now();
+          const retryAfter = windowRetryAfter(bucket, limit, now);
+          if (retryAfter > 0) {
+            return { granted: false, reason: 'rate', retryAfterSeconds: retryAfter, limit };
+          }
+
+          bucket.accepted.push(now);
+          bucket.inFlight++;
+          let released = false;
+          return {
+            granted: true,
+            slot: {
+              release: () => {
+                if (released) return;
+                released = true;
+                bucket.inFlight--;
+              },
+            },
+          };
+        }
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return { granted: false, reason: 'concurrency', retryAfterSeconds: QUEUE_RETRY_AFTER_SECONDS, limit };
+      }
+      await new Promise(resolve =>
+        setTimeout(resolve, Math.min(options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS, remaining))
+      );
+    }
+  } finally {
+    bucket.queue.splice(bucket.queue.indexOf(ticket), 1);
+  }
+}
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+/**
+ * 429 response for a request that didn't get a slot
+ */
+export function rateLimitedResponse(result: Extract<SlotResult, { granted: false }>) {
+  const message = result.reason === 'rate'
+    ? `Rate limit reached (${result.limit.requestsPerMinute} requests per minute for this model).`
+    : `All ${result.limit.maxConcurrent} generation slots for this model are busy.`;
+
+  return NextResponse.json(
+    {
+      error: {
+        code: 'rate_limited',
+        message: `${message} Retry in ${result.retryAfterSeconds}s.`,
+        type: 'rate_limit_error',
+      },
+    } as VideoError,
+    {
+      status: 429,
+      headers: { 'Retry-After': String(result.retryAfterSeconds) },
+    }
+  );
+}
+
+/**
+ * Retry-After for an upstream Ark 429 (defaults to 10 seconds)
+ */
+export function upstreamRetryAfter(response: Response): string {
+  const header = response.headers.get('Retry-After');
+  return header && /^\d+$/.test(header) ? header : '10';
+}
@@ -0,0 +1,386 @@
+/**
+ * Declarative request validation shared by the clients and the proxy routes
+ *
+ * Each request type has a list of field rules. A rule returns an error message
+ * or null, and validation collects every failure as { field, message } so the
+ * form can highlight the offending control. The routes run the same rules and
+ * answer 400 with the field list, so invalid requests never reach Ark.
+ */
+
+import type {
+  SeedreamRequest,
+  SeedreamModel,
+  RequestField,
+  RequestFieldError,
+} from '@/types/api';
+import type {
+  VideoGenerationRequest,
+  VideoContentImage,
+  VideoContentText,
+  VideoMode,
+} from '@/types/video-api';
+import {
+  isValidDuration,
+  isValidResolution,
+  isValidRatio,
+  isValidServiceTier,
+  isValidSeed,
+  isValidExpiresAfter,
+  validateImageCountForMode,
+  getRequiredImageCount,
+} from '@/types/video-api';
+import { getModelConstraints, PARAMETER_CONSTRAINTS } from '@/constants/parameters';
+import { parseTextCommands } from '@/constants/video-parameters';
+import { StudioError } from './studio-error';
+
+// ============================================================================
+// Rule Engine
+// ============================================================================
+
+interface FieldRule<T> {
+  field: RequestField;
+  check: (request: T) => string | null;
+}
+
+function runRules<T>(rules: FieldRule<T>[], request: T): RequestFieldError[] {
+  return rules.flatMap(rule => {
+    const message = rule.check(request);
+    return message ? [{ field: rule.field, message }] : [];
+  });
+}
+
+/**
+ * Thrown by the clients when a request fails validation
+ * (locally, or with the field list returned by a route)
+ */
+export class RequestValidationError extends StudioError {
+  fields: RequestFieldError[];
+
+  constructor(fields: RequestFieldError[]) {
+    super('invalid_request', fields.map(error => error.message).join('; ') || 'Invalid request', {
+      upstreamCode: 'invalid_request',
+      status: 400,
+    });
+    this.name = 'RequestValidationError';
+    this.fields = fields;
+  }
+}
+
+/**
+ * Throw RequestValidationError if there are any errors
+ */
+export function assertValid(errors: RequestFieldError[]): void {
+  if (errors.length > 0) {
+    throw new RequestValidationError(errors);
+  }
+}
+
+/**
+ * 400 response body used by the routes
+ */
+export function validationErrorBody(errors: RequestFieldError[]) {
+  return {
+    error: {
+      code: 'invalid_request',
+      message: errors.map(error => error.message).join('; '),
+      type: 'invalid_request_error',
+      fields: errors,
+    },
+  };
+}
+
+/**
+ * Messages for the given fields (for showing next to a control)
+ */
+export function messagesForFields(errors: RequestFieldError[], ...fields: RequestField[]): string[] {
+  return errors.filter(error => fields.includes(error.field)).map(error => error.message);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Reference images are sent as data URIs or public URLs
+function isImageSource(value: unknown): boolean {
+  return typeof value === 'string' && /^(data:image\/[\w.+-]+;base64,|https?:\/\/)/.test(value);
+}
+
+// ============================================================================
+// Seedream (image) Requests
+// ============================================================================
+
+const SEEDREAM_MODEL_VERSIONS: Record<string, SeedreamModel> = {
+  'seedream-4-0-250828': 'seedream-4-0',
+  'seedream-4-5-251128': 'seedream-4-5',
+};
+
+function seedreamModelOf(request: SeedreamRequest): SeedreamModel {
+  return SEEDREAM_MODEL_VERSIONS[request.model] ?? 'seedream-4-5';
+}
+
+function referenceImagesOf(request: SeedreamRequest): unknown[] {
+  if (request.image === undefined) return [];
+  return Array.isArray(request.image) ? request.image : [request.image];
+}
+
+/**
+ * Size preset or WIDTHxHEIGHT within the model's pixel and aspect ratio bounds
+ */
+export function isValidImageSize(size: string, model: SeedreamModel): boolean {
+  const constraints = getModelConstraints(model).size;
+
+  if ((constraints.presets as readonly string[]).includes(size)) {
+    return true;
+  }
+
+  const match = size.match(/^(\d+)x(\d+)$/);
+  if (!match) {
+    return false;
+  }
+
+  const width = parseInt(match[1], 10);
+  const height = parseInt(match[2], 10);
+  const totalPixels = width * height;
+  const aspectRatio = width / height;
+
+  return totalPixels >= constraints.minTotalPixels
+    && totalPixels <= constraints.maxTotalPixels
+    && aspectRatio >= constraints.aspectRatioRange.min
+    && aspectRatio <= constraints.aspectRatioRange.max;
+}
+
+const SEEDREAM_RULES: FieldRule<SeedreamRequest>[] = [
+  {
+    field: 'model',
+    check: request => (request.model in SEEDREAM_MODEL_VERSIONS ? null : 'Unknown image model'),
+  },
+  {
+    field: 'prompt',
+    check: request =>
+      typeof request.prompt === 'string' && request.prompt.trim().length > 0
+        ? null
+        : 'Prompt is required and cannot be empty',
+  },
+  {
+    field: 'images',
+    check: request => {
+      const images = referenceImagesOf(request);
+      const maxCount = getModelConstraints(seedreamModelOf(request)).imageUrl.maxCount;
+      if (Array.isArray(request.image) && images.length === 0) {
+        return 'At least 1 reference image required when using image mode';
+      }
+      if (images.length > maxCount) {
+        return `Maximum ${maxCount} reference images allowed for ${seedreamModelOf(request)}`;
+      }
+      if (!images.every(isImageSource)) {
+        return 'Reference images must be data URIs or http(s) URLs';
+      }
+      return null;
+    },
+  },
+  {
+    field: 'maxImages',
+    check: request => {
+      if (request.sequential_image_generation !== 'auto') return null;
+
+      const { maxImagesBase, maxImagesWithSingleRef, maxImagesConstraint } = PARAMETER_CONSTRAINTS.batch;
+      const maxImages = request.sequential_image_generation_options?.max_images;
+      const inputCount = referenceImagesOf(request).length;
+
+      if (!maxImages || !Number.isInteger(maxImages) || maxImages < 1 || maxImages > maxImagesBase) {
+        return `Number of images must be between 1 and ${maxImagesBase} for batch generation`;
+      }
+      if (inputCount === 1 && maxImages > maxImagesWithSingleRef) {
+        return `With 1 reference image, batch size cannot exceed ${maxImagesWithSingleRef}`;
+      }
+      if (inputCount > 1 && inputCount + maxImages > maxImagesConstraint) {
+        return `With ${inputCount} reference images, batch size cannot exceed ${maxImagesConstraint - inputCount}`;
+      }
+      return null;
+    },
+  },
+  {
+    field: 'size',
+    check: request => {
+      if (request.size === undefined) return null;
+
+      const model = seedreamModelOf(request);
+      if (typeof request.size === 'string' && isValidImageSize(request.size, model)) return null;
+
+      const constraints = getModelConstraints(model).size;
+      return `Invalid size for ${model}. Use a preset (${constraints.presets.join(', ')}) or WIDTHxHEIGHT with at least ${constraints.minTotalPixels.toLocaleString('en-US')} pixels`;
+    },
+  },
+  {
+    field: 'quality',
+    check: request => {
+      const options: readonly string[] = PARAMETER_CONSTRAINTS.quality.options;
+      if (request.quality !== undefined && !options.includes(request.quality)) {
+        return 'Quality must be standard or fast';
+      }
+      if (request.optimize_prompt_options && !options.includes(request.optimize_prompt_options.mode)) {
+        return 'Quality must be standard or fast';
+      }
+      return null;
+    },
+  },
+  {
+    field: 'responseFormat',
+    check: request =>
+      request.response_format === undefined || request.response_format === 'url' || request.response_format === 'b64_json'
+        ? null
+        : 'Response format must be url or b64_json',
+  },
+];
+
+/**
+ * Validate an image generation request
+ */
+export function validateSeedreamRequest(request: SeedreamRequest): RequestFieldError[] {
+  if (!isObject(request)) {
+    return [{ field: 'model', message: 'Request body must be a JSON object' }];
+  }
+  return runRules(SEEDREAM_RULES, request);
+}
+
+// ============================================================================
+// Seedance (video) Requests
+// ============================================================================
+
+const MAX_VIDEO_PROMPT_LENGTH = 10000;
+
+const VIDEO_MODE_ROLES: Record<VideoMode, string> = {
+  'text-to-video': 'no images',
+  'image-to-video-first': 'a first_frame image',
+  'image-to-video-frames': 'first_frame and last_frame images',
+  'image-to-video-ref': 'reference_image images',
+};
+
+interface VideoRequestContext {
+  request: VideoGenerationRequest;
+  mode: VideoMode;
+  text: string;
+  images: VideoContentImage[];
+  commands: Record<string, string>;
+}
+
+function videoImagesOf(request: VideoGenerationRequest): VideoContentImage[] {
+  return request.content.filter((item): item is VideoContentImage => item?.type === 'image_url');
+}
+
+/**
+ * Infer the generation mode from image count and roles
+ * (the API request carries no explicit mode)
+ */
+export function inferVideoMode(images: VideoContentImage[]): VideoMode {
+  if (images.length === 0) return 'text-to-video';
+  if (images.some(image => image.role === 'reference_image')) return 'image-to-video-ref';
+  if (images.some(image => image.role === 'last_frame')) return 'image-to-video-frames';
+  return 'image-to-video-first';
+}
+
+const VIDEO_RULES: FieldRule<VideoRequestContext>[] = [
+  {
+    field: 'model',
+    check: ({ request }) =>
+      typeof request.model === 'string' && /^[\w.-]+$/.test(request.model.trim())
+        ? null
+        : 'Video model ID is required (letters, numbers, dots and dashes only)',
+  },
+  {
+    field: 'prompt',
+    check: ({ text }) => {
+      const { cleanPrompt } = parseTextCommands(text);
+      if (cleanPrompt.trim().length === 0) return 'Prompt is required';
+      if (cleanPrompt.length > MAX_VIDEO_PROMPT_LENGTH) return 'Prompt is too long (max 10,000 characters)';
+      return null;
+    },
+  },
+  {
+    field: 'images',
+    check: ({ mode, images }) => {
+      if (!validateImageCountForMode(mode, images.length)) {
+        const required = getRequiredImageCount(mode);
+        return typeof required === 'number'
+          ? `${mode} requires exactly ${required} image${required === 1 ? '' : 's'}`
+          : `${mode} requires ${required.min}-${required.max} images`;
+      }
+
+      const roles = images.map(image => image.role);
+      const rolesMatch =
+        (mode === 'image-to-video-frames' && roles.includes('first_frame') && roles.includes('last_frame')) ||
+        (mode === 'image-to-video-ref' && roles.every(role => role === 'reference_image')) ||
+        (mode === 'image-to-video-first' && roles.every(role => role === undefined || role === 'first_frame')) ||
+        mode === 'text-to-video';
+      if (!rolesMatch) {
+        return `${mode} requires ${VIDEO_MODE_ROLES[mode]}`;
+      }
+
+      if (!images.every(image => isImageSource(image.image_url?.url))) {
+        return 'Images must be data URIs or http(s) URLs';
+      }
+      return null;
+    },
+  },
+  {
+    field: 'duration',
+    check: ({ commands }) =>
+      commands.dur === undefined || isValidDuration(Number(commands.dur))
+        ? null
+        : 'Duration must be between 4-12 seconds or auto',
+  },
+  {
+    field: 'resolution',
+    check: ({ commands }) =>
+      commands.rs === undefined || isValidResolution(commands.rs)
+        ? null
+        : 'Invalid resolution (only 480p and 720p supported)',
+  },
+  {
+    field: 'ratio',
+    check: ({ commands }) =>
+      commands.rt === undefined || isValidRatio(commands.rt) ? null : 'Invalid aspect ratio',
+  },
+  {
+    field: 'serviceTier',
+    check: ({ request }) =>
+      request.service_tier === undefined || isValidServiceTier(request.service_tier)
+        ? null
+        : 'Invalid service tier (must be default or flex)',
+  },
+  {
+    field: 'expiresAfter',
+    check: ({ request }) =>
+      request.execution_expires_after === undefined || isValidExpiresAfter(request.execution_expires_after)
+        ? null
+        : 'Task expiry must be a whole number of seconds from 3600 (1 hour) to 259200 (72 hours)',
+  },
+  {
+    field: 'seed',
+    check: ({ request }) =>
+      request.seed === undefined || isValidSeed(request.seed)
+        ? null
+        : 'Seed must be a whole number from 0 to 4294967295 (or -1 for random)',
+  },
+];
+
+/**
+ * Validate a video task creation request
+ * Pass the form's mode when known; otherwise it is inferred from the images
+ */
+export function validateVideoRequest(request: VideoGenerationRequest, mode?: VideoMode): RequestFieldError[] {
+  if (!isObject(request) || !Array.isArray(request.content)) {
+    return [{ field: 'prompt', message: 'Request content must be an array of text and images' }];
+  }
+
+  const images = videoImagesOf(request);
+  const text = request.content.find((item): item is VideoContentText => item?.type === 'text')?.text ?? '';
+
+  return runRules(VIDEO_RULES, {
+    request,
+    mode: mode ?? inferVideoMode(images),
+    text: typeof text === 'string' ? text : '',
+    images,
+    commands: parseTextCommands(typeof text === 'string' ? text : '').commands,
+  });
+}
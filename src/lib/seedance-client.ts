@@ -3,16 +3,24 @@
  *
  * Video generation uses an async task-based API:
  * 1. Create task → Returns task ID immediately
- * 2. Poll status → Exponential backoff until succeeded/failed
+ * 2. Wait for status → Pushed via callbacks when configured, otherwise
+ *    exponential backoff polling until succeeded/failed
  * 3. Get video URL → Download URL valid for 24 hours
  */
 
-import { supabase } from './supabase/client';
+import type { PostgrestError } from '@supabase/supabase-js';
+import { insertVideoGeneration } from './supabase/repository';
+import type { TablesInsert } from './supabase/types';
+import { fetchWithSlotRetry, type SlotWait } from './slot-retry';
 import type {
   VideoGenerationRequest,
   VideoGenerationResponse,
   VideoTaskResponse,
   VideoTaskStatus,
+  VideoTaskStatusUpdate,
+  VideoTaskListQuery,
+  VideoTaskListResponse,
+  VideoGenerationResult,
   VideoMode,
   VideoError,
   VideoContent,
@@ -25,27 +33,46 @@ import type {
   VideoServiceTier,
 } from '@/types/video-api';
 import { isTerminalStatus, isSuccessStatus } from '@/types/video-api';
-import { VIDEO_CONSTRAINTS, buildTextCommands, validateImageCount } from '@/constants/video-parameters';
+import type { RequestFieldError } from '@/types/api';
+import { buildTextCommands, VIDEO_DEFAULTS } from '@/constants/video-parameters';
+import { assertValid, validateVideoRequest, RequestValidationError } from './request-validation';
+import {
+  StudioError,
+  classifyErrorCode,
+  studioErrorFromBody,
+  studioErrorFromResponse,
+  toStudioError,
+  type StudioErrorCode,
+} from './studio-error';
+
+// Safety-net poll interval while waiting on callbacks (in case one is lost)
+const CALLBACK_SAFETY_POLL_MS = 30000;
+
+// Status check failures that are retried while polling (the task itself is unaffected)
+const TRANSIENT_STATUS_ERRORS = new Set<StudioErrorCode>(['network', 'timeout', 'server_error', 'rate_limited']);
 
 /**
  * Seedance video generation client with async task polling
  */
 export class SeedanceClient {
-  private apiKey: string;
   private baseUrl: string;
   private modelId: string;
 
-  constructor(apiKey: string, modelId?: string) {
-    if (!apiKey || apiKey.trim().length === 0) {
-      throw new Error('API key is required');
-    }
-    this.apiKey = apiKey;
+  // The API key lives in the encrypted session cookie sent with every /api request
+  constructor(modelId?: string) {
     this.baseUrl =
       process.env.NEXT_PUBLIC_SEEDREAM_API_URL ||
       'https://ark.ap-southeast.bytepluses.com/api/v3';
     this.modelId = modelId || 'seedance-1-5-pro';
   }
 
+  /**
+   * Check task parameters without creating a task (same rules as createTask)
+   */
+  validate(params: Parameters<typeof this.createTask>[0]): RequestFieldError[] {
+    return validateVideoRequest(this.buildRequest(params), params.mode);
+  }
+
   /**
    * Create a video generation task
    * Returns immediately with task ID for polling
@@ -60,33 +87,43 @@ export class SeedanceClient {
     generateAudio?: boolean;
     serviceTier?: VideoServiceTier;
     returnLastFrame?: boolean;
-  }): Promise<{ taskId: string }> {
+    cameraFixed?: boolean;
+    expiresAfter?: number; // Seconds before an unfinished task expires
+    seed?: number; // Omit for a random seed
+  }, options: {
+    abortSignal?: AbortSignal;
+    onWaitingForSlot?: (wait: SlotWait | null) => void; // Rate limited: retrying after Retry-After
+  } = {}): Promise<{ taskId: string; callbackEnabled: boolean }> {
     // Build and validate request
     const request = this.buildRequest(params);
-    this.validateRequest(request, params.mode);
+    assertValid(validateVideoRequest(request, params.mode));
 
     // Make API call through Next.js proxy
-    const response = await fetch('/api/generate-video', {
+    const response = await fetchWithSlotRetry('/api/generate-video', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        apiKey: this.apiKey,
-        ...request,
-      }),
+      body: JSON.stringify(request),
+    }, {
+      onWaiting: options.onWaitingForSlot,
+      waitSignal: options.abortSignal, // A sent create request is never aborted: the task may already exist
     });
 
     if (!response.ok) {
-      const error: VideoError = await response.json();
-      throw new Error(error.error?.message || 'Failed to create video task');
+      const error: VideoError | null = await response.json().catch(() => null);
+      if (error?.error?.fields?.length) {
+        throw new RequestValidationError(error.error.fields);
+      }
+      throw studioErrorFromBody(error, response.status, 'Failed to create video task');
     }
 
     const result: VideoGenerationResponse = await response.json();
-    return { taskId: result.id };
+    return { taskId: result.id, callbackEnabled: result.callback_enabled ?? false };
   }
 
   /**
    * Poll task status until completion or failure
    * Uses exponential backoff: 2s → 4s → 8s → 10s (capped)
+   * Transient status check failures (network, 5xx, 429) are retried on the same schedule.
    *
    * @param taskId - The video generation task ID
    * @param onProgress - Callback for status updates
@@ -105,31 +142,24 @@ export class SeedanceClient {
     while (Date.now() - startTime < timeoutMs) {
       // Check if cancelled
       if (abortSignal?.aborted) {
-        throw new Error('Video generation cancelled by user');
+        throw new StudioError('cancelled', 'Video generation cancelled by user');
       }
 
-      const status = await this.getTaskStatus(taskId);
-
-      // Notify progress callback
-      if (onProgress) {
-        onProgress(status.status);
-      }
-
-      // Check for terminal states
-      if (isTerminalStatus(status.status)) {
-        if (isSuccessStatus(status.status)) {
-          return status;
-        }
+      const status = await this.getTaskStatus(taskId).catch((err: unknown) => {
+        const error = toStudioError(err, 'Failed to get task status');
+        if (!TRANSIENT_STATUS_ERRORS.has(error.code)) throw error;
+        return null; // e.g. offline after the laptop woke up - try again after the backoff
+      });
 
-        // Failed or expired
-        if (status.status === 'failed') {
-          throw new Error(
-            status.error?.message || 'Video generation failed'
-          );
+      if (status) {
+        // Notify progress callback
+        if (onProgress) {
+          onProgress(status.status);
         }
 
-        if (status.status === 'expired') {
-          throw new Error('Video generation task expired');
+        // Check for terminal states
+        if (isTerminalStatus(status.status)) {
+          return this.settleTerminalStatus(status);
         }
       }
 
@@ -138,41 +168,169 @@ export class SeedanceClient {
 
       // Wait with cancellation support
       await new Promise<void>((resolve, reject) => {
-        const timeout = setTimeout(resolve, delay);
-
-        // Cancel handler
-        if (abortSignal) {
-          abortSignal.addEventListener('abort', () => {
-            clearTimeout(timeout);
-            reject(new Error('Video generation cancelled by user'));
-          }, { once: true });
-        }
+        // Cancel handler, removed again once the wait is over so listeners don't pile up
+        const onAbort = () => {
+          clearTimeout(timeout);
+          reject(new StudioError('cancelled', 'Video generation cancelled by user'));
+        };
+
+        const timeout = setTimeout(() => {
+          abortSignal?.removeEventListener('abort', onAbort);
+          resolve();
+        }, delay);
+
+        abortSignal?.addEventListener('abort', onAbort, { once: true });
       });
 
       attempt++;
     }
 
-    throw new Error('Video generation timed out');
+    throw new StudioError('timeout', 'Video generation timed out');
+  }
+
+  /**
+   * Wait for task completion using pushed callback updates
+   * Subscribes to /api/video-callback/[taskId] over SSE with a slow safety-net poll.
+   * Falls back to exponential polling if the subscription can't be opened.
+   *
+   * @param taskId - The video generation task ID
+   * @param onProgress - Callback for status updates
+   * @param timeoutMs - Maximum time to wait (default 10 minutes)
+   * @param abortSignal - Optional AbortSignal to cancel waiting
+   */
+  async watchTaskStatus(
+    taskId: string,
+    onProgress?: (status: VideoTaskStatus) => void,
+    timeoutMs: number = 600000,
+    abortSignal?: AbortSignal
+  ): Promise<VideoTaskResponse> {
+    if (typeof EventSource === 'undefined') {
+      return this.pollTaskStatus(taskId, onProgress, timeoutMs, abortSignal);
+    }
+
+    if (abortSignal?.aborted) {
+      throw new StudioError('cancelled', 'Video generation cancelled by user');
+    }
+
+    const startTime = Date.now();
+
+    return new Promise<VideoTaskResponse>((resolve, reject) => {
+      const source = new EventSource(`/api/video-callback/${taskId}`);
+      let settled = false;
+
+      const stopWatching = () => {
+        source.close();
+        clearInterval(safetyPoll);
+        clearTimeout(timeout);
+        abortSignal?.removeEventListener('abort', onAbort);
+      };
+
+      const settle = (task: VideoTaskResponse) => {
+        if (settled) return;
+        onProgress?.(task.status);
+        if (!isTerminalStatus(task.status)) return;
+
+        settled = true;
+        stopWatching();
+        try {
+          resolve(this.settleTerminalStatus(task));
+        } catch (err) {
+          reject(err);
+        }
+      };
+
+      const fail = (err: Error) => {
+        if (settled) return;
+        settled = true;
+        stopWatching();
+        reject(err);
+      };
+
+      const onAbort = () => fail(new StudioError('cancelled', 'Video generation cancelled by user'));
+      abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+      const timeout = setTimeout(() => fail(new StudioError('timeout', 'Video generation timed out')), timeoutMs);
+
+      // Pushed status updates - a terminal status is fetched from Ark before it settles the task
+      source.addEventListener('status', (event) => {
+        let task: VideoTaskStatusUpdate;
+        try {
+          task = JSON.parse((event as MessageEvent<string>).data) as VideoTaskStatusUpdate;
+        } catch {
+          return; // Ignore malformed events, the safety poll will catch up
+        }
+
+        if (isTerminalStatus(task.status)) {
+          this.getTaskStatus(taskId).then(settle).catch(() => undefined);
+        } else if (!settled) {
+          onProgress?.(task.status);
+        }
+      });
+
+      // Subscription refused (EventSource only gives up on non-SSE responses) - poll instead
+      source.onerror = () => {
+        if (settled || source.readyState !== EventSource.CLOSED) return;
+        settled = true;
+        stopWatching();
+        const remaining = Math.max(0, timeoutMs - (Date.now() - startTime));
+        this.pollTaskStatus(taskId, onProgress, remaining, abortSignal).then(resolve, reject);
+      };
+
+      // Safety net: a lost callback must not leave the task hanging
+      const safetyPoll = setInterval(() => {
+        this.getTaskStatus(taskId).then(settle).catch(() => undefined);
+      }, CALLBACK_SAFETY_POLL_MS);
+    });
   }
 
   /**
    * Get current task status (single poll)
    */
   async getTaskStatus(taskId: string): Promise<VideoTaskResponse> {
-    const response = await fetch(`/api/generate-video/${taskId}`, {
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-      },
-    });
+    const response = await fetch(`/api/generate-video/${taskId}`);
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error?.message || 'Failed to get task status');
+      throw await studioErrorFromResponse(response, 'Failed to get task status');
     }
 
     return await response.json();
   }
 
+  /**
+   * List recent tasks (last 7 days) from the server
+   */
+  async listTasks(query: VideoTaskListQuery = {}): Promise<VideoTaskListResponse> {
+    const searchParams = new URLSearchParams();
+    if (query.page_num) searchParams.set('page_num', String(query.page_num));
+    if (query.page_size) searchParams.set('page_size', String(query.page_size));
+    if (query.filter?.status) searchParams.set('filter.status', query.filter.status);
+    if (query.filter?.model) searchParams.set('filter.model', query.filter.model);
+    query.filter?.task_ids?.forEach(id => searchParams.append('filter.task_ids', id));
+
+    const response = await fetch(`/api/generate-video?${searchParams.toString()}`);
+
+    if (!response.ok) {
+      throw await studioErrorFromResponse(response, 'Failed to list video tasks');
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Cancel or delete a task on the server
+   * Queued tasks are cancelled, finished tasks are deleted.
+   * Running tasks cannot be interrupted and the API rejects the request.
+   */
+  async cancelTask(taskId: string): Promise<void> {
+    const response = await fetch(`/api/generate-video/${taskId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      throw await studioErrorFromResponse(response, 'Failed to cancel video task');
+    }
+  }
+
   /**
    * Generate video and wait for completion
    * Convenience method that combines create + poll
@@ -186,8 +344,35 @@ export class SeedanceClient {
     onProgress?: (status: VideoTaskStatus) => void,
     abortSignal?: AbortSignal
   ): Promise<VideoTaskResponse> {
-    const { taskId } = await this.createTask(params);
-    return await this.pollTaskStatus(taskId, onProgress, 600000, abortSignal);
+    const { taskId, callbackEnabled } = await this.createTask(params, { abortSignal });
+    return callbackEnabled
+      ? await this.watchTaskStatus(taskId, onProgress, 600000, abortSignal)
+      : await this.pollTaskStatus(taskId, onProgress, 600000, abortSignal);
+  }
+
+  /**
+   * Map a terminal task status to its result
+   * Returns the task on success, throws for failed/expired/cancelled
+   */
+  private settleTerminalStatus(task: VideoTaskResponse): VideoTaskResponse {
+    if (isSuccessStatus(task.status)) {
+      return task;
+    }
+
+    if (task.status === 'expired') {
+      throw new StudioError('task_expired', 'Video generation task expired');
+    }
+
+    if (task.status === 'cancelled') {
+      throw new StudioError('cancelled', 'Video generation cancelled by user');
+    }
+
+    // Failed
+    throw new StudioError(
+      classifyErrorCode(task.error?.code, undefined, 'task_failed'),
+      task.error?.message || 'Video generation failed',
+      { upstreamCode: task.error?.code }
+    );
   }
 
   /**
@@ -203,6 +388,9 @@ export class SeedanceClient {
     generateAudio?: boolean;
     serviceTier?: VideoServiceTier;
     returnLastFrame?: boolean;
+    cameraFixed?: boolean;
+    expiresAfter?: number; // Seconds before an unfinished task expires
+    seed?: number; // Omit for a random seed
   }): VideoGenerationRequest {
     const content: VideoContent[] = [];
 
@@ -214,6 +402,7 @@ export class SeedanceClient {
       ratio: params.ratio,
       duration: params.duration,
       resolution: params.resolution,
+      cameraFixed: params.cameraFixed,
     });
 
     if (textCommands) {
@@ -242,73 +431,95 @@ export class SeedanceClient {
       generate_audio: params.generateAudio ?? true,
       return_last_frame: params.returnLastFrame ?? false,
       service_tier: params.serviceTier ?? 'default',
-      execution_expires_after: 172800, // 48 hours
+      execution_expires_after: params.expiresAfter ?? VIDEO_DEFAULTS.expiresAfter,
+      seed: params.seed, // Left out of the JSON when undefined (random seed)
     };
   }
 
   /**
-   * Validate request based on mode
+   * Save video metadata to the history table (the video itself is NOT stored)
+   * Called only when video history is enabled. Uploaded images are left out;
+   * only remote reference URLs are kept. Throws when the row can't be saved.
    */
-  private validateRequest(request: VideoGenerationRequest, mode: VideoMode): void {
-    // Extract images from content
-    const images = request.content.filter(
-      c => c.type === 'image_url'
-    ) as VideoContentImage[];
-
-    // Validate image count
-    if (!validateImageCount(mode, images.length)) {
-      const constraint = VIDEO_CONSTRAINTS.imageCounts[mode];
-      if (typeof constraint === 'number') {
-        throw new Error(
-          `${mode} requires exactly ${constraint} image${constraint !== 1 ? 's' : ''}`
-        );
-      } else {
-        throw new Error(
-          `${mode} requires ${constraint.min}-${constraint.max} images`
-        );
-      }
-    }
+  async saveToDatabase(result: VideoGenerationResult, response: VideoTaskResponse): Promise<void> {
+    const row: TablesInsert<'video_generations'> = {
+      task_id: result.taskId,
+      parent_task_id: result.parentTaskId ?? null,
+      prompt: result.prompt,
+      mode: result.mode,
+      reference_image_urls: result.referenceImageUrls?.filter(url => /^https?:\/\//.test(url)) ?? null,
+      duration: response.duration,
+      resolution: response.resolution,
+      ratio: response.ratio,
+      framespersecond: response.framespersecond,
+      generate_audio: response.generate_audio,
+      service_tier: response.service_tier,
+      return_last_frame: result.parameters.returnLastFrame,
+      video_url: response.content?.video_url ?? null,
+      last_frame_url: response.content?.last_frame_url ?? null,
+      seed: response.seed,
+      generation_time_ms: result.generationTimeMs,
+      model_version: response.model,
+      completion_tokens: response.usage?.completion_tokens ?? null,
+      total_tokens: response.usage?.total_tokens ?? null,
+    };
 
-    // Validate prompt
-    const textContent = request.content.find(c => c.type === 'text');
-    if (!textContent || !textContent.text || textContent.text.trim().length === 0) {
-      throw new Error('Prompt is required');
+    try {
+      await insertVideoGeneration(row).catch((error: PostgrestError) => {
+        // The parent was made while history was off - save without the link
+        if (error.code !== '23503' || !row.parent_task_id) throw error;
+        return insertVideoGeneration({ ...row, parent_task_id: null });
+      });
+    } catch (error) {
+      console.error('Failed to save video to database:', error);
+      throw new Error((error as PostgrestError).message);
     }
+  }
+}
 
-    // Validate roles for specific modes
-    if (mode === 'image-to-video-frames') {
-      const roles = images.map(img => img.role);
-      if (!roles.includes('first_frame') || !roles.includes('last_frame')) {
-        throw new Error('First + Last Frame mode requires first_frame and last_frame roles');
-      }
-    }
+// ============================================================================
+// Result Helpers
+// ============================================================================
 
-    if (mode === 'image-to-video-ref') {
-      const allRef = images.every(img => img.role === 'reference_image');
-      if (!allRef) {
-        throw new Error('All images must have reference_image role in Reference Images mode');
-      }
-    }
+/**
+ * Build a UI result from a succeeded task
+ *
+ * Ark does not echo the prompt, mode or input images, so callers that know
+ * them (the generation hook) pass them in; remote tasks fall back to
+ * text-to-video with an empty prompt.
+ */
+export function taskToVideoResult(
+  task: VideoTaskResponse,
+  known: Partial<Pick<VideoGenerationResult, 'prompt' | 'mode' | 'referenceImageUrls' | 'parentTaskId' | 'parameters' | 'generationTimeMs'>> = {}
+): VideoGenerationResult {
+  if (!task.content?.video_url) {
+    throw new StudioError('not_found', 'Task has no video (not succeeded or already removed)');
   }
 
-  /**
-   * Save video metadata to database
-   * DISABLED: Videos are session-only (URLs expire in 24 hours, privacy concerns)
-   *
-   * This method is kept for potential future use but does nothing.
-   * Video results are only stored in React state during the session.
-   */
-  async saveToDatabase(
-    request: VideoGenerationRequest,
-    response: VideoTaskResponse,
-    generationTime: number,
-    mode: VideoMode,
-    parentTaskId?: string | null
-  ): Promise<void> {
-    // Intentionally disabled - videos are session-only
-    // No database persistence to avoid privacy issues and 24-hour URL expiry problems
-    return;
-  }
+  return {
+    id: crypto.randomUUID(), // Client-side ID
+    taskId: task.id,
+    videoUrl: task.content.video_url,
+    lastFrameUrl: task.content.last_frame_url,
+    parentTaskId: known.parentTaskId,
+    prompt: known.prompt ?? '',
+    mode: known.mode ?? 'text-to-video',
+    referenceImageUrls: known.referenceImageUrls,
+    parameters: known.parameters ?? {
+      duration: task.duration as VideoDuration,
+      resolution: task.resolution as VideoResolution,
+      ratio: task.ratio as VideoRatio,
+      generateAudio: task.generate_audio,
+      serviceTier: task.service_tier as VideoServiceTier,
+      returnLastFrame: Boolean(task.content.last_frame_url),
+    },
+    actualDuration: task.duration,
+    actualRatio: task.ratio,
+    generationTimeMs: known.generationTimeMs ?? Math.max(0, (task.updated_at - task.created_at) * 1000),
+    timestamp: new Date(task.created_at * 1000),
+    seed: task.seed,
+    usage: task.usage,
+  };
 }
 
 // ============================================================================
@@ -316,19 +527,17 @@ export class SeedanceClient {
 // ============================================================================
 
 let cachedClient: SeedanceClient | null = null;
-let cachedApiKey: string | null = null;
 let cachedModelId: string | undefined = undefined;
 
 /**
  * Get or create Seedance client instance
- * Caches client for same API key and model ID
+ * Caches client for same model ID
  */
-export function getSeedanceClient(apiKey: string, modelId?: string): SeedanceClient {
-  if (cachedClient && cachedApiKey === apiKey && cachedModelId === modelId) {
+export function getSeedanceClient(modelId?: string): SeedanceClient {
+  if (cachedClient && cachedModelId === modelId) {
     return cachedClient;
   }
-  cachedClient = new SeedanceClient(apiKey, modelId);
-  cachedApiKey = apiKey;
+  cachedClient = new SeedanceClient(modelId);
   cachedModelId = modelId;
   return cachedClient;
 }
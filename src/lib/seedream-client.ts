@@ -1,33 +1,67 @@
-import { supabase } from './supabase/client';
+import { insertGeneration } from './supabase/repository';
+import { readSSE } from './sse';
+import { fetchWithSlotRetry, type SlotWait } from './slot-retry';
 import type {
   SeedreamRequest,
   SeedreamResponse,
+  SeedreamStreamEvent,
+  SeedreamImageSuccess,
   SeedreamError,
   GenerationMode,
   Quality,
   ResponseFormat,
   SeedreamModel,
+  RequestFieldError,
 } from '@/types/api';
-import { getModelDefaults, getModelConstraints } from '@/constants/parameters';
+import { isSeedreamImageError } from '@/types/api';
+import { getModelDefaults } from '@/constants/parameters';
+import { assertValid, validateSeedreamRequest, RequestValidationError } from './request-validation';
+import { StudioError, studioErrorFromBody, toStudioError } from './studio-error';
+
+const STREAM_EVENT_TYPES: ReadonlySet<string> = new Set<SeedreamStreamEvent['type']>([
+  'image_generation.partial_succeeded',
+  'image_generation.partial_failed',
+  'image_generation.completed',
+]);
+
+/**
+ * Parse one SSE data payload from /api/generate
+ * Ark reports mid-stream failures as an error event; those and unknown
+ * event types are raised instead of being treated as completion
+ */
+function parseStreamEvent(data: string, status: number): SeedreamStreamEvent {
+  const event = JSON.parse(data) as { type?: string; error?: { code?: string; message?: string; type?: string } };
+
+  if (event.type && STREAM_EVENT_TYPES.has(event.type)) {
+    return event as SeedreamStreamEvent;
+  }
+  if (event.error) {
+    throw studioErrorFromBody(event, status, 'Generation failed while streaming');
+  }
+  throw new StudioError('server_error', `Unexpected stream event: ${event.type ?? 'untyped'}`);
+}
 
 /**
  * Seedream API client with Supabase integration
  * Handles image generation and automatic metadata persistence
  */
 export class SeedreamClient {
-  private apiKey: string;
   private baseUrl: string;
 
-  constructor(apiKey: string) {
-    if (!apiKey || apiKey.trim().length === 0) {
-      throw new Error('API key is required');
-    }
-    this.apiKey = apiKey;
+  // The API key lives in the encrypted session cookie sent with every /api request
+  constructor() {
     this.baseUrl =
       process.env.NEXT_PUBLIC_SEEDREAM_API_URL ||
       'https://ark.ap-southeast.bytepluses.com/api/v3';
   }
 
+  /**
+   * Check generation parameters without sending anything (same rules as generate)
+   */
+  validate(params: Parameters<typeof this.generate>[0]): RequestFieldError[] {
+    return validateSeedreamRequest(this.buildRequest(params));
+  }
+
   /**
    * Generate image(s) using Seedream API
    * Supports both single and batch generation
@@ -44,34 +78,33 @@ export class SeedreamClient {
     maxImages?: number;
     responseFormat?: ResponseFormat;
     saveToDatabase?: boolean; // Default: true
+    onWaitingForSlot?: (wait: SlotWait | null) => void; // Rate limited: retrying after Retry-After
   }): Promise<SeedreamResponse> {
     const startTime = Date.now();
 
     // Build request with defaults
     const request = this.buildRequest(params);
 
-    // Validate request
-    this.validateRequest(request);
+    // Validate request (same rules as /api/generate)
+    assertValid(validateSeedreamRequest(request));
 
     try {
       // Make API call through Next.js API route to avoid CORS issues
-      const response = await fetch('/api/generate', {
+      const response = await fetchWithSlotRetry('/api/generate', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          apiKey: this.apiKey,
-          ...request,
-        }),
+        body: JSON.stringify(request),
         signal: AbortSignal.timeout(120000), // 2 minute timeout
-      });
+      }, { onWaiting: params.onWaitingForSlot });
 
       if (!response.ok) {
-        const errorData: SeedreamError = await response.json();
-        throw new Error(
-          errorData.error?.message || `HTTP ${response.status}: Generation failed`
-        );
+        const errorData: SeedreamError | null = await response.json().catch(() => null);
+        if (errorData?.error?.fields?.length) {
+          throw new RequestValidationError(errorData.error.fields);
+        }
+        throw studioErrorFromBody(errorData, response.status, `HTTP ${response.status}: Generation failed`);
       }
 
       const result: SeedreamResponse = await response.json();
@@ -84,13 +117,76 @@ export class SeedreamClient {
 
       return result;
     } catch (error) {
-      if (error instanceof Error) {
-        if (error.name === 'AbortError' || error.name === 'TimeoutError') {
-          throw new Error('Generation timed out. Please try again.');
+      if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+        throw new StudioError('timeout', 'Generation timed out. Please try again.');
+      }
+      throw toStudioError(error, 'An unknown error occurred during generation');
+    }
+  }
+
+  /**
+   * Generate image(s) with streaming output
+   * Yields each Ark SSE event as soon as it is relayed by /api/generate:
+   * one partial_succeeded/partial_failed per output slot, then completed
+   * Saves metadata to Supabase once the completed event arrives
+   */
+  async *generateStream(
+    params: Parameters<typeof this.generate>[0]
+  ): AsyncGenerator<SeedreamStreamEvent> {
+    const startTime = Date.now();
+
+    const request = this.buildRequest({ ...params, stream: true });
+    assertValid(validateSeedreamRequest(request));
+
+    // Collected for the metadata row written on completion
+    const received: SeedreamImageSuccess[] = [];
+
+    try {
+      const response = await fetchWithSlotRetry('/api/generate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+        signal: AbortSignal.timeout(600000), // 10 minutes - large 4K batches stream slowly
+      }, { onWaiting: params.onWaitingForSlot });
+
+      if (!response.ok) {
+        const errorData: SeedreamError | null = await response.json().catch(() => null);
+        if (errorData?.error?.fields?.length) {
+          throw new RequestValidationError(errorData.error.fields);
+        }
+        throw studioErrorFromBody(errorData, response.status, `HTTP ${response.status}: Generation failed`);
+      }
+
+      if (!response.body) {
+        throw new StudioError('unknown', 'Streaming is not supported by this browser');
+      }
+
+      for await (const message of readSSE(response.body)) {
+        const event = parseStreamEvent(message.data, response.status);
+
+        if (event.type === 'image_generation.partial_succeeded') {
+          received.push({ b64_json: event.b64_json, url: event.url, size: event.size });
+        }
+
+        if (event.type === 'image_generation.completed' && params.saveToDatabase !== false && received.length > 0) {
+          await this.saveToDatabase(
+            request,
+            { model: event.model, created: event.created, data: received, usage: event.usage },
+            Date.now() - startTime,
+            params.mode,
+            params.model
+          );
         }
-        throw error;
+
+        yield event;
       }
-      throw new Error('An unknown error occurred during generation');
+    } catch (error) {
+      if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+        throw new StudioError('timeout', 'Generation timed out. Please try again.');
+      }
+      throw toStudioError(error, 'An unknown error occurred during generation');
     }
   }
 
@@ -108,6 +204,7 @@ export class SeedreamClient {
     batchMode?: boolean;
     maxImages?: number;
     responseFormat?: ResponseFormat;
+    stream?: boolean;
   }): SeedreamRequest {
     // Format image input based on mode
     let imageInput: string | string[] | undefined;
@@ -125,7 +222,7 @@ export class SeedreamClient {
       size: params.size || defaults.size,
       sequential_image_generation: params.batchMode ? 'auto' : 'disabled',
       response_format: params.responseFormat || defaults.responseFormat,
-      stream: defaults.stream,
+      stream: params.stream ?? defaults.stream,
       watermark: defaults.watermark,
     };
 
@@ -150,94 +247,6 @@ export class SeedreamClient {
     return request;
   }
 
-  /**
-   * Validate request parameters before sending
-   */
-  private validateRequest(request: SeedreamRequest): void {
-    // Determine model from request
-    const model: SeedreamModel = request.model === 'seedream-4-0-250828' ? 'seedream-4-0' : 'seedream-4-5';
-    const constraints = getModelConstraints(model);
-
-    // Validate prompt
-    if (!request.prompt || request.prompt.trim().length === 0) {
-      throw new Error('Prompt is required and cannot be empty');
-    }
-
-    // Validate image count based on model
-    if (request.image) {
-      const images = Array.isArray(request.image) ? request.image : [request.image];
-      if (images.length > constraints.imageUrl.maxCount) {
-        throw new Error(`Maximum ${constraints.imageUrl.maxCount} reference images allowed for ${model}`);
-      }
-      if (images.length < 1) {
-        throw new Error('At least 1 reference image required when using image mode');
-      }
-    }
-
-    // Validate batch parameters
-    if (request.sequential_image_generation === 'auto') {
-      const maxImages = request.sequential_image_generation_options?.max_images;
-      if (!maxImages || maxImages < 1 || maxImages > 15) {
-        throw new Error('max_images must be between 1 and 15 for batch generation');
-      }
-
-      // Validate against mode constraints
-      const images = request.image ? (Array.isArray(request.image) ? request.image : [request.image]) : [];
-      const inputCount = images.length;
-
-      if (inputCount === 1 && maxImages > 14) {
-        throw new Error('With 1 reference image, max_images cannot exceed 14');
-      }
-      if (inputCount > 1 && (inputCount + maxImages) > 15) {
-        throw new Error(`With ${inputCount} reference images, max_images cannot exceed ${15 - inputCount}`);
-      }
-    }
-
-    // Validate size format
-    if (request.size && !this.isValidSize(request.size, model)) {
-      const constraints = getModelConstraints(model);
-      const presets = constraints.size.presets.join(', ');
-      throw new Error(
-        `Invalid size format for ${model}. Use presets (${presets}) or WIDTHxHEIGHT with minimum ${constraints.size.minTotalPixels} pixels`
-      );
-    }
-  }
-
-  /**
-   * Validate size parameter format based on model
-   */
-  private isValidSize(size: string, model: SeedreamModel): boolean {
-    const constraints = getModelConstraints(model);
-
-    // Check if it's a preset
-    if (constraints.size.presets.includes(size as any)) {
-      return true;
-    }
-
-    // Check if it's WIDTHxHEIGHT format
-    const match = size.match(/^(\d+)x(\d+)$/);
-    if (!match) {
-      return false;
-    }
-
-    const width = parseInt(match[1], 10);
-    const height = parseInt(match[2], 10);
-
-    // Validate total pixels
-    const totalPixels = width * height;
-    if (totalPixels < constraints.size.minTotalPixels || totalPixels > constraints.size.maxTotalPixels) {
-      return false;
-    }
-
-    // Validate aspect ratio
-    const aspectRatio = width / height;
-    if (aspectRatio < constraints.size.aspectRatioRange.min || aspectRatio > constraints.size.aspectRatioRange.max) {
-      return false;
-    }
-
-    return true;
-  }
-
   /**
    * Save generation metadata to Supabase (images NOT stored)
    * Stores only metadata - images are displayed immediately from API response
@@ -267,30 +276,22 @@ export class SeedreamClient {
       }
 
       // Insert generation record with metadata only (NO IMAGES)
-      // Cast to any to bypass Supabase type inference (migration will update schema)
-      const { error } = await supabase.from('generations').insert([
-        {
-          prompt: request.prompt,
-          mode,
-          reference_image_urls: images.length > 0 ? images : null,
-          size: request.size,
-          quality: model === 'seedream-4-0'
-            ? (request.quality as Quality)
-            : (request.optimize_prompt_options?.mode as Quality),
-          batch_mode: request.sequential_image_generation === 'auto',
-          max_images: request.sequential_image_generation_options?.max_images || null,
-          images_generated: response.data.length, // Store count only
-          generation_time_ms: generationTime,
-          model_version: response.model,
-        } as any,
-      ]);
-
-      if (error) {
-        console.error('Failed to save generation to database:', error);
-        // Don't throw - generation succeeded, DB save is secondary
-      }
+      await insertGeneration({
+        prompt: request.prompt,
+        mode,
+        reference_image_urls: images.length > 0 ? images : null,
+        size: request.size ?? getModelDefaults(model).size,
+        quality: model === 'seedream-4-0'
+          ? (request.quality as Quality)
+          : (request.optimize_prompt_options?.mode as Quality),
+        batch_mode: request.sequential_image_generation === 'auto',
+        max_images: request.sequential_image_generation_options?.max_images || null,
+        images_generated: response.data.filter(image => !isSeedreamImageError(image)).length, // Successful images only
+        generation_time_ms: generationTime,
+        model_version: response.model, // Versioned ID, e.g. seedream-4-5-251128
+      });
     } catch (error) {
-      console.error('Error saving to database:', error);
+      console.error('Failed to save generation to database:', error);
       // Don't throw - generation succeeded, DB save is secondary
     }
   }
@@ -300,17 +301,12 @@ export class SeedreamClient {
 
 /**
  * Singleton instance management
- * Reuses client when API key hasn't changed
  */
 let cachedClient: SeedreamClient | null = null;
-let cachedApiKey: string | null = null;
 
-export function getSeedreamClient(apiKey: string): SeedreamClient {
-  if (cachedClient && cachedApiKey === apiKey) {
-    return cachedClient;
+export function getSeedreamClient(): SeedreamClient {
+  if (!cachedClient) {
+    cachedClient = new SeedreamClient();
   }
-
-  cachedClient = new SeedreamClient(apiKey);
-  cachedApiKey = apiKey;
   return cachedClient;
 }
@@ -0,0 +1,94 @@
+/**
+ * Client-side retry for rate-limited proxy requests
+ *
+ * The generation routes answer 429 + Retry-After when the per-key limit or
+ * concurrency queue is full. fetchWithSlotRetry waits the advertised time and
+ * retries, reporting the wait so the UI can show a "waiting for slot" state.
+ */
+
+export interface SlotWait {
+  retryAfterSeconds: number;
+  retryAt: number; // ms timestamp of the next attempt
+  attempt: number; // 1-based retry number
+  maxAttempts: number;
+  message?: string; // Server explanation (rate vs concurrency)
+}
+
+const DEFAULT_MAX_ATTEMPTS = 6;
+const DEFAULT_RETRY_AFTER_SECONDS = 5;
+const MAX_RETRY_AFTER_SECONDS = 60;
+
+/**
+ * Parse Retry-After (delta seconds or HTTP date)
+ */
+function parseRetryAfter(header: string | null): number {
+  if (!header) return DEFAULT_RETRY_AFTER_SECONDS;
+
+  const seconds = /^\d+$/.test(header.trim())
+    ? Number(header)
+    : Math.ceil((Date.parse(header) - Date.now()) / 1000);
+
+  if (!Number.isFinite(seconds) || seconds < 0) return DEFAULT_RETRY_AFTER_SECONDS;
+  return Math.min(seconds, MAX_RETRY_AFTER_SECONDS);
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * fetch() that retries 429 responses after Retry-After
+ * Returns the last 429 response once maxAttempts retries are used up,
+ * so callers surface the server's error message as usual
+ */
+export async function fetchWithSlotRetry(
+  input: string,
+  init: RequestInit = {},
+  options: {
+    onWaiting?: (wait: SlotWait | null) => void;
+    maxAttempts?: number;
+    waitSignal?: AbortSignal; // Aborts only the wait between attempts (defaults to init.signal)
+  } = {}
+): Promise<Response> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+  for (let attempt = 1; ; attempt++) {
+    const response = await fetch(input, init);
+
+    if (response.status !== 429 || attempt > maxAttempts) {
+      options.onWaiting?.(null);
+      return response;
+    }
+
+    const retryAfterSeconds = parseRetryAfter(response.headers.get('Retry-After'));
+    const body = await response.json().catch(() => null);
+    options.onWaiting?.({
+      retryAfterSeconds,
+      retryAt: Date.now() + retryAfterSeconds * 1000,
+      attempt,
+      maxAttempts,
+      message: body?.error?.message,
+    });
+
+    try {
+      await sleep(retryAfterSeconds * 1000, options.waitSignal ?? init.signal);
+    } catch (error) {
+      options.onWaiting?.(null);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Minimal Server-Sent Events reader for fetch() response bodies
+ *
+ * EventSource only supports GET, so streamed POST responses
+ * (e.g. /api/generate with stream: true) are parsed here instead.
+ */
+
+export interface SSEMessage {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Parse a single blank-line delimited SSE block
+ * Returns null for comment-only or empty blocks
+ */
+function parseBlock(block: string): SSEMessage | null {
+  let event: string | undefined;
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) continue;
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  }
+
+  if (data.length === 0) return null;
+  return { event, data: data.join('\n') };
+}
+
+/**
+ * Read SSE messages from a response body as they arrive
+ * Stops at the `[DONE]` sentinel used by Ark streaming endpoints
+ */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Emit every complete block currently in the buffer
+      let match = buffer.match(/\r?\n\r?\n/);
+      while (match && match.index !== undefined) {
+        const message = parseBlock(buffer.slice(0, match.index));
+        buffer = buffer.slice(match.index + match[0].length);
+
+        if (message) {
+          if (message.data === '[DONE]') return;
+          yield message;
+        }
+        match = buffer.match(/\r?\n\r?\n/);
+      }
+
+      if (done) break;
+    }
+
+    // Trailing block without a final blank line
+    const message = parseBlock(buffer);
+    if (message && message.data !== '[DONE]') {
+      yield message;
+    }
+  } finally {
+    // Cancel so an early `break` by the consumer also stops the upstream stream
+    await reader.cancel().catch(() => undefined);
+  }
+}
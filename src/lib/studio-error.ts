@@ -0,0 +1,132 @@
+/**
+ * Typed errors for the generation clients and hooks
+ *
+ * Ark and the proxy routes answer { error: { code, message, type } }.
+ * StudioError keeps that code and maps it onto a small set of categories,
+ * so the UI can choose a message and recovery action without parsing text.
+ */
+
+export type StudioErrorCode =
+  | 'invalid_api_key' // Missing session or key rejected by Ark
+  | 'model_unavailable' // Key has no access to the selected model
+  | 'content_filtered' // Input or output blocked by safety filters
+  | 'rate_limited' // Proxy rate limit or Ark throttling
+  | 'quota_exceeded' // Account quota, spend limit or overdue balance
+  | 'invalid_request' // Rejected parameters
+  | 'not_found' // Task or resource no longer exists
+  | 'server_error' // Route or Ark failure
+  | 'timeout'
+  | 'network'
+  | 'task_failed' // Video task ended in failed
+  | 'task_expired' // Video task passed its expiry before finishing
+  | 'cancelled'
+  | 'unknown';
+
+interface StudioErrorDetails {
+  upstreamCode?: string; // Raw error.code from Ark or the route
+  type?: string; // Raw error.type
+  status?: number; // HTTP status of the failed response
+}
+
+/**
+ * Error thrown by SeedreamClient and SeedanceClient
+ */
+export class StudioError extends Error {
+  code: StudioErrorCode;
+  upstreamCode?: string;
+  type?: string;
+  status?: number;
+
+  constructor(code: StudioErrorCode, message: string, details: StudioErrorDetails = {}) {
+    super(message);
+    this.name = 'StudioError';
+    this.code = code;
+    this.upstreamCode = details.upstreamCode;
+    this.type = details.type;
+    this.status = details.status;
+  }
+}
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+// Ark codes (PascalCase) and the routes' own codes (snake_case)
+const UPSTREAM_CODES: [RegExp, StudioErrorCode][] = [
+  [/^(invalid_api_key|AuthenticationError|InvalidApiKey|Unauthorized)/i, 'invalid_api_key'],
+  [/^(AccessDenied|ModelNotOpen|InvalidEndpointOrModel|ModelNotFound)/i, 'model_unavailable'],
+  [/SensitiveContentDetected|content_filter/i, 'content_filtered'],
+  [/^(rate_limited|RateLimitExceeded|RequestBurstTooFast)/i, 'rate_limited'],
+  [/^(QuotaExceeded|SetLimitExceeded|AccountOverdue|insufficient_quota)/i, 'quota_exceeded'],
+  [/^(invalid_request|invalid_token|InvalidParameter|MissingParameter|InvalidAction)/i, 'invalid_request'],
+  [/^(not_found|NotFound|ResourceNotFound)/i, 'not_found'],
+  [/^(internal_error|api_error|InternalServiceError|ServerOverloaded|ServiceUnavailable)/i, 'server_error'],
+];
+
+function codeForStatus(status: number | undefined): StudioErrorCode | null {
+  if (status === undefined) return null;
+  if (status === 401) return 'invalid_api_key';
+  if (status === 403) return 'model_unavailable';
+  if (status === 404) return 'not_found';
+  if (status === 408) return 'timeout';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server_error';
+  if (status >= 400) return 'invalid_request';
+  return null;
+}
+
+/**
+ * Map a raw error code (and HTTP status) onto a StudioErrorCode
+ */
+export function classifyErrorCode(
+  upstreamCode: string | undefined,
+  status?: number,
+  fallback: StudioErrorCode = 'unknown'
+): StudioErrorCode {
+  const match = upstreamCode && UPSTREAM_CODES.find(([pattern]) => pattern.test(upstreamCode));
+  return match ? match[1] : codeForStatus(status) ?? fallback;
+}
+
+/**
+ * Build a StudioError from a failed route response body
+ */
+export function studioErrorFromBody(
+  body: { error?: { code?: string; message?: string; type?: string } } | null | undefined,
+  status: number,
+  fallbackMessage: string
+): StudioError {
+  const error = body?.error;
+  return new StudioError(
+    classifyErrorCode(error?.code, status),
+    error?.message || fallbackMessage,
+    { upstreamCode: error?.code, type: error?.type, status }
+  );
+}
+
+/**
+ * Read a failed response and convert it (non-JSON bodies fall back to the status)
+ */
+export async function studioErrorFromResponse(response: Response, fallbackMessage: string): Promise<StudioError> {
+  const body = await response.json().catch(() => null);
+  return studioErrorFromBody(body, response.status, fallbackMessage);
+}
+
+/**
+ * Normalise anything thrown during a request into a StudioError
+ */
+export function toStudioError(error: unknown, fallbackMessage = 'Something went wrong'): StudioError {
+  if (error instanceof StudioError) {
+    return error;
+  }
+  if (error instanceof Error) {
+    if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+      return new StudioError('timeout', 'The request timed out.');
+    }
+    // fetch() rejects with TypeError when the network is unreachable
+    if (error.name === 'TypeError') {
+      return new StudioError('network', 'Network error. Please check your connection.');
+    }
+    return new StudioError('unknown', error.message || fallbackMessage);
+  }
+  return new StudioError('unknown', fallbackMessage);
+}
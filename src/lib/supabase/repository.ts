@@ -0,0 +1,159 @@
+/**
+ * Typed data access for the generations, video_generations and presets tables
+ *
+ * Rows are typed from the generated schema in ./types, so a column the
+ * database does not have fails the type check instead of the insert.
+ * Every function throws the Supabase error on failure.
+ */
+
+import { supabase } from './client';
+import type { TablesInsert, TablesUpdate } from './types';
+import type { Generation, Preset, VideoGeneration } from '@/types/database';
+
+// ============================================================================
+// Generations
+// ============================================================================
+
+export type GenerationFilters = Partial<Pick<Generation, 'mode' | 'model_version' | 'batch_mode' | 'size'>>;
+
+export async function insertGeneration(row: TablesInsert<'generations'>): Promise<void> {
+  const { error } = await supabase.from('generations').insert(row);
+  if (error) throw error;
+}
+
+/**
+ * One page of rows matching the filters, newest first, with the total match count
+ */
+export async function listGenerations(
+  from: number,
+  count: number,
+  filters: GenerationFilters = {}
+): Promise<{ rows: Generation[]; total: number }> {
+  let query = supabase
+    .from('generations')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(from, from + count - 1);
+
+  if (filters.mode) query = query.eq('mode', filters.mode);
+  if (filters.model_version) query = query.eq('model_version', filters.model_version);
+  if (filters.batch_mode !== undefined) query = query.eq('batch_mode', filters.batch_mode);
+  if (filters.size) query = query.eq('size', filters.size);
+
+  const { data, count: total, error } = await query;
+  if (error) throw error;
+  return { rows: data ?? [], total: total ?? 0 };
+}
+
+/**
+ * Model versions and sizes of the most recent rows (for filter menus)
+ */
+export async function listGenerationSettings(
+  limit: number
+): Promise<Pick<Generation, 'model_version' | 'size'>[]> {
+  const { data, error } = await supabase
+    .from('generations')
+    .select('model_version, size')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// ============================================================================
+// Video Generations
+// ============================================================================
+
+export async function insertVideoGeneration(row: TablesInsert<'video_generations'>): Promise<void> {
+  const { error } = await supabase.from('video_generations').insert(row);
+  if (error) throw error;
+}
+
+/**
+ * Most recent videos, newest first
+ */
+export async function listVideoGenerations(limit: number): Promise<VideoGeneration[]> {
+  const { data, error } = await supabase
+    .from('video_generations')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function getVideoGeneration(taskId: string): Promise<VideoGeneration> {
+  const { data, error } = await supabase
+    .from('video_generations')
+    .select('*')
+    .eq('task_id', taskId)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * A video and every edit made from it, oldest first
+ */
+export async function listVideoIterationChain(rootTaskId: string): Promise<VideoGeneration[]> {
+  const { data: chain, error: chainError } = await supabase
+    .rpc('get_video_iteration_chain', { root_task_id: rootTaskId });
+
+  if (chainError) throw chainError;
+
+  const taskIds = (chain ?? []).map(row => row.task_id);
+  const { data, error } = await supabase
+    .from('video_generations')
+    .select('*')
+    .in('task_id', taskIds)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// ============================================================================
+// Presets
+// ============================================================================
+
+/**
+ * All presets, newest first
+ */
+export async function listPresets(): Promise<Preset[]> {
+  const { data, error } = await supabase
+    .from('presets')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function getPreset(id: string): Promise<Preset> {
+  const { data, error } = await supabase
+    .from('presets')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function insertPreset(row: TablesInsert<'presets'>): Promise<void> {
+  const { error } = await supabase.from('presets').insert(row);
+  if (error) throw error;
+}
+
+export async function updatePreset(id: string, changes: TablesUpdate<'presets'>): Promise<void> {
+  const { error } = await supabase.from('presets').update(changes).eq('id', id);
+  if (error) throw error;
+}
+
+export async function deletePreset(id: string): Promise<void> {
+  const { error } = await supabase.from('presets').delete().eq('id', id);
+  if (error) throw error;
+}
@@ -23,7 +23,7 @@ export type Database = {
           images_generated: number
           max_images: number | null
           mode: string
-          model_version: string | null
+          model_version: string
           prompt: string
           quality: string
           reference_image_urls: string[] | null
@@ -37,7 +37,7 @@ export type Database = {
           images_generated?: number
           max_images?: number | null
           mode: string
-          model_version?: string | null
+          model_version?: string
           prompt: string
           quality: string
           reference_image_urls?: string[] | null
@@ -51,7 +51,7 @@ export type Database = {
           images_generated?: number
           max_images?: number | null
           mode?: string
-          model_version?: string | null
+          model_version?: string
           prompt?: string
           quality?: string
           reference_image_urls?: string[] | null
@@ -61,39 +61,60 @@ export type Database = {
       }
       presets: {
         Row: {
+          batch_mode: boolean
           created_at: string | null
           description: string | null
+          duration: number | null
+          generate_audio: boolean | null
           id: string
+          max_images: number | null
           mode: string
+          model: string | null
           name: string
           prompt: string
           quality: string
+          ratio: string | null
           reference_image_urls: string[] | null
-          seed: number
+          resolution: string | null
+          service_tier: string | null
           size: string
         }
         Insert: {
+          batch_mode?: boolean
           created_at?: string | null
           description?: string | null
+          duration?: number | null
+          generate_audio?: boolean | null
           id?: string
+          max_images?: number | null
           mode: string
+          model?: string | null
           name: string
           prompt: string
           quality: string
+          ratio?: string | null
           reference_image_urls?: string[] | null
-          seed: number
+          resolution?: string | null
+          service_tier?: string | null
           size: string
         }
         Update: {
+          batch_mode?: boolean
           created_at?: string | null
           description?: string | null
+          duration?: number | null
+          generate_audio?: boolean | null
           id?: string
+          max_images?: number | null
           mode?: string
+          model?: string | null
           name?: string
           prompt?: string
           quality?: string
+          ratio?: string | null
           reference_image_urls?: string[] | null
-          seed?: number
+          resolution?: string | null
+          service_tier?: string | null
           size?: string
         }
         Relationships: []
@@ -203,6 +224,12 @@ export type Database = {
   }
 }
 
+type PublicSchema = Database['public']
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row']
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert']
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update']
+
 // Custom type aliases for our app
 // Modes:
 // - 'text': Text to Image (no reference images)
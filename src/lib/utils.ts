@@ -129,6 +129,15 @@ export function formatGenerationTime(ms: number): string {
   return `${Math.floor(ms / 60000)}m ${Math.floor((ms % 60000) / 1000)}s`;
 }
 
+/**
+ * Format time left until a deadline (e.g. a task expiry)
+ */
+export function formatTimeLeft(ms: number): string {
+  const minutes = Math.max(0, Math.ceil(ms / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
 /**
  * Estimate base64 image size in bytes
  * Useful for displaying image size to user
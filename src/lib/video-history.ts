@@ -0,0 +1,36 @@
+/**
+ * Video history setting and link expiry
+ *
+ * Saving video metadata to the Supabase `video_generations` table is opt-in.
+ * The choice lives in localStorage so the generation runner can check it
+ * when each task finishes. Ark video links stop working after 24 hours, so
+ * saved rows outlive their URLs.
+ */
+
+const VIDEO_HISTORY_STORAGE_KEY = 'seedream:saveVideoHistory';
+
+// Ark keeps generated videos and last frames for 24 hours
+export const VIDEO_URL_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether finished videos should be saved to the history table (off by default)
+ */
+export function isVideoHistoryEnabled(): boolean {
+  if (typeof window === 'undefined') return false;
+  return localStorage.getItem(VIDEO_HISTORY_STORAGE_KEY) === 'true';
+}
+
+export function setVideoHistoryEnabled(enabled: boolean): void {
+  if (enabled) {
+    localStorage.setItem(VIDEO_HISTORY_STORAGE_KEY, 'true');
+  } else {
+    localStorage.removeItem(VIDEO_HISTORY_STORAGE_KEY);
+  }
+}
+
+/**
+ * Time left before a saved video's links expire (0 once expired)
+ */
+export function videoUrlTimeLeft(createdAt: Date, now = Date.now()): number {
+  return Math.max(0, createdAt.getTime() + VIDEO_URL_TTL_MS - now);
+}
@@ -0,0 +1,150 @@
+/**
+ * Server-side video task store (Seedance callbacks)
+ *
+ * Ark POSTs task status changes to callback_url (/api/video-callback).
+ * Updates are kept here and pushed to browsers subscribed over SSE,
+ * so flex-tier jobs that run for hours don't need constant polling.
+ *
+ * SERVER ONLY. State lives in process memory, which is fine for a single
+ * Node instance (pnpm dev / pnpm start). Serverless or multi-instance
+ * deployments need a shared store; clients fall back to polling there.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { VideoTaskResponse } from '@/types/video-api';
+import { isTerminalStatus } from '@/types/video-api';
+
+type TaskListener = (task: VideoTaskResponse) => void;
+
+interface StoredTask {
+  task: VideoTaskResponse;
+  receivedAt: number; // ms
+}
+
+interface TaskStoreState {
+  tasks: Map<string, StoredTask>;
+  listeners: Map<string, Set<TaskListener>>;
+}
+
+// Tasks can't outlive execution_expires_after (max 72 hours)
+const TASK_TTL_MS = 72 * 60 * 60 * 1000;
+
+// Oldest updates are dropped beyond this; subscribers fall back to their safety poll
+const MAX_STORED_TASKS = 1000;
+
+// Kept on globalThis so dev-server module reloads don't drop state
+const globalStore = globalThis as typeof globalThis & { __videoTaskStore?: TaskStoreState };
+const state: TaskStoreState = globalStore.__videoTaskStore ??= {
+  tasks: new Map(),
+  listeners: new Map(),
+};
+
+/**
+ * Record a task update and notify subscribers
+ * Out-of-order callbacks (older updated_at) are ignored
+ */
+export function recordTaskUpdate(task: VideoTaskResponse): boolean {
+  pruneExpired();
+
+  const existing = state.tasks.get(task.id);
+  if (existing && existing.task.updated_at > task.updated_at) {
+    return false;
+  }
+
+  // Never move a finished task back to queued/running
+  if (existing && isTerminalStatus(existing.task.status) && !isTerminalStatus(task.status)) {
+    return false;
+  }
+
+  // Re-insert so the Map stays ordered oldest update first
+  state.tasks.delete(task.id);
+  state.tasks.set(task.id, { task, receivedAt: Date.now() });
+  pruneOverflow();
+  state.listeners.get(task.id)?.forEach(listener => listener(task));
+  return true;
+}
+
+/**
+ * Get the latest known state of a task (null if no callback received yet)
+ */
+export function getStoredTask(taskId: string): VideoTaskResponse | null {
+  return state.tasks.get(taskId)?.task ?? null;
+}
+
+/**
+ * Subscribe to updates for a task
+ * Returns an unsubscribe function
+ */
+export function subscribeToTask(taskId: string, listener: TaskListener): () => void {
+  let listeners = state.listeners.get(taskId);
+  if (!listeners) {
+    listeners = new Set();
+    state.listeners.set(taskId, listeners);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      state.listeners.delete(taskId);
+    }
+  };
+}
+
+/**
+ * Drop tasks older than the maximum task lifetime
+ */
+function pruneExpired(): void {
+  const cutoff = Date.now() - TASK_TTL_MS;
+  for (const [taskId, stored] of state.tasks) {
+    if (stored.receivedAt < cutoff) {
+      state.tasks.delete(taskId);
+    }
+  }
+}
+
+/**
+ * Drop the oldest updates once the store is full
+ */
+function pruneOverflow(): void {
+  for (const taskId of state.tasks.keys()) {
+    if (state.tasks.size <= MAX_STORED_TASKS) return;
+    state.tasks.delete(taskId);
+  }
+}
+
+// ============================================================================
+// Callback Configuration
+// ============================================================================
+
+export interface CallbackConfig {
+  url: string; // Public URL of /api/video-callback
+  secret: string; // Shared token Ark sends back in the callback URL
+}
+
+/**
+ * Callback settings, or null when callbacks are off
+ * SEEDANCE_CALLBACK_URL turns callbacks on; SEEDANCE_CALLBACK_SECRET is
+ * required with it, otherwise anyone could post task updates.
+ */
+export function getCallbackConfig(): CallbackConfig | null {
+  const url = process.env.SEEDANCE_CALLBACK_URL;
+  const secret = process.env.SEEDANCE_CALLBACK_SECRET;
+  if (!url) return null;
+
+  if (!secret) {
+    console.warn('SEEDANCE_CALLBACK_URL is set without SEEDANCE_CALLBACK_SECRET - video callbacks are disabled');
+    return null;
+  }
+  return { url, secret };
+}
+
+/**
+ * Constant-time check of a callback token against the configured secret
+ */
+export function isValidCallbackToken(token: string | null, secret: string): boolean {
+  if (!token) return false;
+  const given = Buffer.from(token);
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
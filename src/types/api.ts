@@ -81,7 +81,7 @@ export interface SeedreamRequest {
     max_images: number; // Range: 1-15, adjusted based on input images
   };
   response_format?: ResponseFormat; // Default: "b64_json" for immediate display
-  stream: false; // Always false
+  stream: boolean; // true = SSE events per image (relayed by /api/generate)
   watermark: false; // Always false
 }
 
@@ -101,15 +101,86 @@ export interface SeedreamResponse {
 }
 
 /**
- * Individual image data in response
+ * Successfully generated image in a response
  * Contains either b64_json or url depending on response_format
  */
-export interface SeedreamImageData {
+export interface SeedreamImageSuccess {
   b64_json?: string; // Base64 image data (if response_format: "b64_json")
   url?: string; // Download URL (if response_format: "url", valid for 24 hours)
   size: string; // e.g., "1760x2368"
 }
 
+/**
+ * Image that failed inside an otherwise successful batch
+ * (e.g. a content filter rejection); other images are unaffected
+ */
+export interface SeedreamImageError {
+  error: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Individual entry in a response's data array, in output slot order
+ */
+export type SeedreamImageData = SeedreamImageSuccess | SeedreamImageError;
+
+/**
+ * Type guard for failed entries in a response's data array
+ */
+export function isSeedreamImageError(data: SeedreamImageData): data is SeedreamImageError {
+  return 'error' in data && data.error !== undefined;
+}
+
+/**
+ * Streaming response events (stream: true)
+ * Ark emits one partial event per output image, then a single completed event,
+ * followed by a literal `data: [DONE]` terminator
+ */
+export interface SeedreamStreamPartialSucceeded {
+  type: 'image_generation.partial_succeeded';
+  model: string;
+  created: number;
+  image_index: number; // Output slot this image belongs to
+  b64_json?: string;
+  url?: string;
+  size: string;
+}
+
+export interface SeedreamStreamPartialFailed {
+  type: 'image_generation.partial_failed';
+  model: string;
+  created: number;
+  image_index: number;
+  error: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface SeedreamStreamCompleted {
+  type: 'image_generation.completed';
+  model: string;
+  created: number;
+  usage: SeedreamResponse['usage'];
+}
+
+export type SeedreamStreamEvent =
+  | SeedreamStreamPartialSucceeded
+  | SeedreamStreamPartialFailed
+  | SeedreamStreamCompleted;
+
+/**
+ * Output slot that failed to generate (e.g. content filter rejection)
+ * Other slots in the same batch are unaffected
+ */
+export interface FailedImageSlot {
+  index: number;
+  code: string;
+  message: string;
+}
+
 /**
  * Client-side generation result with image data
  * Used for displaying and managing generated images in UI
@@ -120,11 +191,15 @@ export interface GenerationResult {
   images: Array<{ // Changed from single imageBase64 to array
     base64: string;
     size: string; // e.g., "1760x2368"
+    index?: number; // Output slot (streamed images can arrive out of order)
   }>;
+  failedImages?: FailedImageSlot[]; // Slots that were rejected or errored
+  expectedImages?: number; // Total slots while streaming; undefined once complete
   prompt: string;
   mode: GenerationMode;
   model: SeedreamModel; // Track which model was used
   referenceImageUrls?: string[]; // Base64 strings or URLs used as references
+  parentId?: string; // Result whose output was used as a reference (lineage)
   parameters: {
     size: string;
     quality: Quality; // Maps to optimize_prompt_options.mode or quality parameter
@@ -132,9 +207,37 @@ export interface GenerationResult {
     maxImages?: number; // Only when batchMode is true
   };
   generationTimeMs: number;
+  usage?: SeedreamResponse['usage']; // Set once the generation completes
   timestamp: Date;
 }
 
+/**
+ * Request fields that validation can flag
+ * Named after the form controls, not the API parameters they map to
+ */
+export type RequestField =
+  | 'model'
+  | 'prompt'
+  | 'images'
+  | 'size'
+  | 'quality'
+  | 'maxImages'
+  | 'responseFormat'
+  | 'duration'
+  | 'resolution'
+  | 'ratio'
+  | 'serviceTier'
+  | 'expiresAfter'
+  | 'seed';
+
+/**
+ * Per-field validation error (shared by the clients and the proxy routes)
+ */
+export interface RequestFieldError {
+  field: RequestField;
+  message: string;
+}
+
 /**
  * API error response
  */
@@ -143,5 +246,16 @@ export interface SeedreamError {
     message: string;
     type: string;
     code: string;
+    fields?: RequestFieldError[]; // Set by the proxy routes for invalid requests
   };
 }
+
+/**
+ * API key session status (GET/POST /api/session)
+ * Only a masked hint of the key ever reaches the browser
+ */
+export interface SessionStatus {
+  authenticated: boolean;
+  keyHint: string | null;
+  mock: boolean; // Mock backend needs no key
+}
@@ -0,0 +1,49 @@
+/**
+ * Local gallery types
+ *
+ * Finished images and videos are copied into IndexedDB so they survive
+ * page reloads. Nothing in the gallery is ever sent to a server.
+ */
+
+import type { GenerationMode } from './api';
+import type { VideoMode } from './video-api';
+
+export type GalleryItemKind = 'image' | 'video';
+
+export interface GalleryItem {
+  id: string; // image: "<result id>:<slot>", video: "video:<task id>"
+  kind: GalleryItemKind;
+  blob?: Blob; // Missing when a video could not be downloaded
+  remoteUrl?: string; // Video download URL (expires 24 hours after generation)
+  prompt: string;
+  model: string; // Seedream model or Seedance model ID
+  mode: GenerationMode | VideoMode;
+  createdAt: number; // ms
+  size?: string; // Image pixels (e.g. "2048x2048") or video resolution and ratio
+  duration?: number; // Video seconds
+  seed?: number; // Video seed
+  bytes: number; // Blob size (0 without a blob)
+}
+
+/**
+ * Stored item with an object URL for display
+ */
+export interface GalleryEntry extends GalleryItem {
+  url: string;
+}
+
+export type GalleryDateRange = 'all' | 'today' | 'week' | 'month';
+
+export interface GalleryFilters {
+  query: string; // Prompt search
+  kind: GalleryItemKind | 'all';
+  model: string; // 'all' or a model
+  mode: string; // 'all' or a mode
+  range: GalleryDateRange;
+}
+
+export interface GalleryStorage {
+  galleryBytes: number; // Sum of stored blobs
+  usage?: number; // Everything this site stores (navigator.storage.estimate)
+  quota?: number;
+}
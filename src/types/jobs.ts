@@ -0,0 +1,130 @@
+/**
+ * Generation job types
+ *
+ * A job is one image or video submission in the job queue. Jobs run in the
+ * background with limited concurrency, so the form stays usable while
+ * earlier submissions are still generating.
+ */
+
+import type { GenerationMode, GenerationResult, Quality, SeedreamModel } from './api';
+import type {
+  VideoMode,
+  VideoDuration,
+  VideoResolution,
+  VideoRatio,
+  VideoServiceTier,
+  VideoTaskStatus,
+  VideoGenerationResult,
+  VideoImageInput,
+} from './video-api';
+import type { SlotWait } from '@/lib/slot-retry';
+import type { StudioError } from '@/lib/studio-error';
+
+// ============================================================================
+// Generation Parameters
+// ============================================================================
+
+export interface ImageGenerationParams {
+  prompt: string;
+  mode: GenerationMode;
+  model: SeedreamModel;
+  images?: string[]; // Reference images
+  size?: string;
+  quality?: Quality;
+  batchMode?: boolean;
+  maxImages?: number;
+  stream?: boolean; // Fill output slots progressively as images arrive
+  parentId?: string; // Result whose output is one of the references
+}
+
+export interface VideoGenerationParams {
+  prompt: string;
+  mode: VideoMode;
+  images?: VideoImageInput[];
+  duration?: VideoDuration;
+  resolution?: VideoResolution;
+  ratio?: VideoRatio;
+  generateAudio?: boolean;
+  serviceTier?: VideoServiceTier;
+  returnLastFrame?: boolean;
+  cameraFixed?: boolean; // Keep the camera still (--cf)
+  expiresAfter?: number; // Seconds the task may wait before it expires (default 48 hours)
+  modelId?: string; // Optional custom model ID (e.g., 'seedance-1-5-pro-251215')
+  seed?: number; // Locked seed; omitted for a random one
+  parentTaskId?: string | null; // For editing iterations
+}
+
+// ============================================================================
+// Jobs
+// ============================================================================
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+interface JobBase {
+  id: string;
+  status: JobStatus;
+  createdAt: number; // ms timestamps
+  startedAt?: number;
+  finishedAt?: number;
+  error?: StudioError;
+  waitingForSlot?: SlotWait | null; // Rate limited, retrying
+}
+
+export interface ImageJob extends JobBase {
+  kind: 'image';
+  params: ImageGenerationParams;
+  result?: GenerationResult; // Partial while streaming
+  retryingSlots: number[];
+  group?: JobGroupRef; // Set for jobs submitted together as a grid
+}
+
+export interface VideoJob extends JobBase {
+  kind: 'video';
+  params: VideoGenerationParams;
+  result?: VideoGenerationResult;
+  taskId?: string; // Set once the Seedance task exists
+  taskStatus?: VideoTaskStatus;
+  expiresAt?: number; // ms; the server expires the task if it hasn't finished by then
+  resumed?: boolean; // Picked up again from IndexedDB after a page reload
+  watching?: boolean; // Flex task submitted and only being watched - no longer holds a queue slot
+  progress: number; // 0-100
+}
+
+export type GenerationJob = ImageJob | VideoJob;
+
+// ============================================================================
+// Job Groups
+// ============================================================================
+
+/**
+ * One axis of a group's grid (e.g. a prompt token and its values)
+ */
+export interface JobGroupDimension {
+  label: string;
+  values: string[];
+}
+
+/**
+ * Image jobs submitted together and shown as a labelled grid
+ * matrix: one job per combination of prompt token values
+ * sweep: the same prompt across combinations of model, quality and size
+ */
+export interface JobGroup {
+  id: string;
+  kind: 'matrix' | 'sweep';
+  label: string;
+  dimensions: JobGroupDimension[];
+  createdAt: number;
+}
+
+export interface JobGroupRef {
+  id: string;
+  coordinates: number[]; // Value index per group dimension
+}
+
+/**
+ * Finished jobs keep their result (or error) until removed
+ */
+export function isJobFinished(job: GenerationJob): boolean {
+  return job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled';
+}
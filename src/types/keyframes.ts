@@ -0,0 +1,35 @@
+/**
+ * Keyframe pipeline types
+ *
+ * A pipeline generates a first and a last keyframe with Seedream, then
+ * submits a Seedance image-to-video-frames task built from the two images.
+ */
+
+import type { ImageGenerationParams, VideoGenerationParams } from './jobs';
+
+export type KeyframeRole = 'first' | 'last';
+
+/**
+ * Video settings for the second stage (prompt, mode and images are filled in by the pipeline)
+ */
+export type KeyframeVideoSettings = Omit<VideoGenerationParams, 'prompt' | 'mode' | 'images' | 'parentTaskId'>;
+
+export interface KeyframePipeline {
+  id: string;
+  keyframeParams: Record<KeyframeRole, ImageGenerationParams>;
+  videoPrompt: string;
+  videoSettings: KeyframeVideoSettings;
+  keyframeJobIds: Record<KeyframeRole, string | null>; // Current job per keyframe
+  videoJobId: string | null; // Null until both keyframes succeed
+  videoError: string | null; // Why the video could not be queued from the keyframes
+  createdAt: number;
+}
+
+export type KeyframeStageStatus =
+  | 'waiting' // Video waiting for the keyframes
+  | 'blocked' // A keyframe failed, was cancelled or returned no image
+  | 'queued'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled';
@@ -0,0 +1,52 @@
+/**
+ * Storyboard types
+ *
+ * A storyboard is an ordered list of shots rendered as separate Seedance
+ * tasks. With frame chaining on, each shot starts from the previous shot's
+ * returned last frame, so the shots run one after another.
+ */
+
+import type { VideoDuration, VideoRatio, VideoResolution, VideoServiceTier } from './video-api';
+
+export interface StoryboardShot {
+  id: string;
+  prompt: string;
+  duration: VideoDuration;
+  ratio: VideoRatio;
+  firstFrame?: string; // Data URI; replaced by the previous shot's last frame when chaining
+  lastFrame?: string; // Data URI
+}
+
+/**
+ * Settings shared by every shot of a run (taken from the video form)
+ */
+export interface StoryboardSettings {
+  resolution: VideoResolution;
+  generateAudio: boolean;
+  serviceTier: VideoServiceTier;
+  expiresAfter?: number; // Flex task expiry in seconds
+  modelId?: string;
+}
+
+/**
+ * One submitted storyboard
+ * Shots are snapshotted at submission so editing the draft does not change the run
+ */
+export interface StoryboardRun {
+  id: string;
+  shots: StoryboardShot[];
+  chainFrames: boolean;
+  settings: StoryboardSettings;
+  shotJobIds: (string | null)[]; // Current job per shot; null until the shot is queued
+  shotErrors: (string | null)[]; // Why a shot could not be queued (failed validation)
+  createdAt: number;
+}
+
+export type StoryboardShotStatus =
+  | 'waiting' // Chained shot waiting for the previous shot's last frame
+  | 'blocked' // Previous shot failed or returned no last frame
+  | 'queued'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled';
@@ -7,6 +7,8 @@
  * 3. Get video URL → Download URL valid for 24 hours
  */
 
+import type { RequestFieldError } from './api';
+
 // ============================================================================
 // Core Video Types
 // ============================================================================
@@ -31,7 +33,7 @@ export type VideoServiceTier = 'default' | 'flex'; // Online vs offline mode
 export type VideoImageRole = 'first_frame' | 'last_frame' | 'reference_image';
 
 // Task states during video generation
-export type VideoTaskStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'expired';
+export type VideoTaskStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'expired' | 'cancelled';
 
 // ============================================================================
 // Request Content Structure
@@ -74,7 +76,8 @@ export interface VideoGenerationRequest {
   generate_audio?: boolean; // Default: true (synchronized audio)
   return_last_frame?: boolean; // Default: false (for chaining videos)
   service_tier?: VideoServiceTier; // Default: 'default' (online mode)
-  execution_expires_after?: number; // Default: 172800 (48 hours)
+  execution_expires_after?: number; // Seconds, 3600-259200. Default: 172800 (48 hours)
+  seed?: number; // 0 to 2^32-1; omitted or -1 picks a random seed
   callback_url?: string; // Optional webhook for status updates
 }
 
@@ -84,6 +87,7 @@ export interface VideoGenerationRequest {
  */
 export interface VideoGenerationResponse {
   id: string; // Task ID for polling
+  callback_enabled?: boolean; // Added by /api/generate-video: status updates arrive via /api/video-callback
 }
 
 /**
@@ -118,6 +122,47 @@ export interface VideoTaskResponse {
   };
 }
 
+/**
+ * Status pushed to subscribers of /api/video-callback/[taskId]
+ * Results (video URLs) are left out; clients fetch terminal tasks from Ark
+ */
+export type VideoTaskStatusUpdate = Pick<VideoTaskResponse, 'id' | 'status' | 'updated_at'>;
+
+/**
+ * Video task list query
+ * GET /api/v3/contents/generations/tasks (tasks from the last 7 days)
+ */
+export interface VideoTaskListQuery {
+  page_num?: number; // 1-500, default 1
+  page_size?: number; // 1-500, default 10
+  filter?: {
+    status?: VideoTaskStatus;
+    task_ids?: string[];
+    model?: string; // Model or endpoint ID
+  };
+}
+
+/**
+ * Video task list response
+ */
+export interface VideoTaskListResponse {
+  items: VideoTaskResponse[];
+  total: number; // Total matching tasks (across all pages)
+}
+
+/**
+ * Video task cancellation/deletion
+ * DELETE /api/v3/contents/generations/tasks/{id}
+ *
+ * queued → task is cancelled (status becomes 'cancelled')
+ * succeeded/failed/expired/cancelled → task record is deleted
+ * running → rejected by the API (cannot be interrupted)
+ */
+export interface VideoTaskDeleteResponse {
+  id: string;
+  deleted: boolean;
+}
+
 /**
  * Video API error response
  */
@@ -126,6 +171,7 @@ export interface VideoError {
     code: string;
     message: string;
     type: string;
+    fields?: RequestFieldError[]; // Set by the proxy routes for invalid requests
   };
 }
 
@@ -142,6 +188,7 @@ export interface VideoGenerationResult {
   taskId: string; // API task ID
   videoUrl: string; // Download URL (24-hour expiry)
   lastFrameUrl?: string; // Optional last frame URL
+  parentTaskId?: string; // Task this video extends (started from its last frame)
   prompt: string;
   mode: VideoMode;
   referenceImageUrls?: string[]; // Base64 or URLs used as references
@@ -158,6 +205,7 @@ export interface VideoGenerationResult {
   generationTimeMs: number; // Client-side generation time
   timestamp: Date;
   seed: number;
+  historyError?: string; // Set when video history is on but the row could not be saved
   usage: {
     completion_tokens: number;
     total_tokens: number;
@@ -193,7 +241,7 @@ export function isVideoMode(mode: string): mode is VideoMode {
  * Check if a task status is terminal (no more polling needed)
  */
 export function isTerminalStatus(status: VideoTaskStatus): boolean {
-  return status === 'succeeded' || status === 'failed' || status === 'expired';
+  return status === 'succeeded' || status === 'failed' || status === 'expired' || status === 'cancelled';
 }
 
 /**
@@ -205,6 +253,7 @@ export function isSuccessStatus(status: VideoTaskStatus): boolean {
 
 /**
  * Check if a task status is an error state
+ * Cancelled tasks are terminal but not errors (the user asked for it)
  */
 export function isErrorStatus(status: VideoTaskStatus): boolean {
   return status === 'failed' || status === 'expired';
@@ -242,6 +291,20 @@ export function isValidServiceTier(tier: string): tier is VideoServiceTier {
   return tier === 'default' || tier === 'flex';
 }
 
+/**
+ * Validate seed (-1 means random)
+ */
+export function isValidSeed(seed: number): boolean {
+  return Number.isInteger(seed) && seed >= -1 && seed <= 4294967295; // 2^32 - 1
+}
+
+/**
+ * Validate task expiry window in seconds (1 to 72 hours)
+ */
+export function isValidExpiresAfter(seconds: number): boolean {
+  return Number.isInteger(seconds) && seconds >= 3600 && seconds <= 259200;
+}
+
 /**
  * Validate image count for a specific video mode
  */
@@ -279,66 +342,6 @@ export function getRequiredImageCount(mode: VideoMode): number | { min: number;
   }
 }
 
-/**
- * Validate video generation parameters
- * Returns null if valid, error message if invalid
- */
-export function validateVideoParameters(params: {
-  mode: VideoMode;
-  prompt: string;
-  imageCount: number;
-  duration?: VideoDuration;
-  resolution?: VideoResolution;
-  ratio?: VideoRatio;
-  serviceTier?: VideoServiceTier;
-}): string | null {
-  // Validate prompt
-  if (!params.prompt || params.prompt.trim().length === 0) {
-    return 'Prompt is required';
-  }
-
-  if (params.prompt.length > 10000) {
-    return 'Prompt is too long (max 10,000 characters)';
-  }
-
-  // Validate mode
-  if (!isVideoMode(params.mode)) {
-    return 'Invalid video mode';
-  }
-
-  // Validate image count for mode
-  if (!validateImageCountForMode(params.mode, params.imageCount)) {
-    const required = getRequiredImageCount(params.mode);
-    if (typeof required === 'number') {
-      return `${params.mode} requires exactly ${required} image${required === 1 ? '' : 's'}`;
-    } else {
-      return `${params.mode} requires ${required.min}-${required.max} images`;
-    }
-  }
-
-  // Validate duration
-  if (params.duration !== undefined && !isValidDuration(params.duration)) {
-    return 'Duration must be between 4-12 seconds or -1 for auto';
-  }
-
-  // Validate resolution
-  if (params.resolution !== undefined && !isValidResolution(params.resolution)) {
-    return 'Invalid resolution (only 480p and 720p supported)';
-  }
-
-  // Validate ratio
-  if (params.ratio !== undefined && !isValidRatio(params.ratio)) {
-    return 'Invalid aspect ratio';
-  }
-
-  // Validate service tier
-  if (params.serviceTier !== undefined && !isValidServiceTier(params.serviceTier)) {
-    return 'Invalid service tier (must be default or flex)';
-  }
-
-  return null; // Valid
-}
-
 /**
  * Sanitize prompt text
  * Removes potentially problematic characters but preserves text commands
@@ -0,0 +1,50 @@
+-- Migration: Store the model and Seedance parameters in presets
+-- Date: 2026-10-19
+-- Description: Presets can now hold video settings as well as image settings.
+--              Video presets leave size/quality at their image defaults and
+--              fill the Seedance columns; image presets leave those NULL.
+
+-- ============================================================================
+-- Add model and video parameter columns
+-- ============================================================================
+
+ALTER TABLE presets
+  ADD COLUMN IF NOT EXISTS model TEXT,
+  ADD COLUMN IF NOT EXISTS duration INTEGER,
+  ADD COLUMN IF NOT EXISTS resolution TEXT,
+  ADD COLUMN IF NOT EXISTS ratio TEXT,
+  ADD COLUMN IF NOT EXISTS generate_audio BOOLEAN,
+  ADD COLUMN IF NOT EXISTS service_tier TEXT;
+
+-- Same values the video_generations table accepts (duration -1 = auto)
+ALTER TABLE presets
+  ADD CONSTRAINT check_preset_model
+  CHECK (model IS NULL OR model IN ('seedream-4-0', 'seedream-4-5', 'seedance-1-5-pro'));
+
+ALTER TABLE presets
+  ADD CONSTRAINT check_preset_duration
+  CHECK (duration IS NULL OR duration = -1 OR (duration >= 4 AND duration <= 12));
+
+ALTER TABLE presets
+  ADD CONSTRAINT check_preset_resolution
+  CHECK (resolution IS NULL OR resolution IN ('480p', '720p'));
+
+ALTER TABLE presets
+  ADD CONSTRAINT check_preset_service_tier
+  CHECK (service_tier IS NULL OR service_tier IN ('default', 'flex'));
+
+-- Filter by mode in the preset manager
+CREATE INDEX IF NOT EXISTS idx_presets_mode ON presets(mode);
+
+-- ============================================================================
+-- Comments for documentation
+-- ============================================================================
+
+COMMENT ON COLUMN presets.model IS
+  'Model the preset was saved with: seedream-4-0, seedream-4-5 or seedance-1-5-pro. NULL for older presets (image model left unchanged).';
+
+COMMENT ON COLUMN presets.duration IS
+  'Seedance video duration in seconds, -1 for auto. NULL for image presets.';
+
+COMMENT ON COLUMN presets.ratio IS
+  'Seedance aspect ratio (e.g. 16:9 or adaptive). NULL for image presets.';
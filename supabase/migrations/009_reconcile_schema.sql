@@ -0,0 +1,69 @@
+-- Migration: Reconcile the schema with what the app writes
+-- Date: 2026-10-19
+-- Description:
+--   1. Accept versioned model IDs in generations.model_version
+--      (the API returns e.g. 'seedream-4-5-251128'; 006 only allowed the bare names,
+--      so every generation insert was rejected)
+--   2. Allow images_generated = 0 (a batch where every image failed is still recorded)
+--   3. Give presets the batch columns the app reads and writes
+--   4. Remove presets.seed (not supported by Seedream, removed from generations in 003)
+--   5. Widen video_generations.seed to BIGINT (Seedance seeds go up to 4294967295,
+--      which overflowed the 32-bit INTEGER from 007). It is the only seed column left.
+--
+-- src/lib/supabase/types.ts is regenerated from the schema after this migration
+-- and is the only source of table types in the app.
+
+-- ============================================================================
+-- generations
+-- ============================================================================
+
+ALTER TABLE generations
+  DROP CONSTRAINT IF EXISTS check_valid_model_version;
+
+ALTER TABLE generations
+  ADD CONSTRAINT check_valid_model_version
+  CHECK (model_version ~ '^seedream-4-[05](-[0-9]+)?$');
+
+ALTER TABLE generations
+  DROP CONSTRAINT IF EXISTS check_images_generated_positive;
+
+ALTER TABLE generations
+  ADD CONSTRAINT check_images_generated_not_negative
+  CHECK (images_generated >= 0);
+
+COMMENT ON COLUMN generations.model_version IS
+  'Model version returned by the API, e.g. seedream-4-5-251128. Older rows hold the bare name (seedream-4-0 or seedream-4-5).';
+
+-- ============================================================================
+-- presets
+-- ============================================================================
+
+ALTER TABLE presets
+  ADD COLUMN IF NOT EXISTS batch_mode BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS max_images INTEGER,
+  DROP COLUMN IF EXISTS seed;
+
+-- Same rule as generations (see 003)
+ALTER TABLE presets
+  ADD CONSTRAINT check_preset_max_images_with_batch
+  CHECK (
+    (batch_mode = false AND max_images IS NULL) OR
+    (batch_mode = true AND max_images IS NOT NULL AND max_images >= 1 AND max_images <= 15)
+  );
+
+-- ============================================================================
+-- video_generations
+-- ============================================================================
+
+ALTER TABLE video_generations
+  ALTER COLUMN seed TYPE BIGINT;
+
+ALTER TABLE video_generations
+  DROP CONSTRAINT IF EXISTS check_video_seed_range;
+
+ALTER TABLE video_generations
+  ADD CONSTRAINT check_video_seed_range
+  CHECK (seed >= 0 AND seed <= 4294967295);
+
+COMMENT ON COLUMN video_generations.seed IS
+  'Seed Seedance used for the video, 0 to 4294967295 (BIGINT: the range does not fit a 32-bit INTEGER).';